@@ -0,0 +1,11 @@
+-- Upgrade databases created from the original schema.sql to the training job lifecycle columns
+ALTER TABLE training_jobs ADD COLUMN progress REAL NOT NULL DEFAULT 0;
+ALTER TABLE training_jobs ADD COLUMN config TEXT;
+ALTER TABLE training_jobs ADD COLUMN metrics TEXT;
+ALTER TABLE training_jobs ADD COLUMN error TEXT;
+ALTER TABLE training_jobs ADD COLUMN model_version TEXT;
+ALTER TABLE training_jobs ADD COLUMN artifact_url TEXT;
+ALTER TABLE training_jobs ADD COLUMN worker TEXT;
+ALTER TABLE training_jobs ADD COLUMN started_at INTEGER;
+ALTER TABLE training_jobs ADD COLUMN finished_at INTEGER;
+CREATE INDEX IF NOT EXISTS idx_jobs_status ON training_jobs(status);
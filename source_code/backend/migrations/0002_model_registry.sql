@@ -0,0 +1,22 @@
+-- Model registry (see schema.sql)
+CREATE TABLE IF NOT EXISTS models (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  kind TEXT NOT NULL,
+  version TEXT NOT NULL,
+  model_url TEXT NOT NULL,
+  metadata_url TEXT NOT NULL,
+  labels TEXT,
+  source_dataset_id INTEGER,
+  training_job_id INTEGER,
+  metrics TEXT,
+  active INTEGER NOT NULL DEFAULT 0,
+  created_by TEXT NOT NULL,
+  created_at INTEGER NOT NULL,
+  promoted_at INTEGER,
+  rolled_back_at INTEGER,
+  UNIQUE(kind, version),
+  FOREIGN KEY(source_dataset_id) REFERENCES datasets(id),
+  FOREIGN KEY(training_job_id) REFERENCES training_jobs(id)
+) STRICT;
+
+CREATE INDEX IF NOT EXISTS idx_models_kind_active ON models(kind, active);
@@ -0,0 +1,33 @@
+-- Practice progress and spaced repetition (see schema.sql)
+-- Graded practice attempts per user (X-Encrypted-Yw-ID); kind: letters | words
+CREATE TABLE IF NOT EXISTS practice_attempts (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  user_id TEXT NOT NULL,
+  kind TEXT NOT NULL,
+  label TEXT NOT NULL,
+  correct INTEGER NOT NULL,
+  confidence REAL,
+  latency_ms INTEGER,
+  lesson_id TEXT,
+  signed TEXT,
+  created_at INTEGER NOT NULL
+) STRICT;
+
+-- Spaced-repetition card per user and label (see src/srs.ts); mastery: 0..1
+CREATE TABLE IF NOT EXISTS label_mastery (
+  user_id TEXT NOT NULL,
+  kind TEXT NOT NULL,
+  label TEXT NOT NULL,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  correct INTEGER NOT NULL DEFAULT 0,
+  streak INTEGER NOT NULL DEFAULT 0,
+  ease REAL NOT NULL,
+  interval_ms INTEGER NOT NULL DEFAULT 0,
+  due_at INTEGER NOT NULL,
+  mastery REAL NOT NULL DEFAULT 0,
+  last_seen_at INTEGER,
+  PRIMARY KEY(user_id, kind, label)
+) STRICT;
+
+CREATE INDEX IF NOT EXISTS idx_attempts_user_label ON practice_attempts(user_id, kind, label);
+CREATE INDEX IF NOT EXISTS idx_attempts_user_time ON practice_attempts(user_id, created_at);
@@ -0,0 +1,8 @@
+-- Dataset management (see schema.sql)
+-- Storage keys of deleted samples, queued for removal from object storage
+CREATE TABLE IF NOT EXISTS storage_deletions (
+  file_key TEXT PRIMARY KEY,
+  requested_at INTEGER NOT NULL
+) STRICT;
+
+CREATE INDEX IF NOT EXISTS idx_samples_dataset_label ON samples(dataset_id, label);
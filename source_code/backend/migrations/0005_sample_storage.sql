@@ -0,0 +1,5 @@
+-- Sample storage (see schema.sql): size, content type and checksum of each sample's file.
+-- Samples recorded before this migration keep NULLs.
+ALTER TABLE samples ADD COLUMN size INTEGER;
+ALTER TABLE samples ADD COLUMN content_type TEXT;
+ALTER TABLE samples ADD COLUMN checksum TEXT;
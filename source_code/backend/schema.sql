@@ -12,19 +12,96 @@ CREATE TABLE IF NOT EXISTS samples (
   dataset_id INTEGER NOT NULL,
   label TEXT NOT NULL,
   file_key TEXT NOT NULL,
+  size INTEGER,         -- bytes; size, content_type and checksum are read from storage when the sample is recorded
+  content_type TEXT,
+  checksum TEXT,        -- hex SHA-256 of the file
   notes TEXT,
   created_at INTEGER NOT NULL,
   FOREIGN KEY(dataset_id) REFERENCES datasets(id)
 ) STRICT;
 
+-- Storage keys of deleted samples, queued for removal from object storage
+CREATE TABLE IF NOT EXISTS storage_deletions (
+  file_key TEXT PRIMARY KEY,
+  requested_at INTEGER NOT NULL
+) STRICT;
+
+-- status: queued -> running -> succeeded | failed | cancelled
+-- config: JSON training parameters; metrics: JSON array of per-epoch loss/accuracy
 CREATE TABLE IF NOT EXISTS training_jobs (
   id INTEGER PRIMARY KEY AUTOINCREMENT,
   dataset_id INTEGER NOT NULL,
   status TEXT NOT NULL,
+  progress REAL NOT NULL DEFAULT 0,
+  config TEXT,
+  metrics TEXT,
+  error TEXT,
+  model_version TEXT,
+  artifact_url TEXT,
+  worker TEXT,
+  started_at INTEGER,
+  finished_at INTEGER,
   created_at INTEGER NOT NULL,
   updated_at INTEGER NOT NULL,
   FOREIGN KEY(dataset_id) REFERENCES datasets(id)
 ) STRICT;
 
+-- Versioned models; at most one active row per kind (letters | words)
+-- labels: JSON array; metrics: JSON eval metrics; rolled_back_at excludes a version from rollback targets
+CREATE TABLE IF NOT EXISTS models (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  kind TEXT NOT NULL,
+  version TEXT NOT NULL,
+  model_url TEXT NOT NULL,
+  metadata_url TEXT NOT NULL,
+  labels TEXT,
+  source_dataset_id INTEGER,
+  training_job_id INTEGER,
+  metrics TEXT,
+  active INTEGER NOT NULL DEFAULT 0,
+  created_by TEXT NOT NULL,
+  created_at INTEGER NOT NULL,
+  promoted_at INTEGER,
+  rolled_back_at INTEGER,
+  UNIQUE(kind, version),
+  FOREIGN KEY(source_dataset_id) REFERENCES datasets(id),
+  FOREIGN KEY(training_job_id) REFERENCES training_jobs(id)
+) STRICT;
+
+-- Graded practice attempts per user (X-Encrypted-Yw-ID); kind: letters | words
+CREATE TABLE IF NOT EXISTS practice_attempts (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  user_id TEXT NOT NULL,
+  kind TEXT NOT NULL,
+  label TEXT NOT NULL,
+  correct INTEGER NOT NULL,
+  confidence REAL,
+  latency_ms INTEGER,
+  lesson_id TEXT,
+  signed TEXT,
+  created_at INTEGER NOT NULL
+) STRICT;
+
+-- Spaced-repetition card per user and label (see src/srs.ts); mastery: 0..1
+CREATE TABLE IF NOT EXISTS label_mastery (
+  user_id TEXT NOT NULL,
+  kind TEXT NOT NULL,
+  label TEXT NOT NULL,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  correct INTEGER NOT NULL DEFAULT 0,
+  streak INTEGER NOT NULL DEFAULT 0,
+  ease REAL NOT NULL,
+  interval_ms INTEGER NOT NULL DEFAULT 0,
+  due_at INTEGER NOT NULL,
+  mastery REAL NOT NULL DEFAULT 0,
+  last_seen_at INTEGER,
+  PRIMARY KEY(user_id, kind, label)
+) STRICT;
+
 CREATE INDEX IF NOT EXISTS idx_samples_dataset ON samples(dataset_id);
+CREATE INDEX IF NOT EXISTS idx_samples_dataset_label ON samples(dataset_id, label);
 CREATE INDEX IF NOT EXISTS idx_jobs_dataset ON training_jobs(dataset_id);
+CREATE INDEX IF NOT EXISTS idx_jobs_status ON training_jobs(status);
+CREATE INDEX IF NOT EXISTS idx_models_kind_active ON models(kind, active);
+CREATE INDEX IF NOT EXISTS idx_attempts_user_label ON practice_attempts(user_id, kind, label);
+CREATE INDEX IF NOT EXISTS idx_attempts_user_time ON practice_attempts(user_id, created_at);
@@ -0,0 +1,273 @@
+import { z } from 'zod';
+import type { Env } from './index';
+import type { RouteContext } from './jobs';
+import { error, invalid, json, readBody } from './http';
+import { ALLOWED_CONTENT_TYPES, MAX_SAMPLE_BYTES, getStorage, purgeDeletions, signUpload } from './storage';
+import type { SampleStorage } from './storage';
+
+// Datasets and their samples. Anyone can read them; only the creator (the X-Encrypted-Yw-ID user
+// stored in created_by) can add, change or delete. Deleting samples or a dataset queues the samples'
+// storage keys in storage_deletions, in the same batch as the rows, then purges the queue from storage.
+
+const DATASET_COLUMNS = 'id, name, description, created_by, created_at';
+const SAMPLE_COLUMNS = 'id, dataset_id, label, file_key, size, content_type, checksum, notes, created_at';
+
+const DEFAULT_PAGE = 50;
+const MAX_PAGE = 200;
+
+export const MANIFEST_FORMAT = 'asl-dataset-manifest';
+const MANIFEST_VERSION = 2; // v2: samples carry size, content_type, checksum and a download url
+
+type DatasetRow = { id: number; name: string; description: string | null; created_by: string; created_at: number };
+// size, content_type and checksum (hex SHA-256) are null for samples recorded before storage checked uploads
+type SampleRow = {
+  id: number;
+  dataset_id: number;
+  label: string;
+  file_key: string;
+  size: number | null;
+  content_type: string | null;
+  checksum: string | null;
+  notes: string | null;
+  created_at: number;
+};
+type LabelCount = { label: string; count: number };
+
+const name = z.string().trim().min(1, 'name is required').max(100);
+const description = z.string().max(1000);
+const label = z.string().min(1, 'label is required').max(64); // the blank class may be whitespace
+const notes = z.string().max(500);
+const atLeastOne = (b: Record<string, unknown>) => Object.values(b).some((v) => v !== undefined);
+
+const CreateDataset = z.object({ name, description: description.default('') });
+const UpdateDataset = z.object({ name: name.optional(), description: description.optional() })
+  .refine(atLeastOne, 'name or description is required');
+const Presign = z.object({
+  filename: z.string().max(200).default('sample.bin'),
+  contentType: z.enum(ALLOWED_CONTENT_TYPES),
+  size: z.number().int().positive().max(MAX_SAMPLE_BYTES, `file is larger than ${MAX_SAMPLE_BYTES} bytes`),
+});
+const CreateSample = z.object({ label, key: z.string().min(1, 'key is required').max(512), notes: notes.default('') });
+const UpdateSample = z.object({ label: label.optional(), notes: notes.optional() })
+  .refine(atLeastOne, 'label or notes is required');
+const SampleQuery = z.object({
+  label: z.string().max(64).optional(),
+  cursor: z.coerce.number().int().nonnegative().optional(), // id of the last sample of the previous page
+  limit: z.coerce.number().int().min(1).max(MAX_PAGE).default(DEFAULT_PAGE),
+});
+
+// Sample keys are issued by presign under the dataset's prefix; other keys are refused so deleting
+// a sample can never queue someone else's object
+const keyPrefix = (dsId: number) => `datasets/${dsId}/`;
+
+const withUrl = (storage: SampleStorage, s: SampleRow) => ({ ...s, url: storage.downloadUrl(s.file_key) });
+
+async function getDataset(env: Env, id: number) {
+  return env.DB.prepare(`SELECT ${DATASET_COLUMNS} FROM datasets WHERE id = ?`).bind(id).first<DatasetRow>();
+}
+
+// The dataset when `userId` may change it, else the 404 / 403 response
+async function ownedDataset(env: Env, id: number, userId: string): Promise<DatasetRow | Response> {
+  const ds = await getDataset(env, id);
+  if (!ds) return error('dataset not found', 404);
+  if (ds.created_by !== userId) return error('only the dataset owner can change it', 403);
+  return ds;
+}
+
+async function labelCounts(env: Env, dsId: number) {
+  const { results } = await env.DB.prepare('SELECT label, COUNT(*) AS count FROM samples WHERE dataset_id = ? GROUP BY label ORDER BY label')
+    .bind(dsId).all<LabelCount>();
+  return results || [];
+}
+
+const queueDeletion = (env: Env, where: string, ...params: unknown[]) =>
+  env.DB.prepare(`INSERT OR IGNORE INTO storage_deletions (file_key, requested_at) SELECT file_key, ? FROM samples WHERE ${where}`).bind(...params);
+
+export async function handleDatasets(request: Request, env: Env, ctx: RouteContext, userId: string): Promise<Response | null> {
+  const { url, path, method, now } = ctx;
+  if (path !== '/api/datasets' && !path.startsWith('/api/datasets/')) return null;
+
+  // Create or list datasets (?owner=me: only the caller's)
+  if (path === '/api/datasets') {
+    if (method === 'POST') {
+      const body = await readBody(request, CreateDataset);
+      if (body instanceof Response) return body;
+      const res = await env.DB.prepare('INSERT INTO datasets (name, description, created_by, created_at) VALUES (?, ?, ?, ?)')
+        .bind(body.name, body.description, userId, now).run();
+      const id = (res.meta && (res.meta.last_row_id as number)) || undefined;
+      return json({ id, name: body.name, description: body.description, created_by: userId, created_at: now });
+    }
+    if (method === 'GET') {
+      const owner = url.searchParams.get('owner');
+      if (owner && owner !== 'me') return error('owner must be me', 422);
+      const stmt = owner
+        ? env.DB.prepare(`SELECT ${DATASET_COLUMNS} FROM datasets WHERE created_by = ? ORDER BY id DESC`).bind(userId)
+        : env.DB.prepare(`SELECT ${DATASET_COLUMNS} FROM datasets ORDER BY id DESC`);
+      const { results } = await stmt.all<DatasetRow>();
+      return json(results || []);
+    }
+    return error('Method not allowed', 405);
+  }
+
+  const match = path.match(/^\/api\/datasets\/(\d+)(?:\/(stats|manifest|samples)(?:\/(presign|\d+))?)?$/);
+  if (!match) return error('Not found', 404);
+  const dsId = Number(match[1]);
+  const sub = match[2];
+  const sampleRef = match[3];
+  const storage = getStorage(env);
+
+  // Dataset detail, rename, delete
+  if (!sub) {
+    if (method === 'GET') {
+      const ds = await getDataset(env, dsId);
+      if (!ds) return error('dataset not found', 404);
+      const count = await env.DB.prepare('SELECT COUNT(*) AS n FROM samples WHERE dataset_id = ?').bind(dsId).first<number>('n');
+      return json({ ...ds, sample_count: count ?? 0 });
+    }
+    if (method === 'PATCH') {
+      const ds = await ownedDataset(env, dsId, userId);
+      if (ds instanceof Response) return ds;
+      const body = await readBody(request, UpdateDataset);
+      if (body instanceof Response) return body;
+      const next = { ...ds, ...(body.name !== undefined && { name: body.name }), ...(body.description !== undefined && { description: body.description }) };
+      await env.DB.prepare('UPDATE datasets SET name = ?, description = ? WHERE id = ?').bind(next.name, next.description, dsId).run();
+      return json(next);
+    }
+    // Samples, finished training jobs and the dataset go together; models trained on it stay registered
+    // but lose the link. Refused while a job still needs the samples.
+    if (method === 'DELETE') {
+      const ds = await ownedDataset(env, dsId, userId);
+      if (ds instanceof Response) return ds;
+      const active = await env.DB.prepare("SELECT COUNT(*) AS n FROM training_jobs WHERE dataset_id = ? AND status IN ('queued', 'running')")
+        .bind(dsId).first<number>('n');
+      if (active) return error('dataset has queued or running training jobs; cancel them first', 409);
+      const count = await env.DB.prepare('SELECT COUNT(*) AS n FROM samples WHERE dataset_id = ?').bind(dsId).first<number>('n');
+      await env.DB.batch([
+        queueDeletion(env, 'dataset_id = ?', now, dsId),
+        env.DB.prepare('UPDATE models SET training_job_id = NULL WHERE training_job_id IN (SELECT id FROM training_jobs WHERE dataset_id = ?)').bind(dsId),
+        env.DB.prepare('UPDATE models SET source_dataset_id = NULL WHERE source_dataset_id = ?').bind(dsId),
+        env.DB.prepare('DELETE FROM training_jobs WHERE dataset_id = ?').bind(dsId),
+        env.DB.prepare('DELETE FROM samples WHERE dataset_id = ?').bind(dsId),
+        env.DB.prepare('DELETE FROM datasets WHERE id = ?').bind(dsId),
+      ]);
+      await purgeDeletions(env);
+      return json({ id: dsId, deleted_samples: count ?? 0 });
+    }
+    return error('Method not allowed', 405);
+  }
+
+  // Sample count per label
+  if (sub === 'stats') {
+    if (sampleRef) return error('Not found', 404);
+    if (method !== 'GET') return error('Method not allowed', 405);
+    if (!(await getDataset(env, dsId))) return error('dataset not found', 404);
+    const labels = await labelCounts(env, dsId);
+    return json({ dataset_id: dsId, total: labels.reduce((n, l) => n + l.count, 0), labels });
+  }
+
+  // Everything a training script needs: labels with counts and every sample's storage key and URL
+  if (sub === 'manifest') {
+    if (sampleRef) return error('Not found', 404);
+    if (method !== 'GET') return error('Method not allowed', 405);
+    const ds = await getDataset(env, dsId);
+    if (!ds) return error('dataset not found', 404);
+    const { results } = await env.DB.prepare(`SELECT ${SAMPLE_COLUMNS} FROM samples WHERE dataset_id = ? ORDER BY id`).bind(dsId).all<SampleRow>();
+    return json({
+      format: MANIFEST_FORMAT,
+      version: MANIFEST_VERSION,
+      generated_at: now,
+      dataset: ds,
+      labels: await labelCounts(env, dsId),
+      samples: (results || []).map((row) => {
+        const { dataset_id, ...s } = withUrl(storage, row);
+        return s;
+      }),
+    });
+  }
+
+  // Presign a sample upload under the dataset's key prefix: a PUT URL for exactly this type and size
+  if (sampleRef === 'presign') {
+    if (method !== 'POST') return error('Method not allowed', 405);
+    const ds = await ownedDataset(env, dsId, userId);
+    if (ds instanceof Response) return ds;
+    const body = await readBody(request, Presign);
+    if (body instanceof Response) return body;
+    const safeName = body.filename.replace(/[^a-zA-Z0-9._-]/g, '_');
+    const key = `${keyPrefix(dsId)}${now}-${safeName}`;
+
+    const target = await signUpload(env, key, body.contentType, body.size, now);
+    if (target instanceof Response) return target;
+    return json({ key, ...target });
+  }
+
+  // List samples (paginated, optionally one label) or record an uploaded sample
+  if (!sampleRef) {
+    if (method === 'GET') {
+      if (!(await getDataset(env, dsId))) return error('dataset not found', 404);
+      const query = SampleQuery.safeParse({
+        label: url.searchParams.get('label') ?? undefined,
+        cursor: url.searchParams.get('cursor') ?? undefined,
+        limit: url.searchParams.get('limit') ?? undefined,
+      });
+      if (!query.success) return invalid(query.error);
+      const { label: only, cursor, limit } = query.data;
+      const where = ['dataset_id = ?', 'id > ?'];
+      const params: unknown[] = [dsId, cursor ?? 0];
+      if (only !== undefined) {
+        where.push('label = ?');
+        params.push(only);
+      }
+      // One extra row tells whether another page follows
+      const { results } = await env.DB.prepare(`SELECT ${SAMPLE_COLUMNS} FROM samples WHERE ${where.join(' AND ')} ORDER BY id LIMIT ?`)
+        .bind(...params, limit + 1).all<SampleRow>();
+      const rows = results || [];
+      const page = rows.slice(0, limit);
+      return json({ samples: page.map((s) => withUrl(storage, s)), next_cursor: rows.length > limit ? page[page.length - 1].id : null });
+    }
+    if (method === 'POST') {
+      const ds = await ownedDataset(env, dsId, userId);
+      if (ds instanceof Response) return ds;
+      const body = await readBody(request, CreateSample);
+      if (body instanceof Response) return body;
+      if (!body.key.startsWith(keyPrefix(dsId))) return error(`key must be a presigned key of this dataset (${keyPrefix(dsId)}…)`, 422);
+      // Size, type and checksum come from the stored object, not the client
+      const file = await storage.head(body.key);
+      if (!file) return error('nothing has been uploaded under this key', 422);
+      const taken = await env.DB.prepare('SELECT id FROM samples WHERE file_key = ?').bind(body.key).first<number>('id');
+      if (taken) return error(`key already belongs to sample ${taken}`, 409);
+      const res = await env.DB.prepare('INSERT INTO samples (dataset_id, label, file_key, size, content_type, checksum, notes, created_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?)')
+        .bind(dsId, body.label, body.key, file.size, file.contentType, file.checksum, body.notes, now).run();
+      const id = (res.meta && (res.meta.last_row_id as number)) || 0;
+      return json(withUrl(storage, {
+        id, dataset_id: dsId, label: body.label, file_key: body.key,
+        size: file.size, content_type: file.contentType, checksum: file.checksum, notes: body.notes, created_at: now,
+      }));
+    }
+    return error('Method not allowed', 405);
+  }
+
+  // One sample: read, relabel / annotate, delete
+  const sampleId = Number(sampleRef);
+  const sample = await env.DB.prepare(`SELECT ${SAMPLE_COLUMNS} FROM samples WHERE id = ? AND dataset_id = ?`).bind(sampleId, dsId).first<SampleRow>();
+  if (method === 'GET') {
+    if (!sample) return error('sample not found', 404);
+    return json(withUrl(storage, sample));
+  }
+  if (method !== 'PATCH' && method !== 'DELETE') return error('Method not allowed', 405);
+  const ds = await ownedDataset(env, dsId, userId);
+  if (ds instanceof Response) return ds;
+  if (!sample) return error('sample not found', 404);
+  if (method === 'PATCH') {
+    const body = await readBody(request, UpdateSample);
+    if (body instanceof Response) return body;
+    const next = { ...sample, ...(body.label !== undefined && { label: body.label }), ...(body.notes !== undefined && { notes: body.notes }) };
+    await env.DB.prepare('UPDATE samples SET label = ?, notes = ? WHERE id = ?').bind(next.label, next.notes, sampleId).run();
+    return json(withUrl(storage, next));
+  }
+  await env.DB.batch([
+    queueDeletion(env, 'id = ?', now, sampleId),
+    env.DB.prepare('DELETE FROM samples WHERE id = ?').bind(sampleId),
+  ]);
+  await purgeDeletions(env);
+  return json({ id: sampleId, dataset_id: dsId });
+}
@@ -0,0 +1,51 @@
+import type { ZodError, ZodType, ZodTypeDef } from 'zod';
+
+export type Json = Record<string, any> | any[] | string | number | null;
+
+export function json(data: Json, status = 200) {
+  return new Response(JSON.stringify({ code: 0, data }), {
+    status,
+    headers: { 'Content-Type': 'application/json' }
+  });
+}
+
+// `details` carries field-level problems, e.g. the failed checks of a request body
+export function error(message: string, status = 400, details?: Json) {
+  return new Response(JSON.stringify(details === undefined ? { code: status, error: message } : { code: status, error: message, details }), {
+    status,
+    headers: { 'Content-Type': 'application/json' }
+  });
+}
+
+export async function readJson(req: Request): Promise<any> {
+  try {
+    return await req.json();
+  } catch {
+    return null;
+  }
+}
+
+// Decodes a JSON text column, falling back when it is empty or malformed
+export function parseJson<T>(raw: string | null, fallback: T): T {
+  if (!raw) return fallback;
+  try {
+    return JSON.parse(raw) as T;
+  } catch {
+    return fallback;
+  }
+}
+
+// Reads and validates a JSON body: the parsed value, or the error response to return
+// (400 when the body is not JSON, 422 listing every failed check otherwise)
+export async function readBody<T>(req: Request, schema: ZodType<T, ZodTypeDef, unknown>): Promise<T | Response> {
+  const raw = await readJson(req);
+  if (raw === null) return error('request body must be JSON', 400);
+  const parsed = schema.safeParse(raw);
+  return parsed.success ? parsed.data : invalid(parsed.error);
+}
+
+// 422 listing every failed check of a body or query
+export function invalid(err: ZodError) {
+  const details = err.issues.map((i) => ({ path: i.path.join('.'), message: i.message }));
+  return error(details.map((d) => (d.path ? `${d.path}: ${d.message}` : d.message)).join('; '), 422, details);
+}
@@ -1,27 +1,18 @@
-export interface Env { DB: D1Database }
-
-type Json = Record<string, any> | any[] | string | number | null;
-
-function json(data: Json, status = 200) {
-  return new Response(JSON.stringify({ code: 0, data }), {
-    status,
-    headers: { 'Content-Type': 'application/json' }
-  });
-}
-
-function error(message: string, status = 400) {
-  return new Response(JSON.stringify({ code: status, error: message }), {
-    status,
-    headers: { 'Content-Type': 'application/json' }
-  });
-}
-
-async function readJson(req: Request) {
-  try {
-    return await req.json();
-  } catch {
-    return null;
-  }
+import { error, json } from './http';
+import { handleDatasets } from './datasets';
+import { handleTrainingJobs } from './jobs';
+import { handleModels } from './models';
+import { handleProgress } from './progress';
+import { handleStorage } from './storage';
+
+export interface Env {
+  DB: D1Database;
+  TRAINER_TOKEN?: string;      // shared secret for the training runner endpoints
+  TEACHER_IDS?: string;        // comma-separated user ids allowed to read every student's progress
+  MODEL_ADMIN_IDS?: string;    // comma-separated user ids allowed to promote and roll back models
+  SAMPLES?: R2Bucket;          // sample files; kept in memory when unbound (wrangler dev, tests)
+  UPLOAD_SECRET?: string;      // signs upload URLs; required with SAMPLES
+  STORAGE_PUBLIC_URL?: string; // public domain of the SAMPLES bucket, used for download URLs
 }
 
 export default {
@@ -37,96 +28,25 @@ export default {
       return json({ ok: true, time: new Date().toISOString() });
     }
 
-    // Create or list datasets
-    if (path === '/api/datasets') {
-      if (method === 'POST') {
-        const body = await readJson(request);
-        if (!body || !body.name) return error('name is required', 422);
-        const description = body.description || '';
-        const stmt = env.DB.prepare('INSERT INTO datasets (name, description, created_by, created_at) VALUES (?, ?, ?, ?)');
-        const res = await stmt.bind(body.name, description, userId, now).run();
-        const id = (res.meta && (res.meta.last_row_id as number)) || undefined;
-        return json({ id, name: body.name, description });
-      }
-      if (method === 'GET') {
-        const { results } = await env.DB.prepare('SELECT id, name, description, created_by, created_at FROM datasets ORDER BY id DESC').all();
-        return json(results);
-      }
-      return error('Method not allowed', 405);
-    }
+    // Sample files: signed uploads and downloads
+    const storageResponse = await handleStorage(request, env, { url, path, method, now });
+    if (storageResponse) return storageResponse;
 
-    // Dataset detail
-    const dsMatch = path.match(/^\/api\/datasets\/(\d+)$/);
-    if (dsMatch) {
-      const dsId = Number(dsMatch[1]);
-      if (method === 'GET') {
-        const { results } = await env.DB.prepare('SELECT id, name, description, created_by, created_at FROM datasets WHERE id = ?').bind(dsId).all();
-        if (!results || results.length === 0) return error('dataset not found', 404);
-        return json(results[0]);
-      }
-      return error('Method not allowed', 405);
-    }
-
-    // Presign sample upload
-    const presignMatch = path.match(/^\/api\/datasets\/(\d+)\/samples\/presign$/);
-    if (presignMatch && method === 'POST') {
-      const dsId = Number(presignMatch[1]);
-      const body = await readJson(request) || {};
-      const filename: string = (body.filename || 'sample.bin').toString();
-      const contentType: string | undefined = body.contentType || undefined;
-      const safeName = filename.replace(/[^a-zA-Z0-9._-]/g, '_');
-      const key = `datasets/${dsId}/${now}-${safeName}`;
+    // Datasets and samples: list, create, edit, delete, per-label stats, manifest, presigned uploads
+    const datasetResponse = await handleDatasets(request, env, { url, path, method, now }, userId);
+    if (datasetResponse) return datasetResponse;
 
-      try {
-        const resp = await fetch('https://storage.youware.me/presign/upload', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ key, contentType })
-        });
-        if (!resp.ok) {
-          const err = await resp.text();
-          console.error('presign upload failed', err);
-          return error('presign failed', 502);
-        }
-        const data = await resp.json();
-        return json({ ...data, key });
-      } catch (e: any) {
-        console.error('presign exception', e?.message || e);
-        return error('presign exception', 500);
-      }
-    }
+    // Training jobs: queue, inspect, cancel, and the runner's claim/progress/complete/fail calls
+    const jobResponse = await handleTrainingJobs(request, env, { url, path, method, now }, userId);
+    if (jobResponse) return jobResponse;
 
-    // Save sample metadata
-    const sampleMatch = path.match(/^\/api\/datasets\/(\d+)\/samples$/);
-    if (sampleMatch && method === 'POST') {
-      const dsId = Number(sampleMatch[1]);
-      const body = await readJson(request);
-      if (!body || !body.label || !body.key) return error('label and key are required', 422);
-      const stmt = env.DB.prepare('INSERT INTO samples (dataset_id, label, file_key, notes, created_at) VALUES (?, ?, ?, ?, ?)');
-      const res = await stmt.bind(dsId, body.label, body.key, body.notes || '', now).run();
-      const id = (res.meta && (res.meta.last_row_id as number)) || undefined;
-      return json({ id, dataset_id: dsId });
-    }
+    // Model registry: list, register, promote, roll back
+    const modelResponse = await handleModels(request, env, { url, path, method, now }, userId);
+    if (modelResponse) return modelResponse;
 
-    // Queue training job
-    if (path === '/api/retrain' && method === 'POST') {
-      const body = await readJson(request);
-      if (!body || !body.dataset_id) return error('dataset_id is required', 422);
-      const dsId = Number(body.dataset_id);
-      const stmt = env.DB.prepare('INSERT INTO training_jobs (dataset_id, status, created_at, updated_at) VALUES (?, ?, ?, ?)');
-      const res = await stmt.bind(dsId, 'queued', now, now).run();
-      const id = (res.meta && (res.meta.last_row_id as number)) || undefined;
-      return json({ id, dataset_id: dsId, status: 'queued' });
-    }
-
-    // Get training job
-    const jobMatch = path.match(/^\/api\/training-jobs\/(\d+)$/);
-    if (jobMatch && method === 'GET') {
-      const jobId = Number(jobMatch[1]);
-      const { results } = await env.DB.prepare('SELECT id, dataset_id, status, created_at, updated_at FROM training_jobs WHERE id = ?').bind(jobId).all();
-      if (!results || results.length === 0) return error('job not found', 404);
-      return json(results[0]);
-    }
+    // Practice progress: attempts, mastery, the spaced-repetition queue and teacher views
+    const progressResponse = await handleProgress(request, env, { url, path, method, now }, userId);
+    if (progressResponse) return progressResponse;
 
     return error('Not found', 404);
   }
@@ -0,0 +1,243 @@
+import type { Env } from './index';
+import { error, json, parseJson, readJson } from './http';
+import { registerModel } from './models';
+import type { ModelKind } from './models';
+
+// Job lifecycle: queued -> running -> succeeded | failed | cancelled (queued jobs may also be cancelled)
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+export type RouteContext = { url: URL; path: string; method: string; now: number };
+
+export type EpochMetrics = {
+  epoch: number;
+  loss: number;
+  accuracy?: number;
+  val_loss?: number;
+  val_accuracy?: number;
+};
+
+// Training hyper-parameters accepted by POST /api/retrain; defaults match Teachable Machine
+export type JobConfig = {
+  kind: ModelKind; // which registry slot the resulting model is registered under
+  epochs: number;
+  batchSize: number;
+  learningRate: number;
+  denseUnits: number;
+};
+
+const DEFAULT_JOB_CONFIG: JobConfig = { kind: 'letters', epochs: 50, batchSize: 16, learningRate: 0.001, denseUnits: 100 };
+
+const TRANSITIONS: Record<JobStatus, JobStatus[]> = {
+  queued: ['running', 'cancelled'],
+  running: ['succeeded', 'failed', 'cancelled'],
+  succeeded: [],
+  failed: [],
+  cancelled: [],
+};
+
+const JOB_COLUMNS = 'id, dataset_id, status, progress, config, metrics, error, model_version, artifact_url, worker, started_at, finished_at, created_at, updated_at';
+
+type JobRow = {
+  id: number;
+  dataset_id: number;
+  status: JobStatus;
+  progress: number;
+  config: string | null;
+  metrics: string | null;
+  error: string | null;
+  model_version: string | null;
+  artifact_url: string | null;
+  worker: string | null;
+  started_at: number | null;
+  finished_at: number | null;
+  created_at: number;
+  updated_at: number;
+};
+
+// Decode the JSON text columns for API responses
+function present(row: JobRow) {
+  return {
+    ...row,
+    config: parseJson<JobConfig>(row.config, DEFAULT_JOB_CONFIG),
+    metrics: parseJson<EpochMetrics[]>(row.metrics, []),
+  };
+}
+
+function positive(v: unknown, fallback: number) {
+  const n = Number(v);
+  return Number.isFinite(n) && n > 0 ? n : fallback;
+}
+
+function readConfig(body: any): JobConfig {
+  const c = (body && body.config) || {};
+  return {
+    kind: c.kind === 'words' ? 'words' : 'letters',
+    epochs: Math.min(500, Math.round(positive(c.epochs, DEFAULT_JOB_CONFIG.epochs))),
+    batchSize: Math.min(512, Math.round(positive(c.batchSize, DEFAULT_JOB_CONFIG.batchSize))),
+    learningRate: positive(c.learningRate, DEFAULT_JOB_CONFIG.learningRate),
+    denseUnits: Math.min(1024, Math.round(positive(c.denseUnits, DEFAULT_JOB_CONFIG.denseUnits))),
+  };
+}
+
+async function getJob(env: Env, id: number) {
+  return env.DB.prepare(`SELECT ${JOB_COLUMNS} FROM training_jobs WHERE id = ?`).bind(id).first<JobRow>();
+}
+
+// Conditional update so concurrent callers cannot skip a lifecycle step
+async function transition(env: Env, id: number, to: JobStatus, now: number, fields: Record<string, unknown> = {}) {
+  const from = (Object.keys(TRANSITIONS) as JobStatus[]).filter((s) => TRANSITIONS[s].includes(to));
+  const keys = Object.keys(fields);
+  const sets = ['status = ?', 'updated_at = ?', ...keys.map((k) => `${k} = ?`)].join(', ');
+  const placeholders = from.map(() => '?').join(', ');
+  const res = await env.DB.prepare(`UPDATE training_jobs SET ${sets} WHERE id = ? AND status IN (${placeholders})`)
+    .bind(to, now, ...keys.map((k) => fields[k]), id, ...from)
+    .run();
+  return (res.meta?.changes ?? 0) > 0;
+}
+
+const hasRunnerToken = (request: Request, env: Env) =>
+  !!env.TRAINER_TOKEN && request.headers.get('X-Trainer-Token') === env.TRAINER_TOKEN;
+
+// The runner authenticates with the shared TRAINER_TOKEN secret; without one configured the runner
+// endpoints stay closed. Null when authorized, else the 503 / 401 response.
+function runnerDenied(request: Request, env: Env): Response | null {
+  if (!env.TRAINER_TOKEN) return error('training runner is not configured: set TRAINER_TOKEN', 503);
+  return hasRunnerToken(request, env) ? null : error('unauthorized', 401);
+}
+
+// Cancelling is for the owner of the job's dataset, or whoever holds the runner token
+async function mayCancel(request: Request, env: Env, job: JobRow, userId: string) {
+  if (hasRunnerToken(request, env)) return true;
+  const owner = await env.DB.prepare('SELECT created_by FROM datasets WHERE id = ?').bind(job.dataset_id).first<string>('created_by');
+  return owner !== null && owner === userId;
+}
+
+export async function handleTrainingJobs(request: Request, env: Env, ctx: RouteContext, userId: string): Promise<Response | null> {
+  const { url, path, method, now } = ctx;
+
+  // Queue training job
+  if (path === '/api/retrain' && method === 'POST') {
+    const body = await readJson(request);
+    if (!body || !body.dataset_id) return error('dataset_id is required', 422);
+    const dsId = Number(body.dataset_id);
+    const ds = await env.DB.prepare('SELECT id FROM datasets WHERE id = ?').bind(dsId).first();
+    if (!ds) return error('dataset not found', 404);
+    const config = readConfig(body);
+    const stmt = env.DB.prepare('INSERT INTO training_jobs (dataset_id, status, progress, config, metrics, created_at, updated_at) VALUES (?, ?, 0, ?, ?, ?, ?)');
+    const res = await stmt.bind(dsId, 'queued', JSON.stringify(config), '[]', now, now).run();
+    const id = (res.meta && (res.meta.last_row_id as number)) || undefined;
+    return json({ id, dataset_id: dsId, status: 'queued', config });
+  }
+
+  // List training jobs (optionally for one dataset)
+  if (path === '/api/training-jobs' && method === 'GET') {
+    const dsId = url.searchParams.get('dataset_id');
+    const stmt = dsId
+      ? env.DB.prepare(`SELECT ${JOB_COLUMNS} FROM training_jobs WHERE dataset_id = ? ORDER BY id DESC LIMIT 100`).bind(Number(dsId))
+      : env.DB.prepare(`SELECT ${JOB_COLUMNS} FROM training_jobs ORDER BY id DESC LIMIT 100`);
+    const { results } = await stmt.all<JobRow>();
+    return json((results || []).map(present));
+  }
+
+  // Runner: claim the oldest queued job and receive its sample manifest
+  if (path === '/api/training-jobs/claim' && method === 'POST') {
+    const denied = runnerDenied(request, env);
+    if (denied) return denied;
+    const body = await readJson(request) || {};
+    const worker = (body.worker || 'runner').toString().slice(0, 100);
+    const claimed = await env.DB.prepare(
+      `UPDATE training_jobs SET status = 'running', worker = ?, started_at = ?, updated_at = ?, progress = 0
+       WHERE id = (SELECT id FROM training_jobs WHERE status = 'queued' ORDER BY id LIMIT 1) AND status = 'queued'
+       RETURNING ${JOB_COLUMNS}`
+    ).bind(worker, now, now).first<JobRow>();
+    if (!claimed) return json(null);
+    const { results } = await env.DB.prepare('SELECT id, label, file_key FROM samples WHERE dataset_id = ? ORDER BY id').bind(claimed.dataset_id).all();
+    return json({ job: present(claimed), samples: results || [] });
+  }
+
+  const jobMatch = path.match(/^\/api\/training-jobs\/(\d+)(?:\/(cancel|progress|complete|fail))?$/);
+  if (!jobMatch) return null;
+  const jobId = Number(jobMatch[1]);
+  const action = jobMatch[2];
+
+  // Get training job
+  if (!action) {
+    if (method !== 'GET') return error('Method not allowed', 405);
+    const job = await getJob(env, jobId);
+    if (!job) return error('job not found', 404);
+    return json(present(job));
+  }
+
+  if (method !== 'POST') return error('Method not allowed', 405);
+  const job = await getJob(env, jobId);
+  if (!job) return error('job not found', 404);
+
+  // Cancel a queued or running job; a running job stops at its next progress report
+  if (action === 'cancel') {
+    if (!await mayCancel(request, env, job, userId)) return error('only the dataset owner can cancel its training jobs', 403);
+    if (!await transition(env, jobId, 'cancelled', now, { finished_at: now })) {
+      return error(`cannot cancel a ${job.status} job`, 409);
+    }
+    return json(present((await getJob(env, jobId))!));
+  }
+
+  const denied = runnerDenied(request, env);
+  if (denied) return denied;
+  const body = await readJson(request) || {};
+
+  // Runner: per-epoch metrics and overall progress; the reply tells the runner whether to keep going
+  if (action === 'progress') {
+    if (job.status !== 'running') return json({ status: job.status });
+    const metrics = parseJson<EpochMetrics[]>(job.metrics, []);
+    if (body.epoch && typeof body.epoch === 'object' && Number.isFinite(Number(body.epoch.epoch))) {
+      metrics.push(body.epoch as EpochMetrics);
+    }
+    const progress = Math.min(1, Math.max(0, Number(body.progress) || 0));
+    await env.DB.prepare("UPDATE training_jobs SET progress = ?, metrics = ?, updated_at = ? WHERE id = ? AND status = 'running'")
+      .bind(progress, JSON.stringify(metrics), now, jobId)
+      .run();
+    const latest = await getJob(env, jobId);
+    return json({ status: latest?.status ?? job.status });
+  }
+
+  // Runner: training finished and the artifact is published
+  if (action === 'complete') {
+    if (!body.model_version) return error('model_version is required', 422);
+    const config = parseJson<JobConfig>(job.config, DEFAULT_JOB_CONFIG);
+    // A taken version would fail registration after the job is already marked succeeded
+    if (body.artifact_url) {
+      const dup = await env.DB.prepare('SELECT id FROM models WHERE kind = ? AND version = ?').bind(config.kind, String(body.model_version)).first();
+      if (dup) return error(`${config.kind} model version ${body.model_version} is already registered`, 409);
+    }
+    const ok = await transition(env, jobId, 'succeeded', now, {
+      progress: 1,
+      model_version: String(body.model_version),
+      artifact_url: body.artifact_url ? String(body.artifact_url) : null,
+      finished_at: now,
+    });
+    if (!ok) return error(`cannot complete a ${job.status} job`, 409);
+    // Register the published artifact so it can be promoted from the model registry
+    if (body.artifact_url) {
+      const metrics = parseJson<EpochMetrics[]>(job.metrics, []);
+      const last = metrics[metrics.length - 1];
+      await registerModel(env, {
+        kind: config.kind,
+        version: String(body.model_version),
+        model_url: String(body.artifact_url),
+        labels: Array.isArray(body.labels) ? body.labels.map(String) : [],
+        source_dataset_id: job.dataset_id,
+        training_job_id: job.id,
+        metrics: last ? { val_accuracy: last.val_accuracy, val_loss: last.val_loss, epochs: metrics.length } : {},
+      }, `trainer:${job.worker || 'runner'}`, now);
+    }
+    return json(present((await getJob(env, jobId))!));
+  }
+
+  // Runner: training failed
+  const ok = await transition(env, jobId, 'failed', now, {
+    error: String(body.error || 'unknown error').slice(0, 2000),
+    finished_at: now,
+  });
+  if (!ok) return error(`cannot fail a ${job.status} job`, 409);
+  return json(present((await getJob(env, jobId))!));
+}
@@ -0,0 +1,168 @@
+import type { Env } from './index';
+import type { RouteContext } from './jobs';
+import { error, json, parseJson, readJson } from './http';
+
+// Versioned Teachable Machine models. At most one version per kind is active; the frontend loads the
+// active one and falls back to its bundled assets when there is none. Rolling back retires the active
+// version and re-activates the most recently promoted version that was not itself rolled back.
+// Promoting and rolling back change the model every user loads, so only MODEL_ADMIN_IDS may do them.
+export type ModelKind = 'letters' | 'words';
+
+const KINDS: ModelKind[] = ['letters', 'words'];
+
+const MODEL_COLUMNS = 'id, kind, version, model_url, metadata_url, labels, source_dataset_id, training_job_id, metrics, active, created_by, created_at, promoted_at, rolled_back_at';
+
+type ModelRow = {
+  id: number;
+  kind: ModelKind;
+  version: string;
+  model_url: string;
+  metadata_url: string;
+  labels: string | null;
+  source_dataset_id: number | null;
+  training_job_id: number | null;
+  metrics: string | null;
+  active: number;
+  created_by: string;
+  created_at: number;
+  promoted_at: number | null;
+  rolled_back_at: number | null;
+};
+
+export type ModelRegistration = {
+  kind: ModelKind;
+  version: string;
+  model_url: string;
+  metadata_url?: string;
+  labels?: string[];
+  source_dataset_id?: number | null;
+  training_job_id?: number | null;
+  metrics?: Record<string, unknown>;
+};
+
+function present(row: ModelRow) {
+  return {
+    ...row,
+    active: row.active === 1,
+    labels: parseJson<string[]>(row.labels, []),
+    metrics: parseJson<Record<string, unknown>>(row.metrics, {}),
+  };
+}
+
+const isAdmin = (env: Env, userId: string) =>
+  userId !== 'anonymous' && (env.MODEL_ADMIN_IDS || '').split(',').map((s) => s.trim()).includes(userId);
+
+const isKind = (k: unknown): k is ModelKind => KINDS.includes(k as ModelKind);
+
+// `.../model.json` -> `.../metadata.json`, the Teachable Machine export layout
+const siblingMetadataUrl = (modelUrl: string) => modelUrl.replace(/model\.json(\?.*)?$/, 'metadata.json$1');
+
+async function getModel(env: Env, id: number) {
+  return env.DB.prepare(`SELECT ${MODEL_COLUMNS} FROM models WHERE id = ?`).bind(id).first<ModelRow>();
+}
+
+export async function registerModel(env: Env, reg: ModelRegistration, userId: string, now: number) {
+  const res = await env.DB.prepare(
+    'INSERT INTO models (kind, version, model_url, metadata_url, labels, source_dataset_id, training_job_id, metrics, active, created_by, created_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, 0, ?, ?)'
+  ).bind(
+    reg.kind,
+    reg.version,
+    reg.model_url,
+    reg.metadata_url || siblingMetadataUrl(reg.model_url),
+    JSON.stringify(reg.labels || []),
+    reg.source_dataset_id ?? null,
+    reg.training_job_id ?? null,
+    JSON.stringify(reg.metrics || {}),
+    userId,
+    now
+  ).run();
+  const id = (res.meta && (res.meta.last_row_id as number)) || undefined;
+  return id;
+}
+
+async function activate(env: Env, kind: ModelKind, id: number, now: number) {
+  await env.DB.batch([
+    env.DB.prepare('UPDATE models SET active = 0 WHERE kind = ? AND active = 1').bind(kind),
+    env.DB.prepare('UPDATE models SET active = 1, promoted_at = ?, rolled_back_at = NULL WHERE id = ?').bind(now, id),
+  ]);
+}
+
+export async function handleModels(request: Request, env: Env, ctx: RouteContext, userId: string): Promise<Response | null> {
+  const { url, path, method, now } = ctx;
+
+  if (path === '/api/models') {
+    // List versions, newest first
+    if (method === 'GET') {
+      const kind = url.searchParams.get('kind');
+      if (kind && !isKind(kind)) return error('kind must be letters or words', 422);
+      const stmt = kind
+        ? env.DB.prepare(`SELECT ${MODEL_COLUMNS} FROM models WHERE kind = ? ORDER BY id DESC`).bind(kind)
+        : env.DB.prepare(`SELECT ${MODEL_COLUMNS} FROM models ORDER BY id DESC`);
+      const { results } = await stmt.all<ModelRow>();
+      return json((results || []).map(present));
+    }
+    // Register a version (inactive until promoted)
+    if (method === 'POST') {
+      const body = await readJson(request);
+      if (!body || !isKind(body.kind)) return error('kind must be letters or words', 422);
+      if (!body.version || !body.model_url) return error('version and model_url are required', 422);
+      if (body.labels !== undefined && !Array.isArray(body.labels)) return error('labels must be an array', 422);
+      const dup = await env.DB.prepare('SELECT id FROM models WHERE kind = ? AND version = ?').bind(body.kind, String(body.version)).first();
+      if (dup) return error('version already registered', 409);
+      const id = await registerModel(env, {
+        kind: body.kind,
+        version: String(body.version),
+        model_url: String(body.model_url),
+        metadata_url: body.metadata_url ? String(body.metadata_url) : undefined,
+        labels: body.labels,
+        source_dataset_id: body.source_dataset_id != null ? Number(body.source_dataset_id) : null,
+        training_job_id: body.training_job_id != null ? Number(body.training_job_id) : null,
+        metrics: body.metrics && typeof body.metrics === 'object' ? body.metrics : {},
+      }, userId, now);
+      return json(present((await getModel(env, id!))!));
+    }
+    return error('Method not allowed', 405);
+  }
+
+  // Active version per kind; null means "use the bundled assets"
+  if (path === '/api/models/active' && method === 'GET') {
+    const { results } = await env.DB.prepare(`SELECT ${MODEL_COLUMNS} FROM models WHERE active = 1`).all<ModelRow>();
+    const active: Record<ModelKind, ReturnType<typeof present> | null> = { letters: null, words: null };
+    for (const row of results || []) active[row.kind] = present(row);
+    return json(active);
+  }
+
+  // Roll back the active version of a kind
+  if (path === '/api/models/rollback' && method === 'POST') {
+    if (!isAdmin(env, userId)) return error('model admin access required', 403);
+    const body = await readJson(request);
+    if (!body || !isKind(body.kind)) return error('kind must be letters or words', 422);
+    const current = await env.DB.prepare(`SELECT ${MODEL_COLUMNS} FROM models WHERE kind = ? AND active = 1`).bind(body.kind).first<ModelRow>();
+    if (!current) return error('no active version to roll back', 409);
+    const previous = await env.DB.prepare(
+      `SELECT ${MODEL_COLUMNS} FROM models WHERE kind = ? AND active = 0 AND promoted_at IS NOT NULL AND rolled_back_at IS NULL ORDER BY promoted_at DESC LIMIT 1`
+    ).bind(body.kind).first<ModelRow>();
+    const stmts = [env.DB.prepare('UPDATE models SET active = 0, rolled_back_at = ? WHERE id = ?').bind(now, current.id)];
+    if (previous) stmts.push(env.DB.prepare('UPDATE models SET active = 1 WHERE id = ?').bind(previous.id));
+    await env.DB.batch(stmts);
+    return json({
+      kind: body.kind,
+      rolled_back: present({ ...current, active: 0, rolled_back_at: now }),
+      active: previous ? present({ ...previous, active: 1 }) : null,
+    });
+  }
+
+  const promoteMatch = path.match(/^\/api\/models\/(\d+)(\/promote)?$/);
+  if (!promoteMatch) return null;
+  const model = await getModel(env, Number(promoteMatch[1]));
+  if (!model) return error('model not found', 404);
+
+  if (!promoteMatch[2]) {
+    if (method !== 'GET') return error('Method not allowed', 405);
+    return json(present(model));
+  }
+  if (method !== 'POST') return error('Method not allowed', 405);
+  if (!isAdmin(env, userId)) return error('model admin access required', 403);
+  await activate(env, model.kind, model.id, now);
+  return json(present((await getModel(env, model.id))!));
+}
@@ -0,0 +1,197 @@
+import type { Env } from './index';
+import type { RouteContext } from './jobs';
+import type { ModelKind } from './models';
+import { error, json, readJson } from './http';
+import { Card, newCard, nextQueue, review } from './srs';
+
+// Practice progress per user (the X-Encrypted-Yw-ID header): every graded attempt is stored, and
+// each (user, kind, label) keeps a spaced-repetition card that the queue endpoint schedules from.
+// Teachers (user ids listed in TEACHER_IDS) can read every student's mastery.
+const KINDS: ModelKind[] = ['letters', 'words'];
+const isKind = (k: unknown): k is ModelKind => KINDS.includes(k as ModelKind);
+
+const MAX_ATTEMPTS_PER_REQUEST = 200;
+const MAX_QUEUE = 50;
+const WEAKEST_PER_STUDENT = 5;
+const MIN_ATTEMPTS_FOR_WEAKEST = 3; // a label needs this much history to count as a struggle
+
+const MASTERY_COLUMNS = 'user_id, kind, label, attempts, correct, streak, ease, interval_ms, due_at, mastery, last_seen_at';
+
+type MasteryRow = Card & { user_id: string; kind: ModelKind; label: string };
+
+type AttemptInput = {
+  kind: ModelKind;
+  label: string;
+  correct: boolean;
+  confidence: number | null;
+  latency_ms: number | null;
+  lesson_id: string | null;
+  signed: string | null;
+  created_at: number;
+};
+
+function present(row: MasteryRow) {
+  const { user_id, ...card } = row;
+  return { ...card, accuracy: row.attempts ? row.correct / row.attempts : 0 };
+}
+
+const optionalNumber = (v: unknown) => (v === undefined || v === null || !Number.isFinite(Number(v)) ? null : Number(v));
+const optionalString = (v: unknown, max: number) => (typeof v === 'string' && v ? v.slice(0, max) : null);
+
+// Validates one attempt; returns an error message instead when it is malformed
+function readAttempt(raw: any, now: number): AttemptInput | string {
+  if (!raw || typeof raw !== 'object') return 'attempt must be an object';
+  if (!isKind(raw.kind)) return 'kind must be letters or words';
+  if (typeof raw.label !== 'string' || !raw.label.trim() || raw.label.length > 64) return 'label is required (max 64 characters)';
+  if (typeof raw.correct !== 'boolean') return 'correct must be a boolean';
+  const confidence = optionalNumber(raw.confidence);
+  if (confidence !== null && (confidence < 0 || confidence > 1)) return 'confidence must be between 0 and 1';
+  const latency = optionalNumber(raw.latency_ms);
+  const createdAt = optionalNumber(raw.created_at);
+  return {
+    kind: raw.kind,
+    label: raw.label.trim(),
+    correct: raw.correct,
+    confidence,
+    latency_ms: latency !== null ? Math.max(0, Math.round(latency)) : null,
+    lesson_id: optionalString(raw.lesson_id, 64),
+    signed: optionalString(raw.signed, 64),
+    // Attempts recorded offline upload later; never schedule from a future client clock
+    created_at: createdAt !== null ? Math.min(now, Math.round(createdAt)) : now,
+  };
+}
+
+const isTeacher = (env: Env, userId: string) =>
+  userId !== 'anonymous' && (env.TEACHER_IDS || '').split(',').map((s) => s.trim()).includes(userId);
+
+async function loadCards(env: Env, userId: string, kind: ModelKind): Promise<Record<string, MasteryRow>> {
+  const { results } = await env.DB.prepare(`SELECT ${MASTERY_COLUMNS} FROM label_mastery WHERE user_id = ? AND kind = ?`)
+    .bind(userId, kind).all<MasteryRow>();
+  const cards: Record<string, MasteryRow> = {};
+  for (const row of results || []) cards[row.label] = row;
+  return cards;
+}
+
+async function recordAttempts(env: Env, userId: string, attempts: AttemptInput[]) {
+  const stmts: D1PreparedStatement[] = [];
+  const updated: MasteryRow[] = [];
+  for (const kind of KINDS) {
+    const ofKind = attempts.filter((a) => a.kind === kind).sort((a, b) => a.created_at - b.created_at);
+    if (ofKind.length === 0) continue;
+    const cards = await loadCards(env, userId, kind);
+    const touched = new Set<string>();
+    for (const a of ofKind) {
+      stmts.push(env.DB.prepare(
+        'INSERT INTO practice_attempts (user_id, kind, label, correct, confidence, latency_ms, lesson_id, signed, created_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)'
+      ).bind(userId, kind, a.label, a.correct ? 1 : 0, a.confidence, a.latency_ms, a.lesson_id, a.signed, a.created_at));
+      const card = cards[a.label] ?? { ...newCard(a.created_at), user_id: userId, kind, label: a.label };
+      cards[a.label] = { ...card, ...review(card, a, a.created_at) };
+      touched.add(a.label);
+    }
+    for (const label of touched) {
+      const c = cards[label];
+      stmts.push(env.DB.prepare(
+        `INSERT INTO label_mastery (${MASTERY_COLUMNS}) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT(user_id, kind, label) DO UPDATE SET attempts = excluded.attempts, correct = excluded.correct, streak = excluded.streak,
+           ease = excluded.ease, interval_ms = excluded.interval_ms, due_at = excluded.due_at, mastery = excluded.mastery, last_seen_at = excluded.last_seen_at`
+      ).bind(userId, kind, label, c.attempts, c.correct, c.streak, c.ease, c.interval_ms, c.due_at, c.mastery, c.last_seen_at));
+      updated.push(c);
+    }
+  }
+  await env.DB.batch(stmts);
+  return updated;
+}
+
+async function masteryOf(env: Env, userId: string, kind: string | null) {
+  const stmt = kind
+    ? env.DB.prepare(`SELECT ${MASTERY_COLUMNS} FROM label_mastery WHERE user_id = ? AND kind = ? ORDER BY kind, label`).bind(userId, kind)
+    : env.DB.prepare(`SELECT ${MASTERY_COLUMNS} FROM label_mastery WHERE user_id = ? ORDER BY kind, label`).bind(userId);
+  const { results } = await stmt.all<MasteryRow>();
+  return (results || []).map(present);
+}
+
+export async function handleProgress(request: Request, env: Env, ctx: RouteContext, userId: string): Promise<Response | null> {
+  const { url, path, method, now } = ctx;
+  if (!path.startsWith('/api/practice/')) return null;
+
+  // Record graded attempts: { attempts: [...] } or a single attempt object
+  if (path === '/api/practice/attempts') {
+    if (method !== 'POST') return error('Method not allowed', 405);
+    const body = await readJson(request);
+    const raw: unknown[] = Array.isArray(body?.attempts) ? body.attempts : body ? [body] : [];
+    if (raw.length === 0) return error('attempts are required', 422);
+    if (raw.length > MAX_ATTEMPTS_PER_REQUEST) return error(`at most ${MAX_ATTEMPTS_PER_REQUEST} attempts per request`, 422);
+    const attempts: AttemptInput[] = [];
+    for (const [i, r] of raw.entries()) {
+      const a = readAttempt(r, now);
+      if (typeof a === 'string') return error(`attempts[${i}]: ${a}`, 422);
+      attempts.push(a);
+    }
+    const updated = await recordAttempts(env, userId, attempts);
+    return json({ recorded: attempts.length, mastery: updated.map(present) });
+  }
+
+  // The caller's own mastery per label
+  if (path === '/api/practice/mastery') {
+    if (method !== 'GET') return error('Method not allowed', 405);
+    const kind = url.searchParams.get('kind');
+    if (kind && !isKind(kind)) return error('kind must be letters or words', 422);
+    return json(await masteryOf(env, userId, kind));
+  }
+
+  // Next labels to practise; `labels` (comma-separated) limits the pool, e.g. to the model's labels
+  if (path === '/api/practice/queue') {
+    if (method !== 'GET') return error('Method not allowed', 405);
+    const kind = url.searchParams.get('kind');
+    if (!isKind(kind)) return error('kind must be letters or words', 422);
+    const limit = Math.min(MAX_QUEUE, Math.max(1, Number(url.searchParams.get('limit')) || 10));
+    const labels = (url.searchParams.get('labels') || '').split(',').map((l) => l.trim()).filter(Boolean);
+    const cards = await loadCards(env, userId, kind);
+    return json(nextQueue(cards, labels, now, limit));
+  }
+
+  // Teacher views: every student's totals and weakest labels, or one student's full mastery
+  if (path === '/api/practice/students' || path.startsWith('/api/practice/students/')) {
+    if (method !== 'GET') return error('Method not allowed', 405);
+    if (!isTeacher(env, userId)) return error('teacher access required', 403);
+    const kind = url.searchParams.get('kind');
+    if (kind && !isKind(kind)) return error('kind must be letters or words', 422);
+
+    const studentMatch = path.match(/^\/api\/practice\/students\/([^/]+)\/mastery$/);
+    if (studentMatch) return json(await masteryOf(env, decodeURIComponent(studentMatch[1]), kind));
+    if (path !== '/api/practice/students') return error('Not found', 404);
+
+    const stmt = kind
+      ? env.DB.prepare(`SELECT ${MASTERY_COLUMNS} FROM label_mastery WHERE kind = ?`).bind(kind)
+      : env.DB.prepare(`SELECT ${MASTERY_COLUMNS} FROM label_mastery`);
+    const { results } = await stmt.all<MasteryRow>();
+    const students = new Map<string, MasteryRow[]>();
+    for (const row of results || []) {
+      const rows = students.get(row.user_id) ?? [];
+      rows.push(row);
+      students.set(row.user_id, rows);
+    }
+    const summary = [...students].map(([id, rows]) => {
+      const attempts = rows.reduce((n, r) => n + r.attempts, 0);
+      const correct = rows.reduce((n, r) => n + r.correct, 0);
+      const weakest = rows
+        .filter((r) => r.attempts >= MIN_ATTEMPTS_FOR_WEAKEST)
+        .sort((a, b) => a.mastery - b.mastery)
+        .slice(0, WEAKEST_PER_STUDENT)
+        .map(present);
+      return {
+        user_id: id,
+        attempts,
+        correct,
+        accuracy: attempts ? correct / attempts : 0,
+        labels: rows.length,
+        last_seen_at: Math.max(...rows.map((r) => r.last_seen_at ?? 0)) || null,
+        weakest,
+      };
+    });
+    summary.sort((a, b) => (b.last_seen_at ?? 0) - (a.last_seen_at ?? 0));
+    return json(summary);
+  }
+
+  return null;
+}
@@ -0,0 +1,87 @@
+// Spaced-repetition scheduling for practice labels (an SM-2 variant). Each review is graded from
+// correctness and response time; correct answers stretch the interval by the label's ease, a miss
+// brings the label back within a minute. Pure functions: no D1, time comes in as arguments.
+export type Card = {
+  attempts: number;
+  correct: number;
+  streak: number;      // consecutive correct reviews
+  ease: number;        // interval multiplier, >= MIN_EASE
+  interval_ms: number; // gap to the next review
+  due_at: number;
+  mastery: number;     // 0..1, recency-weighted grade
+  last_seen_at: number | null;
+};
+
+export type Review = { correct: boolean; latency_ms?: number | null };
+
+const MINUTE = 60_000;
+const DAY = 24 * 60 * MINUTE;
+
+export const MIN_EASE = 1.3;
+export const DEFAULT_EASE = 2.5;
+const MISS_INTERVAL = MINUTE;
+const FIRST_INTERVAL = 10 * MINUTE;
+const SECOND_INTERVAL = DAY;
+const MASTERY_RATE = 0.3; // weight of the newest review in `mastery`
+
+export const newCard = (now: number): Card => ({
+  attempts: 0,
+  correct: 0,
+  streak: 0,
+  ease: DEFAULT_EASE,
+  interval_ms: 0,
+  due_at: now,
+  mastery: 0,
+  last_seen_at: null,
+});
+
+// SM-2 quality 0..5: a miss is 1; a correct sign is 5 when quick, down to 3 when slow
+export function grade({ correct, latency_ms }: Review): number {
+  if (!correct) return 1;
+  const ms = latency_ms ?? 0;
+  return ms <= 3000 ? 5 : ms <= 8000 ? 4 : 3;
+}
+
+export function review(card: Card, r: Review, now: number): Card {
+  const q = grade(r);
+  const score = r.correct ? q / 5 : 0;
+  const ease = Math.max(MIN_EASE, card.ease + 0.1 - (5 - q) * (0.08 + (5 - q) * 0.02));
+  const streak = r.correct ? card.streak + 1 : 0;
+  const interval_ms = !r.correct
+    ? MISS_INTERVAL
+    : streak === 1 ? FIRST_INTERVAL
+    : streak === 2 ? SECOND_INTERVAL
+    : Math.round(card.interval_ms * ease);
+  return {
+    attempts: card.attempts + 1,
+    correct: card.correct + (r.correct ? 1 : 0),
+    streak,
+    ease,
+    interval_ms,
+    due_at: now + interval_ms,
+    mastery: card.mastery + MASTERY_RATE * (score - card.mastery),
+    last_seen_at: now,
+  };
+}
+
+export type QueueReason = 'due' | 'new' | 'weak';
+export type QueueItem = { label: string; reason: QueueReason; mastery: number; due_at: number | null };
+
+// Next labels to practise: overdue first (most overdue leading), then labels never practised, then
+// the weakest of the rest. `labels` is the set to draw from (e.g. the model's labels); when empty,
+// only labels with history are considered.
+export function nextQueue(cards: Record<string, Card>, labels: string[], now: number, limit: number): QueueItem[] {
+  const pool = labels.length ? labels : Object.keys(cards);
+  const due: QueueItem[] = [];
+  const fresh: QueueItem[] = [];
+  const rest: QueueItem[] = [];
+  for (const label of pool) {
+    const card = cards[label];
+    if (!card || card.attempts === 0) fresh.push({ label, reason: 'new', mastery: 0, due_at: null });
+    else if (card.due_at <= now) due.push({ label, reason: 'due', mastery: card.mastery, due_at: card.due_at });
+    else rest.push({ label, reason: 'weak', mastery: card.mastery, due_at: card.due_at });
+  }
+  due.sort((a, b) => a.due_at! - b.due_at!);
+  rest.sort((a, b) => a.mastery - b.mastery || a.due_at! - b.due_at!);
+  return [...due, ...fresh, ...rest].slice(0, limit);
+}
@@ -0,0 +1,220 @@
+import type { Env } from './index';
+import type { RouteContext } from './jobs';
+import { error, json } from './http';
+
+// Sample object storage. With the SAMPLES R2 binding objects live in the bucket; without it (wrangler
+// dev without a bucket, tests) they are kept in memory for the life of the isolate. Either way the
+// bytes go through this worker: presign hands out a signed, short-lived PUT URL on /api/storage/<key>,
+// the upload is checked against the signed content type and size and stored with its SHA-256, and
+// GET /api/storage/<key> serves it back (or STORAGE_PUBLIC_URL when the bucket has a public domain).
+
+export type StoredObject = { key: string; size: number; contentType: string; checksum: string }; // checksum: hex SHA-256
+
+export interface SampleStorage {
+  readonly kind: 'r2' | 'memory';
+  put(key: string, bytes: ArrayBuffer, contentType: string, checksum: string): Promise<StoredObject>;
+  head(key: string): Promise<StoredObject | null>;
+  get(key: string): Promise<{ object: StoredObject; body: ReadableStream | ArrayBuffer } | null>;
+  delete(keys: string[]): Promise<void>;
+  downloadUrl(key: string): string; // absolute, or a path on this worker
+}
+
+export const ALLOWED_CONTENT_TYPES = ['image/jpeg', 'image/png', 'image/webp'] as const;
+export const MAX_SAMPLE_BYTES = 5 * 1024 * 1024;
+const UPLOAD_TTL_MS = 15 * 60 * 1000;
+const STORAGE_PREFIX = '/api/storage/';
+const DELETE_BATCH = 1000; // R2 deletes at most 1000 keys per call
+const D1_MAX_PARAMS = 100;
+
+const toHex = (buf: ArrayBuffer) => [...new Uint8Array(buf)].map((b) => b.toString(16).padStart(2, '0')).join('');
+const fromHex = (hex: string) => new Uint8Array((hex.match(/[0-9a-f]{2}/g) || []).map((h) => parseInt(h, 16)));
+
+export const sha256 = async (bytes: ArrayBuffer) => toHex(await crypto.subtle.digest('SHA-256', bytes));
+
+const downloadPath = (key: string) => `${STORAGE_PREFIX}${key}`;
+
+class R2Storage implements SampleStorage {
+  readonly kind = 'r2';
+
+  constructor(private bucket: R2Bucket, private publicUrl?: string) {}
+
+  private describe(obj: R2Object): StoredObject {
+    const sha = obj.checksums.sha256;
+    return {
+      key: obj.key,
+      size: obj.size,
+      contentType: obj.httpMetadata?.contentType || 'application/octet-stream',
+      checksum: sha ? toHex(sha) : obj.customMetadata?.sha256 || '',
+    };
+  }
+
+  async put(key: string, bytes: ArrayBuffer, contentType: string, checksum: string) {
+    // R2 rejects the write when the bytes do not match the checksum
+    const obj = await this.bucket.put(key, bytes, { httpMetadata: { contentType }, sha256: checksum, customMetadata: { sha256: checksum } });
+    return this.describe(obj);
+  }
+
+  async head(key: string) {
+    const obj = await this.bucket.head(key);
+    return obj ? this.describe(obj) : null;
+  }
+
+  async get(key: string) {
+    const obj = await this.bucket.get(key);
+    return obj ? { object: this.describe(obj), body: obj.body } : null;
+  }
+
+  async delete(keys: string[]) {
+    for (let i = 0; i < keys.length; i += DELETE_BATCH) await this.bucket.delete(keys.slice(i, i + DELETE_BATCH));
+  }
+
+  downloadUrl(key: string) {
+    return this.publicUrl ? `${this.publicUrl.replace(/\/$/, '')}/${key}` : downloadPath(key);
+  }
+}
+
+class MemoryStorage implements SampleStorage {
+  readonly kind = 'memory';
+  private objects = new Map<string, { object: StoredObject; bytes: ArrayBuffer }>();
+
+  async put(key: string, bytes: ArrayBuffer, contentType: string, checksum: string) {
+    const object = { key, size: bytes.byteLength, contentType, checksum };
+    this.objects.set(key, { object, bytes: bytes.slice(0) });
+    return object;
+  }
+
+  async head(key: string) {
+    return this.objects.get(key)?.object ?? null;
+  }
+
+  async get(key: string) {
+    const hit = this.objects.get(key);
+    return hit ? { object: hit.object, body: hit.bytes.slice(0) } : null;
+  }
+
+  async delete(keys: string[]) {
+    keys.forEach((k) => this.objects.delete(k));
+  }
+
+  downloadUrl(key: string) {
+    return downloadPath(key);
+  }
+}
+
+// One per isolate, so uploads and downloads in the same `wrangler dev` session see each other
+let memory: MemoryStorage | null = null;
+// Upload URLs of the in-memory store only need to outlive the isolate's objects
+let isolateSecret: string | null = null;
+
+export function getStorage(env: Env): SampleStorage {
+  if (env.SAMPLES) return new R2Storage(env.SAMPLES, env.STORAGE_PUBLIC_URL);
+  if (!memory) {
+    console.warn('no SAMPLES bucket bound; sample files are kept in memory');
+    memory = new MemoryStorage();
+  }
+  return memory;
+}
+
+function uploadSecret(env: Env): string | null {
+  if (env.UPLOAD_SECRET) return env.UPLOAD_SECRET;
+  if (env.SAMPLES) return null; // R2 uploads can land on any isolate, so the secret must be shared
+  if (!isolateSecret) isolateSecret = toHex(crypto.getRandomValues(new Uint8Array(32)).buffer as ArrayBuffer);
+  return isolateSecret;
+}
+
+const hmacKey = (secret: string) =>
+  crypto.subtle.importKey('raw', new TextEncoder().encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify']);
+
+const signedPayload = (key: string, contentType: string, size: number, expires: number) => `${key}\n${contentType}\n${size}\n${expires}`;
+
+export type UploadTarget = { url: string; method: 'PUT'; headers: Record<string, string>; expires_at: number };
+
+// A PUT URL for exactly this key, content type and size, valid for UPLOAD_TTL_MS; the 500 response when
+// R2 is bound but UPLOAD_SECRET is not
+export async function signUpload(env: Env, key: string, contentType: string, size: number, now: number): Promise<UploadTarget | Response> {
+  const secret = uploadSecret(env);
+  if (!secret) return error('sample storage is not configured: set UPLOAD_SECRET', 500);
+  const expires = now + UPLOAD_TTL_MS;
+  const sig = toHex(await crypto.subtle.sign('HMAC', await hmacKey(secret), new TextEncoder().encode(signedPayload(key, contentType, size, expires))));
+  const query = new URLSearchParams({ type: contentType, size: String(size), expires: String(expires), sig });
+  return { url: `${downloadPath(key)}?${query}`, method: 'PUT', headers: { 'Content-Type': contentType }, expires_at: expires };
+}
+
+async function verifyUpload(env: Env, key: string, params: URLSearchParams, now: number) {
+  const secret = uploadSecret(env);
+  const contentType = params.get('type') || '';
+  const size = Number(params.get('size'));
+  const expires = Number(params.get('expires'));
+  const sig = params.get('sig') || '';
+  if (!secret || !/^[0-9a-f]{64}$/.test(sig) || !(expires > now)) return null;
+  const ok = await crypto.subtle.verify('HMAC', await hmacKey(secret), fromHex(sig), new TextEncoder().encode(signedPayload(key, contentType, size, expires)));
+  return ok ? { contentType, size } : null;
+}
+
+// Removes queued keys (see storage_deletions) from storage, oldest first. A failure leaves them queued
+// for the next deletion to retry; returns how many were removed.
+export async function purgeDeletions(env: Env, limit = DELETE_BATCH): Promise<number> {
+  const { results } = await env.DB.prepare('SELECT file_key FROM storage_deletions ORDER BY requested_at LIMIT ?')
+    .bind(limit).all<{ file_key: string }>();
+  const keys = (results || []).map((r) => r.file_key);
+  if (keys.length === 0) return 0;
+  try {
+    await getStorage(env).delete(keys);
+  } catch (e: any) {
+    console.error('storage delete failed', e?.message || e);
+    return 0;
+  }
+  const statements = [];
+  for (let i = 0; i < keys.length; i += D1_MAX_PARAMS) {
+    const chunk = keys.slice(i, i + D1_MAX_PARAMS);
+    statements.push(env.DB.prepare(`DELETE FROM storage_deletions WHERE file_key IN (${chunk.map(() => '?').join(', ')})`).bind(...chunk));
+  }
+  await env.DB.batch(statements);
+  return keys.length;
+}
+
+// Malformed percent-escapes (`%E0%A4%A`) make decodeURIComponent throw; such a path names no object
+function decodeKey(raw: string): string | null {
+  try {
+    return decodeURIComponent(raw);
+  } catch {
+    return null;
+  }
+}
+
+// PUT /api/storage/<key>?type&size&expires&sig: signed upload; GET /api/storage/<key>: download
+export async function handleStorage(request: Request, env: Env, ctx: RouteContext): Promise<Response | null> {
+  const { url, path, method, now } = ctx;
+  if (!path.startsWith(STORAGE_PREFIX)) return null;
+  const key = decodeKey(path.slice(STORAGE_PREFIX.length));
+  if (!key || !/^datasets\/\d+\/[a-zA-Z0-9._-]+$/.test(key)) return error('Not found', 404);
+  const storage = getStorage(env);
+
+  if (method === 'GET' || method === 'HEAD') {
+    const hit = await storage.get(key);
+    if (!hit) return error('file not found', 404);
+    return new Response(method === 'HEAD' ? null : hit.body, {
+      headers: {
+        'Content-Type': hit.object.contentType,
+        'Content-Length': String(hit.object.size),
+        ...(hit.object.checksum && { ETag: `"${hit.object.checksum}"` }),
+        'Cache-Control': 'public, max-age=31536000, immutable', // keys are never rewritten
+      },
+    });
+  }
+
+  if (method === 'PUT') {
+    const signed = await verifyUpload(env, key, url.searchParams, now);
+    if (!signed) return error('upload URL is invalid or expired; presign again', 403);
+    const contentType = (request.headers.get('Content-Type') || '').split(';')[0].trim().toLowerCase();
+    if (contentType !== signed.contentType) return error(`Content-Type must be ${signed.contentType}`, 415);
+    const declared = Number(request.headers.get('Content-Length'));
+    if (declared > signed.size) return error(`file must be ${signed.size} bytes`, 413);
+    const bytes = await request.arrayBuffer();
+    if (bytes.byteLength !== signed.size) return error(`file must be ${signed.size} bytes, got ${bytes.byteLength}`, bytes.byteLength > signed.size ? 413 : 422);
+    const stored = await storage.put(key, bytes, contentType, await sha256(bytes));
+    return json({ key, size: stored.size, content_type: stored.contentType, checksum: stored.checksum });
+  }
+
+  return error('Method not allowed', 405);
+}
@@ -0,0 +1,66 @@
+// Client for the worker's training-runner endpoints (backend/src/jobs.ts)
+export type JobConfig = {
+  kind: 'letters' | 'words';
+  epochs: number;
+  batchSize: number;
+  learningRate: number;
+  denseUnits: number;
+};
+
+export type EpochMetrics = {
+  epoch: number;
+  loss: number;
+  accuracy?: number;
+  val_loss?: number;
+  val_accuracy?: number;
+};
+
+export type Job = {
+  id: number;
+  dataset_id: number;
+  status: string;
+  config: JobConfig;
+};
+
+export type SampleRef = { id: number; label: string; file_key: string };
+
+export type Claim = { job: Job; samples: SampleRef[] };
+
+export class RunnerApi {
+  constructor(private baseUrl: string, private token?: string, private worker = 'trainer') {}
+
+  private async post<T>(path: string, payload: unknown): Promise<T> {
+    const res = await fetch(`${this.baseUrl}${path}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.token ? { 'X-Trainer-Token': this.token } : {}),
+      },
+      body: JSON.stringify(payload),
+    });
+    const body = await res.json().catch(() => null) as { code: number; data?: T; error?: string } | null;
+    if (!res.ok || !body || body.code !== 0) {
+      throw new Error(`${path}: ${body?.error || `HTTP ${res.status}`}`);
+    }
+    return body.data as T;
+  }
+
+  claim() {
+    return this.post<Claim | null>('/api/training-jobs/claim', { worker: this.worker });
+  }
+
+  // Returns the job's current status so the runner can stop when it was cancelled
+  async progress(jobId: number, progress: number, epoch?: EpochMetrics) {
+    const { status } = await this.post<{ status: string }>(`/api/training-jobs/${jobId}/progress`, { progress, epoch });
+    return status;
+  }
+
+  // With an artifact URL the worker also registers the version in the model registry (inactive)
+  complete(jobId: number, modelVersion: string, artifactUrl?: string, labels?: string[]) {
+    return this.post(`/api/training-jobs/${jobId}/complete`, { model_version: modelVersion, artifact_url: artifactUrl, labels });
+  }
+
+  fail(jobId: number, message: string) {
+    return this.post(`/api/training-jobs/${jobId}/fail`, { error: message });
+  }
+}
@@ -0,0 +1,81 @@
+// Training runner: polls the worker for queued jobs, trains them on CPU with tfjs-node and reports back.
+//
+//   TRAINER_TOKEN=… API_BASE_URL=http://127.0.0.1:8787 STORAGE_BASE_URL=http://127.0.0.1:8787/api/storage npm start
+//
+// Environment:
+//   API_BASE_URL       worker origin (default http://127.0.0.1:8787)
+//   TRAINER_TOKEN      must match the worker's TRAINER_TOKEN (required: the worker refuses runners without one)
+//   STORAGE_BASE_URL   base URL that sample file keys are fetched from: <worker>/api/storage, or the
+//                      bucket's STORAGE_PUBLIC_URL
+//   ARTIFACTS_DIR      where versioned models are written (default ./artifacts)
+//   ARTIFACT_BASE_URL  public URL of ARTIFACTS_DIR, recorded on the job when set
+//   POLL_MS            idle poll interval (default 10000)
+//   BASE_MODEL_URL     MobileNet checkpoint override
+import { hostname } from 'node:os';
+import { resolve } from 'node:path';
+import { RunnerApi } from './api';
+import { trainJob } from './train';
+
+const once = process.argv.includes('--once');
+const pollMs = Number(process.env.POLL_MS) || 10_000;
+const storageBaseUrl = process.env.STORAGE_BASE_URL;
+if (!storageBaseUrl) {
+  console.error('STORAGE_BASE_URL is required');
+  process.exit(1);
+}
+
+const api = new RunnerApi(
+  process.env.API_BASE_URL || 'http://127.0.0.1:8787',
+  process.env.TRAINER_TOKEN,
+  `${hostname()}:${process.pid}`,
+);
+const options = {
+  storageBaseUrl,
+  artifactsDir: resolve(process.env.ARTIFACTS_DIR || 'artifacts'),
+  artifactBaseUrl: process.env.ARTIFACT_BASE_URL,
+};
+
+let stopping = false;
+process.on('SIGINT', () => {
+  if (stopping) process.exit(130);
+  stopping = true;
+  console.log('Finishing the current job, press Ctrl+C again to abort');
+});
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+async function runOnce() {
+  const claim = await api.claim();
+  if (!claim) return false;
+  const { job, samples } = claim;
+  console.log(`job ${job.id}: dataset ${job.dataset_id}, ${samples.length} samples, ${job.config.epochs} epochs`);
+  try {
+    const result = await trainJob(claim, api, options);
+    if (result.cancelled) {
+      console.log(`job ${job.id}: cancelled`);
+    } else {
+      await api.complete(job.id, result.version, result.artifactUrl, result.labels);
+      const last = result.metrics[result.metrics.length - 1];
+      console.log(`job ${job.id}: published ${result.version} (val_accuracy ${last?.val_accuracy?.toFixed(3) ?? 'n/a'})`);
+    }
+  } catch (err: any) {
+    console.error(`job ${job.id}: failed`, err);
+    await api.fail(job.id, err?.message || String(err)).catch((e) => console.error('could not report failure', e));
+  }
+  return true;
+}
+
+async function main() {
+  while (!stopping) {
+    let worked = false;
+    try {
+      worked = await runOnce();
+    } catch (err) {
+      console.error('claim failed', err);
+    }
+    if (once) break;
+    if (!worked) await sleep(pollMs);
+  }
+}
+
+main();
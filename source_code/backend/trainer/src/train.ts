@@ -0,0 +1,169 @@
+// Transfer learning in the Teachable Machine layout: a frozen MobileNet v2 (alpha 0.35) truncated at
+// `out_relu` + global average pooling produces 1280-d embeddings, and a small dense head is trained on
+// them. The saved model is `sequential([embedder, head])`, which `tmImage.load` reads unchanged.
+import { mkdirSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import * as tf from '@tensorflow/tfjs-node';
+import type { Claim, EpochMetrics, RunnerApi } from './api';
+
+export const IMAGE_SIZE = 224;
+const VALIDATION_FRACTION = 0.15; // same split as Teachable Machine
+const BASE_MODEL_URL = process.env.BASE_MODEL_URL
+  || 'https://storage.googleapis.com/teachable-machine-models/mobilenet_v2_weights_tf_dim_ordering_tf_kernels_0.35_224_no_top/model.json';
+
+export type TrainOptions = {
+  storageBaseUrl: string; // sample bytes are fetched from `${storageBaseUrl}/${file_key}`
+  artifactsDir: string;   // versioned models are written to `${artifactsDir}/${version}/`
+  artifactBaseUrl?: string;
+};
+
+export type TrainResult =
+  | { cancelled: true }
+  | { cancelled: false; version: string; artifactUrl?: string; labels: string[]; metrics: EpochMetrics[] };
+
+let embedder: tf.Sequential | null = null;
+
+async function loadEmbedder() {
+  if (embedder) return embedder;
+  const mobilenet = await tf.loadLayersModel(BASE_MODEL_URL);
+  const layer = mobilenet.getLayer('out_relu');
+  const truncated = tf.model({ inputs: mobilenet.inputs, outputs: layer.output as tf.SymbolicTensor });
+  const model = tf.sequential();
+  model.add(truncated);
+  model.add(tf.layers.globalAveragePooling2d({}));
+  embedder = model;
+  return model;
+}
+
+// Decode -> center square crop -> resize -> scale to [-1, 1], as @teachablemachine/image does
+function preprocess(bytes: Uint8Array): tf.Tensor4D {
+  return tf.tidy(() => {
+    const img = tf.node.decodeImage(bytes, 3) as tf.Tensor3D;
+    const [h, w] = img.shape;
+    const size = Math.min(h, w);
+    const square = img.slice([Math.floor((h - size) / 2), Math.floor((w - size) / 2), 0], [size, size, 3]);
+    const resized = tf.image.resizeBilinear(square, [IMAGE_SIZE, IMAGE_SIZE]);
+    return resized.toFloat().div(127).sub(1).expandDims(0) as tf.Tensor4D;
+  });
+}
+
+async function fetchSample(storageBaseUrl: string, key: string) {
+  const res = await fetch(`${storageBaseUrl.replace(/\/$/, '')}/${key}`);
+  if (!res.ok) throw new Error(`download ${key} failed (HTTP ${res.status})`);
+  return new Uint8Array(await res.arrayBuffer());
+}
+
+function shuffle<T>(items: T[]) {
+  for (let i = items.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [items[i], items[j]] = [items[j], items[i]];
+  }
+  return items;
+}
+
+const versionFor = (jobId: number) =>
+  `v${new Date().toISOString().replace(/[-:T]/g, '').slice(0, 14)}-job${jobId}`;
+
+export async function trainJob({ job, samples }: Claim, api: RunnerApi, options: TrainOptions): Promise<TrainResult> {
+  const { config } = job;
+  const labels = [...new Set(samples.map((s) => s.label))];
+  if (labels.length < 2) throw new Error(`dataset ${job.dataset_id} needs at least 2 labels, has ${labels.length}`);
+  for (const label of labels) {
+    if (samples.filter((s) => s.label === label).length < 2) throw new Error(`label "${label}" needs at least 2 samples`);
+  }
+
+  // Embeddings phase counts as the first 30% of progress
+  const base = await loadEmbedder();
+  const embeddings: { label: number; data: tf.Tensor }[] = [];
+  for (let i = 0; i < samples.length; i++) {
+    const input = preprocess(await fetchSample(options.storageBaseUrl, samples[i].file_key));
+    embeddings.push({ label: labels.indexOf(samples[i].label), data: tf.tidy(() => (base.predict(input) as tf.Tensor).squeeze()) });
+    input.dispose();
+    if (i % 10 === 9 || i === samples.length - 1) {
+      const status = await api.progress(job.id, 0.3 * ((i + 1) / samples.length));
+      if (status !== 'running') {
+        embeddings.forEach((e) => e.data.dispose());
+        return { cancelled: true };
+      }
+    }
+  }
+
+  // Per-class train/validation split
+  const train: typeof embeddings = [];
+  const validation: typeof embeddings = [];
+  labels.forEach((_, i) => {
+    const cls = shuffle(embeddings.filter((e) => e.label === i));
+    const numValidation = Math.ceil(VALIDATION_FRACTION * cls.length);
+    validation.push(...cls.slice(cls.length - numValidation));
+    train.push(...cls.slice(0, cls.length - numValidation));
+  });
+  shuffle(train);
+
+  const toXY = (set: typeof embeddings) => ({
+    xs: tf.stack(set.map((e) => e.data)),
+    ys: tf.oneHot(tf.tensor1d(set.map((e) => e.label), 'int32'), labels.length),
+  });
+  const trainSet = toXY(train);
+  const valSet = toXY(validation);
+  embeddings.forEach((e) => e.data.dispose());
+
+  const init = tf.initializers.varianceScaling({});
+  const head = tf.sequential({
+    layers: [
+      tf.layers.dense({ inputShape: [base.outputs[0].shape[1] as number], units: config.denseUnits, activation: 'relu', kernelInitializer: init, useBias: true }),
+      tf.layers.dense({ units: labels.length, activation: 'softmax', kernelInitializer: init, useBias: false }),
+    ],
+  });
+  head.compile({ optimizer: tf.train.adam(config.learningRate), loss: 'categoricalCrossentropy', metrics: ['accuracy'] });
+
+  const metrics: EpochMetrics[] = [];
+  let cancelled = false;
+  await head.fit(trainSet.xs, trainSet.ys, {
+    epochs: config.epochs,
+    batchSize: config.batchSize,
+    shuffle: true,
+    validationData: [valSet.xs, valSet.ys],
+    callbacks: {
+      onEpochEnd: async (epoch, logs = {}) => {
+        const m: EpochMetrics = {
+          epoch: epoch + 1,
+          loss: logs.loss,
+          accuracy: logs.acc ?? logs.accuracy,
+          val_loss: logs.val_loss,
+          val_accuracy: logs.val_acc ?? logs.val_accuracy,
+        };
+        metrics.push(m);
+        const status = await api.progress(job.id, 0.3 + 0.65 * ((epoch + 1) / config.epochs), m);
+        if (status !== 'running') {
+          cancelled = true;
+          head.stopTraining = true;
+        }
+      },
+    },
+  });
+  tf.dispose([trainSet.xs, trainSet.ys, valSet.xs, valSet.ys]);
+  if (cancelled) return { cancelled: true };
+
+  // Publish: model.json + weights.bin + metadata.json, in the layout of public/assets/models/*
+  const version = versionFor(job.id);
+  const dir = join(options.artifactsDir, version);
+  mkdirSync(dir, { recursive: true });
+  const joint = tf.sequential();
+  joint.add(base);
+  joint.add(head);
+  await joint.save(`file://${dir}`);
+  writeFileSync(join(dir, 'metadata.json'), JSON.stringify({
+    tfjsVersion: tf.version.tfjs,
+    tmVersion: '2.4.10',
+    packageVersion: '0.8.4-alpha2',
+    packageName: '@teachablemachine/image',
+    timeStamp: new Date().toISOString(),
+    userMetadata: { jobId: job.id, datasetId: job.dataset_id, version },
+    modelName: `ASL dataset ${job.dataset_id} (${version})`,
+    labels,
+    imageSize: IMAGE_SIZE,
+  }));
+
+  const artifactUrl = options.artifactBaseUrl ? `${options.artifactBaseUrl.replace(/\/$/, '')}/${version}/model.json` : undefined;
+  return { cancelled: false, version, artifactUrl, labels, metrics };
+}
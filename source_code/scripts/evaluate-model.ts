@@ -0,0 +1,156 @@
+// Offline model evaluation against a labelled image folder.
+//
+//   npm run evaluate -- --model letters --images ./eval/letters --out ./eval-report
+//
+// The image folder holds one sub-folder per label (`A/img001.jpg`, `thankyou/clip3.png`, …);
+// `blank` / `space` / `none` map to the model's whitespace-only class. Writes report.json,
+// confusion.csv and confusion.html to --out and prints per-class precision/recall plus the
+// most-confused label pairs.
+import { existsSync, mkdirSync, readdirSync, statSync, writeFileSync } from 'node:fs';
+import { join, resolve } from 'node:path';
+import { parseArgs } from 'node:util';
+import {
+  accuracy,
+  addObservation,
+  classMetrics,
+  createConfusionMatrix,
+  mostConfusedPairs,
+} from '../src/recognition/confusion';
+import type { ConfusionMatrix } from '../src/recognition/confusion';
+import { isBlankLabel } from '../src/recognition/types';
+import { classify, decodeImage, isSupportedImage, loadTmModel, useCpuBackend } from './lib/tm-model';
+
+const BUNDLED: Record<string, string> = {
+  letters: 'public/assets/models/letters/model.json',
+  words: 'public/assets/models/words/model.json',
+};
+const BLANK_ALIASES = ['blank', 'space', 'none', '_'];
+
+const { values } = parseArgs({
+  options: {
+    model: { type: 'string', short: 'm', default: 'letters' },
+    metadata: { type: 'string' },
+    images: { type: 'string', short: 'i' },
+    out: { type: 'string', short: 'o', default: 'eval-report' },
+    pairs: { type: 'string', default: '10' },
+  },
+});
+
+function fail(message: string): never {
+  console.error(`evaluate-model: ${message}`);
+  process.exit(1);
+}
+
+const display = (label: string) => (isBlankLabel(label) ? '(blank)' : label);
+
+// Folder name -> model label: exact, then case-insensitive, then blank aliases
+function resolveLabel(folder: string, labels: string[]): string | undefined {
+  if (labels.includes(folder)) return folder;
+  const lower = folder.toLowerCase();
+  const match = labels.find((l) => l.trim().toLowerCase() === lower);
+  if (match) return match;
+  if (BLANK_ALIASES.includes(lower)) return labels.find(isBlankLabel);
+  return undefined;
+}
+
+function matrixToCSV(m: ConfusionMatrix): string {
+  const esc = (s: string) => (/[",\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s);
+  const header = ['actual \\ predicted', ...m.labels.map(display)].map(esc).join(',');
+  const rows = m.counts.map((row, i) => [esc(display(m.labels[i])), ...row].join(','));
+  return [header, ...rows].join('\n') + '\n';
+}
+
+function matrixToHTML(m: ConfusionMatrix, title: string): string {
+  const html = (s: string) => s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  const metrics = classMetrics(m);
+  const head = m.labels.map((l) => `<th>${html(display(l))}</th>`).join('');
+  const body = m.counts.map((row, i) => {
+    const support = metrics[i].support || 1;
+    const cells = row.map((n, j) => {
+      const share = n / support;
+      const color = i === j ? `rgba(20,184,166,${share})` : `rgba(239,68,68,${share})`;
+      return `<td style="background:${color}" title="${html(display(m.labels[i]))} → ${html(display(m.labels[j]))}">${n || ''}</td>`;
+    }).join('');
+    return `<tr><th>${html(display(m.labels[i]))}</th>${cells}<td class="r">${(metrics[i].recall * 100).toFixed(0)}%</td></tr>`;
+  }).join('\n');
+  const precision = metrics.map((c) => `<td class="r">${(c.precision * 100).toFixed(0)}%</td>`).join('');
+  return `<!doctype html>
+<html><head><meta charset="utf-8"><title>${html(title)}</title>
+<style>
+body{font:13px system-ui,sans-serif;background:#000;color:#fff;padding:16px}
+table{border-collapse:collapse}th,td{border:1px solid #333;padding:4px 6px;text-align:center;min-width:24px}
+th{background:#111}.r{color:#99f6e4}
+</style></head><body>
+<h1>${html(title)}</h1>
+<p>Accuracy: ${(accuracy(m) * 100).toFixed(1)}% · rows = actual, columns = predicted</p>
+<table><tr><th></th>${head}<th>recall</th></tr>
+${body}
+<tr><th>precision</th>${precision}<td></td></tr></table>
+</body></html>
+`;
+}
+
+async function main() {
+  if (!values.images) fail('usage: evaluate-model --images <dir> [--model letters|words|path/to/model.json] [--metadata path] [--out dir] [--pairs N]');
+  const modelPath = resolve(BUNDLED[values.model!] || values.model!);
+  if (!existsSync(modelPath)) fail(`model not found: ${modelPath}`);
+  const imagesDir = resolve(values.images);
+
+  await useCpuBackend();
+  const tm = await loadTmModel(modelPath, values.metadata && resolve(values.metadata));
+  const { labels } = tm.metadata;
+  const matrix = createConfusionMatrix(labels);
+
+  let total = 0;
+  for (const folder of readdirSync(imagesDir).sort()) {
+    const dir = join(imagesDir, folder);
+    if (!statSync(dir).isDirectory()) continue;
+    const actual = resolveLabel(folder, labels);
+    if (actual === undefined) {
+      console.warn(`skipping ${folder}/: not a label of ${tm.metadata.modelName || 'this model'}`);
+      continue;
+    }
+    for (const file of readdirSync(dir).filter(isSupportedImage).sort()) {
+      const probs = await classify(tm, decodeImage(join(dir, file)));
+      let best = 0;
+      for (let k = 1; k < probs.length; k++) if (probs[k] > probs[best]) best = k;
+      addObservation(matrix, actual, labels[best]);
+      total++;
+      if (total % 50 === 0) process.stdout.write(`\r${total} images…`);
+    }
+  }
+  if (total === 0) fail(`no images found under ${imagesDir}`);
+  process.stdout.write('\r');
+
+  const metrics = classMetrics(matrix);
+  const pairs = mostConfusedPairs(matrix, Number(values.pairs));
+  const title = `${tm.metadata.modelName || values.model} — ${total} images`;
+
+  const outDir = resolve(values.out!);
+  mkdirSync(outDir, { recursive: true });
+  writeFileSync(join(outDir, 'confusion.csv'), matrixToCSV(matrix));
+  writeFileSync(join(outDir, 'confusion.html'), matrixToHTML(matrix, title));
+  writeFileSync(join(outDir, 'report.json'), JSON.stringify({
+    model: modelPath,
+    images: imagesDir,
+    total,
+    accuracy: accuracy(matrix),
+    classes: metrics,
+    confusedPairs: pairs,
+    matrix,
+  }, null, 2));
+
+  console.log(`${title}\naccuracy: ${(accuracy(matrix) * 100).toFixed(1)}%`);
+  console.table(metrics.filter((c) => c.support > 0 || c.predicted > 0).map((c) => ({
+    label: display(c.label),
+    support: c.support,
+    precision: c.precision.toFixed(3),
+    recall: c.recall.toFixed(3),
+    f1: c.f1.toFixed(3),
+  })));
+  console.log('most confused pairs:');
+  for (const p of pairs) console.log(`  ${display(p.a)}/${display(p.b)}: ${p.total} (${display(p.a)}→${display(p.b)} ${p.aAsB}, ${display(p.b)}→${display(p.a)} ${p.bAsA})`);
+  console.log(`reports written to ${outDir}`);
+}
+
+main().catch((err) => fail(err?.stack || String(err)));
@@ -0,0 +1,90 @@
+// Loads a Teachable Machine image model from disk and classifies decoded images with the
+// pure-JS CPU backend, mirroring @teachablemachine/image preprocessing (center square crop,
+// resize to imageSize, scale pixels to [-1, 1]).
+import { readFileSync } from 'node:fs';
+import { dirname, extname, join } from 'node:path';
+import * as tf from '@tensorflow/tfjs';
+import jpeg from 'jpeg-js';
+import { PNG } from 'pngjs';
+
+export type TmMetadata = {
+  labels: string[];
+  imageSize: number;
+  modelName?: string;
+  grayscale?: boolean;
+};
+
+export type TmModel = {
+  model: tf.LayersModel;
+  metadata: TmMetadata;
+};
+
+export type DecodedImage = { width: number; height: number; data: Uint8Array }; // RGBA
+
+export async function useCpuBackend() {
+  await tf.setBackend('cpu');
+  await tf.ready();
+}
+
+export async function loadTmModel(modelJsonPath: string, metadataPath = join(dirname(modelJsonPath), 'metadata.json')): Promise<TmModel> {
+  const modelJson = JSON.parse(readFileSync(modelJsonPath, 'utf8'));
+  const metadata: TmMetadata = JSON.parse(readFileSync(metadataPath, 'utf8'));
+  const dir = dirname(modelJsonPath);
+
+  const handler: tf.io.IOHandler = {
+    load: async () => {
+      const weightSpecs: tf.io.WeightsManifestEntry[] = [];
+      const buffers: Buffer[] = [];
+      for (const group of modelJson.weightsManifest) {
+        weightSpecs.push(...group.weights);
+        for (const p of group.paths) buffers.push(readFileSync(join(dir, p)));
+      }
+      const all = Buffer.concat(buffers);
+      return {
+        modelTopology: modelJson.modelTopology,
+        weightSpecs,
+        weightData: all.buffer.slice(all.byteOffset, all.byteOffset + all.byteLength),
+      };
+    },
+  };
+
+  const model = await tf.loadLayersModel(handler);
+  return { model, metadata };
+}
+
+export function decodeImage(path: string): DecodedImage {
+  const buf = readFileSync(path);
+  const ext = extname(path).toLowerCase();
+  if (ext === '.png') {
+    const png = PNG.sync.read(buf);
+    return { width: png.width, height: png.height, data: new Uint8Array(png.data) };
+  }
+  if (ext === '.jpg' || ext === '.jpeg') {
+    const img = jpeg.decode(buf, { useTArray: true, formatAsRGBA: true });
+    return { width: img.width, height: img.height, data: img.data };
+  }
+  throw new Error(`Unsupported image type: ${path}`);
+}
+
+export const isSupportedImage = (path: string) => ['.png', '.jpg', '.jpeg'].includes(extname(path).toLowerCase());
+
+// Returns probabilities in metadata label order
+export async function classify({ model, metadata }: TmModel, image: DecodedImage): Promise<Float32Array> {
+  const logits = tf.tidy(() => {
+    const rgba = tf.tensor3d(image.data, [image.height, image.width, 4], 'int32');
+    const rgb = rgba.slice([0, 0, 0], [image.height, image.width, 3]);
+    const size = Math.min(image.width, image.height);
+    const top = Math.floor((image.height - size) / 2);
+    const left = Math.floor((image.width - size) / 2);
+    let square = rgb.slice([top, left, 0], [size, size, 3]).toFloat();
+    if (metadata.grayscale) {
+      square = square.mul(tf.tensor1d([0.2989, 0.587, 0.114])).sum(-1).expandDims(-1);
+    }
+    const resized = tf.image.resizeBilinear(square as tf.Tensor3D, [metadata.imageSize, metadata.imageSize]);
+    const batched = resized.expandDims(0).div(tf.scalar(127)).sub(tf.scalar(1));
+    return model.predict(batched) as tf.Tensor;
+  });
+  const values = (await logits.data()) as Float32Array;
+  logits.dispose();
+  return values;
+}
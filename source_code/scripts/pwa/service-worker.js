@@ -0,0 +1,76 @@
+/* Offline-first service worker. Built by scripts/pwa/vite-plugin-sw.ts, which replaces
+ * the CONFIG placeholder with the precache manifest:
+ *   { shell: { cache, urls }, models: [{ cache, urls }] }
+ * Cache names carry a content hash, so a changed app shell or model bundle gets a fresh cache
+ * while unchanged model bundles (the multi-MB weights.bin) survive app updates untouched.
+ */
+const CONFIG = __SW_CONFIG__;
+const PREFIX = 'asl-';
+const REGISTRY_CACHE = 'asl-models-registry'; // registry versions are immutable, so cache-first is safe
+const MODEL_FILE = /\/(model|metadata)\.json$|\.bin$/;
+
+const precaches = [CONFIG.shell, ...CONFIG.models];
+const expected = new Set([...precaches.map((p) => p.cache), REGISTRY_CACHE]);
+
+self.addEventListener('install', (event) => {
+  event.waitUntil((async () => {
+    const existing = await caches.keys();
+    for (const { cache, urls } of precaches) {
+      if (existing.includes(cache)) continue; // same content hash: already complete
+      const c = await caches.open(cache);
+      try {
+        await c.addAll(urls.map((u) => new Request(u, { cache: 'reload' })));
+      } catch (err) {
+        await caches.delete(cache); // never keep a half-filled versioned cache
+        throw err;
+      }
+    }
+    await self.skipWaiting();
+  })());
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil((async () => {
+    const keys = await caches.keys();
+    await Promise.all(keys.filter((k) => k.startsWith(PREFIX) && !expected.has(k)).map((k) => caches.delete(k)));
+    await self.clients.claim();
+  })());
+});
+
+async function networkFirstPage(request) {
+  try {
+    return await fetch(request);
+  } catch {
+    return (await caches.match('/index.html', { cacheName: CONFIG.shell.cache })) || Response.error();
+  }
+}
+
+async function cacheFirst(request, runtimeCache) {
+  const hit = await caches.match(request);
+  if (hit) return hit;
+  const res = await fetch(request);
+  if (runtimeCache && res.ok) {
+    const c = await caches.open(runtimeCache);
+    await c.put(request, res.clone());
+  }
+  return res;
+}
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+  const sameOrigin = url.origin === self.location.origin;
+
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirstPage(request));
+    return;
+  }
+  if (sameOrigin && url.pathname.startsWith('/api/')) return; // API stays live; clients keep their own fallbacks
+  if (sameOrigin) {
+    event.respondWith(cacheFirst(request, MODEL_FILE.test(url.pathname) ? REGISTRY_CACHE : null));
+    return;
+  }
+  // Registry-hosted model versions (e.g. storage bucket URLs)
+  if (MODEL_FILE.test(url.pathname)) event.respondWith(cacheFirst(request, REGISTRY_CACHE));
+});
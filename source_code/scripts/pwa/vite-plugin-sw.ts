@@ -0,0 +1,84 @@
+// Emits sw.js at build time: the service worker template with a precache manifest of the built app
+// shell (hashed bundles, index.html, public files) and one cache per bundled model directory. Cache
+// names are content hashes, so the worker only re-downloads what actually changed.
+import { createHash } from 'node:crypto';
+import { existsSync, readdirSync, readFileSync, statSync } from 'node:fs';
+import { join, relative, sep } from 'node:path';
+import type { Plugin, ResolvedConfig } from 'vite';
+
+type Precache = { cache: string; urls: string[] };
+
+export type ServiceWorkerOptions = {
+  template?: string;     // service worker source; `const CONFIG = __SW_CONFIG__` receives the manifest
+  modelsDir?: string;    // relative to publicDir; each subdirectory is one model bundle
+  exclude?: RegExp;      // files never precached (source maps, original TM zip exports)
+};
+
+const DEFAULTS: Required<ServiceWorkerOptions> = {
+  template: 'scripts/pwa/service-worker.js',
+  modelsDir: 'assets/models',
+  exclude: /\.(map|zip)$/,
+};
+
+function listFiles(dir: string): string[] {
+  if (!existsSync(dir)) return [];
+  return readdirSync(dir).flatMap((name) => {
+    const path = join(dir, name);
+    return statSync(path).isDirectory() ? listFiles(path) : [path];
+  });
+}
+
+const toUrl = (root: string, file: string) => '/' + relative(root, file).split(sep).join('/');
+
+function hashOf(parts: Array<string | Uint8Array>) {
+  const h = createHash('sha256');
+  for (const p of parts) h.update(p);
+  return h.digest('hex').slice(0, 12);
+}
+
+export default function serviceWorker(options: ServiceWorkerOptions = {}): Plugin {
+  const opts = { ...DEFAULTS, ...options };
+  let config: ResolvedConfig;
+
+  return {
+    name: 'asl-service-worker',
+    apply: 'build',
+    enforce: 'post', // run after vite:build-html has emitted index.html into the bundle
+    configResolved(resolved) {
+      config = resolved;
+    },
+    generateBundle(_, bundle) {
+      const publicDir = config.publicDir;
+      const modelsRoot = join(publicDir, opts.modelsDir);
+      const publicFiles = listFiles(publicDir).filter((f) => !opts.exclude.test(f));
+
+      const models: Precache[] = existsSync(modelsRoot)
+        ? readdirSync(modelsRoot)
+            .filter((name) => statSync(join(modelsRoot, name)).isDirectory())
+            .map((name) => {
+              const files = listFiles(join(modelsRoot, name)).filter((f) => !opts.exclude.test(f)).sort();
+              const hash = hashOf(files.flatMap((f) => [toUrl(publicDir, f), readFileSync(f)]));
+              return { cache: `asl-models-${name}-${hash}`, urls: files.map((f) => toUrl(publicDir, f)) };
+            })
+        : [];
+      const modelUrls = new Set(models.flatMap((m) => m.urls));
+
+      const shellFiles = publicFiles.filter((f) => !modelUrls.has(toUrl(publicDir, f)));
+      const emitted = Object.values(bundle)
+        .filter((o) => !opts.exclude.test(o.fileName))
+        .sort((a, b) => a.fileName.localeCompare(b.fileName));
+      const shellHash = hashOf([
+        ...emitted.flatMap((o) => [o.fileName, o.type === 'chunk' ? o.code : o.source]),
+        ...shellFiles.flatMap((f) => [toUrl(publicDir, f), readFileSync(f)]),
+      ]);
+      const shell: Precache = {
+        cache: `asl-shell-${shellHash}`,
+        urls: ['/', ...emitted.map((o) => `/${o.fileName}`), ...shellFiles.map((f) => toUrl(publicDir, f))],
+      };
+
+      const source = readFileSync(join(config.root, opts.template), 'utf8')
+        .replace('__SW_CONFIG__', JSON.stringify({ shell, models }, null, 2));
+      this.emitFile({ type: 'asset', fileName: 'sw.js', source });
+    },
+  };
+}
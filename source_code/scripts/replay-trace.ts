@@ -0,0 +1,81 @@
+// Headless replay of recorded recognition sessions.
+//
+//   npm run replay -- session.ndjson --reference "HELLO thank you" \
+//     --threshold 0.85,0.9,0.95 --hold 400,600,800 --strategy hold,ema
+//
+// Replays the trace through the CommitEngine for every combination of settings and prints
+// the character error rate against the reference transcript (lowest first).
+import { readFileSync } from 'node:fs';
+import { parseArgs } from 'node:util';
+import { parseTrace } from '../src/recognition/trace';
+import { sweepTrace } from '../src/recognition/replay';
+import type { StrategyName } from '../src/recognition/strategies';
+
+const STRATEGIES: StrategyName[] = ['hold', 'majority', 'ema'];
+
+const { values, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    reference: { type: 'string', short: 'r' },
+    'reference-file': { type: 'string' },
+    threshold: { type: 'string', short: 't' },
+    hold: { type: 'string' },
+    strategy: { type: 'string', short: 's' },
+    top: { type: 'string' },
+    json: { type: 'boolean' },
+  },
+});
+
+function numbers(list: string | undefined, fallback: number[]): number[] {
+  if (!list) return fallback;
+  return list.split(',').map((v) => {
+    const n = Number(v.trim());
+    if (!Number.isFinite(n)) fail(`not a number: ${v}`);
+    return n;
+  });
+}
+
+function fail(message: string): never {
+  console.error(`replay-trace: ${message}`);
+  process.exit(1);
+}
+
+if (positionals.length === 0) {
+  fail('usage: replay-trace <trace.ndjson|trace.json> [--reference text | --reference-file path] [--threshold 0.9,0.95] [--hold 400,600] [--strategy hold,majority,ema] [--top N] [--json]');
+}
+
+for (const file of positionals) {
+  const trace = parseTrace(readFileSync(file, 'utf8'));
+  const reference = values['reference-file']
+    ? readFileSync(values['reference-file'], 'utf8')
+    : values.reference ?? trace.header.reference;
+  if (reference === undefined) fail(`${file}: no reference transcript (pass --reference or record one in the trace header)`);
+
+  const strategies = values.strategy
+    ? values.strategy.split(',').map((s) => s.trim() as StrategyName)
+    : [trace.header.strategy];
+  for (const s of strategies) if (!STRATEGIES.includes(s)) fail(`unknown strategy: ${s}`);
+
+  const results = sweepTrace(trace, reference, {
+    thresholds: numbers(values.threshold, [trace.header.config.threshold]),
+    holdMs: numbers(values.hold, [trace.header.config.holdMs]),
+    strategies,
+  });
+  const top = values.top ? results.slice(0, Number(values.top)) : results;
+
+  if (values.json) {
+    console.log(JSON.stringify({ file, reference, recorded: trace.transcript, results: top }, null, 2));
+    continue;
+  }
+
+  console.log(`\n${file}: ${trace.frames.length} frames, mode ${trace.header.mode}`);
+  console.log(`reference: ${JSON.stringify(reference)}`);
+  console.log(`recorded:  ${JSON.stringify(trace.transcript)}`);
+  console.table(top.map((r) => ({
+    strategy: r.strategy,
+    threshold: r.threshold,
+    holdMs: r.holdMs,
+    'CER %': (r.cer * 100).toFixed(1),
+    transcript: r.transcript.trim(),
+  })));
+}
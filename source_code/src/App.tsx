@@ -1,8 +1,22 @@
+import { BrowserRouter, Navigate, Route, Routes } from 'react-router-dom';
 import ASLTranslator from './components/ASLTranslator';
+import PracticePage from './pages/PracticePage';
+import TeacherPage from './pages/TeacherPage';
+import CaptionsPage from './pages/CaptionsPage';
+import VideoPage from './pages/VideoPage';
 
 function App() {
   return (
-    <ASLTranslator />
+    <BrowserRouter>
+      <Routes>
+        <Route path="/" element={<ASLTranslator />} />
+        <Route path="/practice" element={<PracticePage />} />
+        <Route path="/students" element={<TeacherPage />} />
+        <Route path="/video" element={<VideoPage />} />
+        <Route path="/captions" element={<CaptionsPage />} />
+        <Route path="*" element={<Navigate to="/" replace />} />
+      </Routes>
+    </BrowserRouter>
   );
 }
 
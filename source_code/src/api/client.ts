@@ -0,0 +1,44 @@
+// Thin fetch wrapper for the dataset/training backend (backend/src/index.ts).
+// The worker answers `{ code: 0, data }` on success and `{ code, error }` otherwise.
+const API_BASE: string = (import.meta.env.VITE_API_BASE as string | undefined) || '';
+
+// Worker paths (e.g. the upload and download URLs of sample storage) resolved against the API base
+export const apiUrl = (path: string) => (path.startsWith('/') ? `${API_BASE}${path}` : path);
+
+export class ApiError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+  }
+}
+
+export async function apiRequest<T>(path: string, init: RequestInit = {}): Promise<T> {
+  const headers = new Headers(init.headers);
+  if (init.body !== undefined && !headers.has('Content-Type')) headers.set('Content-Type', 'application/json');
+
+  let res: Response;
+  try {
+    res = await fetch(apiUrl(path), { ...init, headers });
+  } catch (err: any) {
+    throw new ApiError(err?.message || 'Network error', 0);
+  }
+
+  const body = await res.json().catch(() => null);
+  if (!res.ok || !body || body.code !== 0) {
+    throw new ApiError(body?.error || `Request failed (${res.status})`, res.status);
+  }
+  return body.data as T;
+}
+
+export const apiGet = <T>(path: string) => apiRequest<T>(path);
+
+export const apiPost = <T>(path: string, payload: unknown) =>
+  apiRequest<T>(path, { method: 'POST', body: JSON.stringify(payload) });
+
+export const apiPatch = <T>(path: string, payload: unknown) =>
+  apiRequest<T>(path, { method: 'PATCH', body: JSON.stringify(payload) });
+
+export const apiDelete = <T>(path: string) => apiRequest<T>(path, { method: 'DELETE' });
@@ -0,0 +1,112 @@
+import { ApiError, apiDelete, apiGet, apiPatch, apiPost, apiUrl } from './client';
+
+export type Dataset = {
+  id: number;
+  name: string;
+  description: string;
+  created_by?: string;
+  created_at?: number;
+  sample_count?: number; // dataset detail only
+};
+
+export type Sample = {
+  id?: number;
+  dataset_id: number;
+  label?: string;
+  file_key?: string;
+  size?: number | null;          // bytes, content type and hex SHA-256 as stored; null for older samples
+  content_type?: string | null;
+  checksum?: string | null;
+  url?: string;                  // download URL, absolute or a worker path (see apiUrl)
+  notes?: string | null;
+  created_at?: number;
+};
+
+// Sample files the worker accepts (backend/src/storage.ts)
+export const SAMPLE_CONTENT_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+export const MAX_SAMPLE_BYTES = 5 * 1024 * 1024;
+
+export type SamplePage = { samples: Sample[]; next_cursor: number | null };
+
+export type LabelCount = { label: string; count: number };
+
+export type DatasetStats = { dataset_id: number; total: number; labels: LabelCount[] };
+
+// GET /api/datasets/:id/manifest, for training scripts: every sample's storage key and label
+export type DatasetManifest = {
+  format: 'asl-dataset-manifest';
+  version: number;
+  generated_at: number;
+  dataset: Dataset;
+  labels: LabelCount[];
+  samples: Omit<Sample, 'dataset_id'>[];
+};
+
+// Storage presign response: a signed upload URL for exactly this type and size, plus the object key
+// the sample row must reference
+type PresignResponse = {
+  key: string;
+  url: string;
+  method: string;
+  headers: Record<string, string>;
+  expires_at: number;
+};
+
+// Only the creator can add samples to a dataset; `mine` lists just the caller's
+export const listDatasets = (mine = false) => apiGet<Dataset[]>(`/api/datasets${mine ? '?owner=me' : ''}`);
+
+export const getDataset = (id: number) => apiGet<Dataset>(`/api/datasets/${id}`);
+
+export const createDataset = (name: string, description = '') =>
+  apiPost<Dataset>('/api/datasets', { name, description });
+
+export const updateDataset = (id: number, patch: { name?: string; description?: string }) =>
+  apiPatch<Dataset>(`/api/datasets/${id}`, patch);
+
+// Also deletes its samples (and their files) and finished training jobs
+export const deleteDataset = (id: number) => apiDelete<{ id: number; deleted_samples: number }>(`/api/datasets/${id}`);
+
+export const getDatasetStats = (id: number) => apiGet<DatasetStats>(`/api/datasets/${id}/stats`);
+
+export const getDatasetManifest = (id: number) => apiGet<DatasetManifest>(`/api/datasets/${id}/manifest`);
+
+// One page of samples in upload order; pass the previous page's next_cursor to continue
+export function listSamples(datasetId: number, options: { label?: string; cursor?: number | null; limit?: number } = {}) {
+  const params = new URLSearchParams();
+  if (options.label !== undefined) params.set('label', options.label);
+  if (options.cursor != null) params.set('cursor', String(options.cursor));
+  if (options.limit) params.set('limit', String(options.limit));
+  const query = params.toString();
+  return apiGet<SamplePage>(`/api/datasets/${datasetId}/samples${query ? `?${query}` : ''}`);
+}
+
+export const updateSample = (datasetId: number, sampleId: number, patch: { label?: string; notes?: string }) =>
+  apiPatch<Sample>(`/api/datasets/${datasetId}/samples/${sampleId}`, patch);
+
+export const deleteSample = (datasetId: number, sampleId: number) =>
+  apiDelete<{ id: number; dataset_id: number }>(`/api/datasets/${datasetId}/samples/${sampleId}`);
+
+// Presign -> upload the bytes -> record sample metadata (the worker reads size, type and checksum
+// back from storage)
+export async function uploadSample(datasetId: number, label: string, blob: Blob, filename: string, notes = ''): Promise<Sample> {
+  if (!SAMPLE_CONTENT_TYPES.includes(blob.type)) throw new ApiError(`samples must be ${SAMPLE_CONTENT_TYPES.join(', ')}`, 415);
+  if (blob.size > MAX_SAMPLE_BYTES) throw new ApiError(`samples must be at most ${MAX_SAMPLE_BYTES} bytes`, 413);
+  const presign = await apiPost<PresignResponse>(`/api/datasets/${datasetId}/samples/presign`, {
+    filename,
+    contentType: blob.type,
+    size: blob.size,
+  });
+
+  let put: Response;
+  try {
+    put = await fetch(apiUrl(presign.url), { method: presign.method, headers: presign.headers, body: blob });
+  } catch (err: any) {
+    throw new ApiError(err?.message || 'Network error', 0);
+  }
+  if (!put.ok) {
+    const body = await put.json().catch(() => null);
+    throw new ApiError(body?.error || `upload failed (${put.status})`, put.status);
+  }
+
+  return apiPost<Sample>(`/api/datasets/${datasetId}/samples`, { label, key: presign.key, notes });
+}
@@ -0,0 +1,106 @@
+import { apiGet, apiPost } from './client';
+import type { ModelKind } from '../recognition/types';
+
+export type ModelSource = {
+  modelUrl: string;
+  metadataUrl: string;
+  version: string; // BUNDLED_VERSION for the assets shipped in public/assets/models
+};
+
+export type ModelVersion = {
+  id: number;
+  kind: ModelKind;
+  version: string;
+  model_url: string;
+  metadata_url: string;
+  labels: string[];
+  source_dataset_id: number | null;
+  training_job_id: number | null;
+  metrics: Record<string, any>;
+  active: boolean;
+  created_at: number;
+  promoted_at: number | null;
+  rolled_back_at: number | null;
+};
+
+// Per-device choice: follow the server's active version, pin the bundled assets, or pin a registry id
+export type ModelChoice = 'active' | 'bundled' | `${number}`;
+
+export const BUNDLED_VERSION = 'bundled';
+
+export const MODEL_PATHS: Record<ModelKind, ModelSource> = {
+  words: {
+    modelUrl: '/assets/models/words/model.json',
+    metadataUrl: '/assets/models/words/metadata.json',
+    version: BUNDLED_VERSION,
+  },
+  letters: {
+    modelUrl: '/assets/models/letters/model.json',
+    metadataUrl: '/assets/models/letters/metadata.json',
+    version: BUNDLED_VERSION,
+  }
+};
+
+const CACHE_KEY = 'asl_model_sources';
+const RESOLVE_TIMEOUT_MS = 3000; // don't hold up model loading on a slow registry
+
+export const listModels = (kind?: ModelKind) => apiGet<ModelVersion[]>(`/api/models${kind ? `?kind=${kind}` : ''}`);
+export const getModelVersion = (id: number) => apiGet<ModelVersion>(`/api/models/${id}`);
+export const getActiveModels = () => apiGet<Record<ModelKind, ModelVersion | null>>('/api/models/active');
+export const promoteModel = (id: number) => apiPost<ModelVersion>(`/api/models/${id}/promote`, {});
+export const rollbackModel = (kind: ModelKind) =>
+  apiPost<{ kind: ModelKind; rolled_back: ModelVersion; active: ModelVersion | null }>('/api/models/rollback', { kind });
+
+const toSource = (m: ModelVersion): ModelSource => ({ modelUrl: m.model_url, metadataUrl: m.metadata_url, version: m.version });
+
+// Last resolved source per kind+choice, so a registry outage keeps the last known version
+function readCache(): Record<string, ModelSource> {
+  try { return JSON.parse(localStorage.getItem(CACHE_KEY) || '{}'); } catch { return {}; }
+}
+
+function writeCache(key: string, source: ModelSource) {
+  try { localStorage.setItem(CACHE_KEY, JSON.stringify({ ...readCache(), [key]: source })); } catch {}
+}
+
+function withTimeout<T>(p: Promise<T>, ms: number): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const t = setTimeout(() => reject(new Error('timeout')), ms);
+    p.then((v) => { clearTimeout(t); resolve(v); }, (e) => { clearTimeout(t); reject(e); });
+  });
+}
+
+// Where to load `kind` from: registry (active or pinned) -> cached answer -> bundled assets
+export async function resolveModelSource(kind: ModelKind, choice: ModelChoice = 'active'): Promise<ModelSource> {
+  if (choice === 'bundled') return MODEL_PATHS[kind];
+  const key = `${kind}:${choice}`;
+  try {
+    const model = choice === 'active'
+      ? (await withTimeout(getActiveModels(), RESOLVE_TIMEOUT_MS))[kind]
+      : await withTimeout(getModelVersion(Number(choice)), RESOLVE_TIMEOUT_MS);
+    const source = model ? toSource(model) : MODEL_PATHS[kind];
+    writeCache(key, source);
+    return source;
+  } catch (err) {
+    const cached = readCache()[key];
+    if (cached) return cached;
+    console.warn(`Model registry unavailable for ${kind}, using bundled model:`, err);
+    return MODEL_PATHS[kind];
+  }
+}
+
+// Label set of a model from its metadata.json, without loading the weights; falls back to the bundled
+// metadata when the resolved source is unreachable
+export async function fetchModelLabels(kind: ModelKind, choice: ModelChoice = 'active'): Promise<string[]> {
+  const source = await resolveModelSource(kind, choice);
+  const candidates = source.metadataUrl === MODEL_PATHS[kind].metadataUrl ? [source] : [source, MODEL_PATHS[kind]];
+  for (const { metadataUrl } of candidates) {
+    try {
+      const res = await fetch(metadataUrl);
+      const meta = res.ok ? await res.json() : null;
+      if (Array.isArray(meta?.labels)) return meta.labels;
+    } catch (err) {
+      console.warn(`Could not read ${metadataUrl}:`, err);
+    }
+  }
+  return [];
+}
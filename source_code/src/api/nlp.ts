@@ -1,11 +1,29 @@
 import { generateText } from 'ai';
 import { createOpenAI } from '@ai-sdk/openai';
 
+// Where a corrected segment sits in its sentence; both default to true (a whole sentence)
+export type SegmentPosition = {
+  startsSentence?: boolean; // capitalize the first word
+  endsSentence?: boolean;   // add final punctuation
+};
+
 export type CorrectionOptions = {
   sceneName?: string;
   variables?: Record<string, any>;
+  position?: SegmentPosition;
+  throwOnFailure?: boolean; // throw instead of returning the raw text, so a caller can fall back
 };
 
+// User message shared by every LLM-backed correction provider
+export function correctionPrompt(rawText: string, position: SegmentPosition = {}) {
+  const { startsSentence = true, endsSentence = true } = position;
+  const notes = [
+    ...(startsSentence ? [] : ['It continues a sentence: do not capitalize the first word.']),
+    ...(endsSentence ? [] : ['The sentence is not finished: do not add final punctuation.']),
+  ];
+  return `Please correct and format this ASL transcription into grammatically correct English without changing intended meaning. Keep it concise.${notes.length ? ` ${notes.join(' ')}` : ''} "${rawText}"`;
+}
+
 // Cooldown to avoid spamming logs/requests when network is unavailable
 let lastAiFailureAt = 0;
 const AI_FAILURE_COOLDOWN_MS = 30_000; // 30s
@@ -13,24 +31,29 @@ const AI_FAILURE_COOLDOWN_MS = 30_000; // 30s
 // Correct raw translation text using AI SDK configuration in yw_manifest.json
 export async function correctSentence(rawText: string, options: CorrectionOptions = {}) {
   const sceneName = options.sceneName || 'asl_sentence_corrector';
+  // Without a correction: the raw text, or an error when the caller has a fallback
+  const skip = (reason: string) => {
+    if (options.throwOnFailure) throw new Error(reason);
+    return rawText;
+  };
 
   if (!globalThis.ywConfig?.ai_config?.[sceneName]) {
     console.error('❌ API Error - Configuration not found:', sceneName);
     // Fallback: return raw text when AI config missing
-    return rawText;
+    return skip(`AI configuration not found: ${sceneName}`);
   }
 
   // Skip when offline to prevent noisy failures
   const isOffline = typeof navigator !== 'undefined' && navigator.onLine === false;
   if (isOffline) {
     console.warn('⚠️ API Skip - Offline detected, skipping correction');
-    return rawText;
+    return skip('offline');
   }
 
   // Cooldown after recent failure
   if (lastAiFailureAt && Date.now() - lastAiFailureAt < AI_FAILURE_COOLDOWN_MS) {
     console.warn('⚠️ API Skip - In cooldown after previous failure');
-    return rawText;
+    return skip('in cooldown after a failed request');
   }
 
   const config = globalThis.ywConfig.ai_config[sceneName];
@@ -59,7 +82,7 @@ export async function correctSentence(rawText: string, options: CorrectionOption
       model: openai(config.model),
       messages: [
         ...(systemPrompt ? [{ role: 'system', content: systemPrompt }] : []),
-        { role: 'user', content: `Please correct and format this ASL transcription into grammatically correct English without changing intended meaning. Keep it concise: "${rawText}"` }
+        { role: 'user', content: correctionPrompt(rawText, options.position) }
       ],
       temperature: config.temperature || 0.2,
       maxTokens: config.maxTokens || 2000
@@ -84,6 +107,6 @@ export async function correctSentence(rawText: string, options: CorrectionOption
       scene: sceneName,
       error: sanitized
     });
-    return rawText;
+    return skip(sanitized);
   }
 }
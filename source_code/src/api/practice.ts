@@ -0,0 +1,58 @@
+import { apiGet, apiPost } from './client';
+import type { ModelKind } from '../recognition/types';
+
+// Practice progress endpoints (backend/src/progress.ts). The worker keys everything by the
+// X-Encrypted-Yw-ID header the platform adds, so no user id is sent from here.
+export type PracticeAttemptInput = {
+  kind: ModelKind;
+  label: string;
+  correct: boolean;
+  confidence: number | null;
+  latency_ms: number | null;
+  lesson_id: string | null;
+  signed: string | null;
+  created_at: number;
+};
+
+export type LabelMastery = {
+  kind: ModelKind;
+  label: string;
+  attempts: number;
+  correct: number;
+  accuracy: number;
+  streak: number;
+  ease: number;
+  interval_ms: number;
+  due_at: number;
+  mastery: number; // 0..1, recency-weighted
+  last_seen_at: number | null;
+};
+
+export type QueueItem = { label: string; reason: 'due' | 'new' | 'weak'; mastery: number; due_at: number | null };
+
+export type StudentSummary = {
+  user_id: string;
+  attempts: number;
+  correct: number;
+  accuracy: number;
+  labels: number;
+  last_seen_at: number | null;
+  weakest: LabelMastery[];
+};
+
+const kindQuery = (kind?: ModelKind) => (kind ? `?kind=${kind}` : '');
+
+export const recordAttempts = (attempts: PracticeAttemptInput[]) =>
+  apiPost<{ recorded: number; mastery: LabelMastery[] }>('/api/practice/attempts', { attempts });
+
+export const getMastery = (kind?: ModelKind) => apiGet<LabelMastery[]>(`/api/practice/mastery${kindQuery(kind)}`);
+
+// `labels` limits the queue to what the loaded model can check
+export const getPracticeQueue = (kind: ModelKind, labels: string[], limit: number) =>
+  apiGet<QueueItem[]>(`/api/practice/queue?kind=${kind}&limit=${limit}&labels=${encodeURIComponent(labels.join(','))}`);
+
+// Teachers only (TEACHER_IDS on the worker); others get a 403 ApiError
+export const listStudents = (kind?: ModelKind) => apiGet<StudentSummary[]>(`/api/practice/students${kindQuery(kind)}`);
+
+export const getStudentMastery = (userId: string, kind?: ModelKind) =>
+  apiGet<LabelMastery[]>(`/api/practice/students/${encodeURIComponent(userId)}/mastery${kindQuery(kind)}`);
@@ -0,0 +1,77 @@
+import * as tmImage from '@teachablemachine/image';
+
+// Webcam helpers shared by the translator and practice pages
+
+export function getViewportSize() {
+  const w = typeof window !== 'undefined' ? window.innerWidth : 640;
+  const isMobile = w < 768;
+  return { width: isMobile ? 480 : 640, height: isMobile ? 360 : 480 };
+}
+
+const videoOf = (webcam: tmImage.Webcam): HTMLVideoElement | undefined => (webcam as any).webcam;
+
+// Always a fresh instance: re-using one after stop() hits ended-track issues on resume
+export async function createWebcam(): Promise<tmImage.Webcam> {
+  const size = getViewportSize();
+  const webcam = new tmImage.Webcam(size.width, size.height, true); // flip
+  await webcam.setup();
+  await webcam.play();
+
+  // Ensure the underlying <video> resumes properly across iOS/Android browsers
+  try {
+    const v = videoOf(webcam);
+    if (v) {
+      v.setAttribute('playsinline', 'true');
+      v.muted = true;
+      (v as any).autoplay = true;
+    }
+  } catch {}
+  return webcam;
+}
+
+export function mountCanvasToHost(webcam: tmImage.Webcam, host: HTMLDivElement | null) {
+  try {
+    webcam.canvas.style.width = '100%';
+    webcam.canvas.style.height = '100%';
+    webcam.canvas.style.objectFit = 'cover';
+    webcam.canvas.setAttribute('aria-label', 'Webcam');
+    if (host) host.replaceChildren(webcam.canvas);
+  } catch {}
+}
+
+// Verify video actually started; if not, try a gentle retry
+export function retryIfStalled(webcam: tmImage.Webcam, host: () => HTMLDivElement | null) {
+  window.setTimeout(async () => {
+    try {
+      const v = videoOf(webcam);
+      const notReady = !v || v.readyState < 2 || v.paused || v.videoWidth === 0;
+      if (notReady) {
+        try { await (webcam as any).play(); } catch {}
+        mountCanvasToHost(webcam, host());
+      }
+    } catch {}
+  }, 600);
+}
+
+export function releaseWebcam(webcam: tmImage.Webcam | null, host: HTMLDivElement | null) {
+  const w = webcam as any;
+  if (w) {
+    try { w.pause(); } catch {}
+    try { w.stop(); } catch {}
+    // Aggressively stop all MediaStream tracks to avoid ended-track issues on resume
+    try {
+      const v: HTMLVideoElement | undefined = w.webcam;
+      const stream = v?.srcObject as MediaStream | null | undefined;
+      if (stream) {
+        stream.getTracks().forEach((t) => {
+          try { t.stop(); } catch {}
+        });
+        if (v) v.srcObject = null;
+      }
+    } catch {}
+  }
+  // Clear the canvas host to avoid showing a stale/ended stream element
+  if (host) {
+    try { host.replaceChildren(); } catch {}
+  }
+}
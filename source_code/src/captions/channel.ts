@@ -0,0 +1,31 @@
+// Live captions shared with the presenter window (/captions) over a BroadcastChannel. The translator
+// window is the only sender of `state`; a presenter that opens later sends `hello` and gets the latest.
+export const CAPTION_CHANNEL = 'asl-captions';
+
+export const DEFAULT_CAPTION_SCALE = 1;
+export const MIN_CAPTION_SCALE = 0.5;
+export const MAX_CAPTION_SCALE = 3;
+export const clampCaptionScale = (scale: number) =>
+  Math.min(MAX_CAPTION_SCALE, Math.max(MIN_CAPTION_SCALE, Number(scale) || DEFAULT_CAPTION_SCALE));
+
+export type CaptionState = {
+  text: string;        // transcript
+  live: string | null; // sign currently being held, if any
+  scale: number;       // font size multiplier
+  updatedAt: number;
+};
+
+export type CaptionMessage =
+  | { type: 'state'; state: CaptionState }
+  | { type: 'hello' };
+
+export const captionsSupported = () => typeof BroadcastChannel !== 'undefined';
+
+// The end of the transcript that fits a caption display, cut at a word boundary
+export function captionTail(text: string, maxChars = 180): string {
+  const t = text.trim();
+  if (t.length <= maxChars) return t;
+  const cut = t.slice(-maxChars);
+  const space = cut.indexOf(' ');
+  return `…${space >= 0 ? cut.slice(space + 1) : cut}`;
+}
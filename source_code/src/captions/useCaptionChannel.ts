@@ -0,0 +1,45 @@
+import { useEffect, useRef, useState } from 'react';
+import { CAPTION_CHANNEL, CaptionMessage, CaptionState, captionsSupported } from './channel';
+
+const post = (channel: BroadcastChannel, message: CaptionMessage) => channel.postMessage(message);
+
+// Translator side: publishes every caption change and answers presenters that join late
+export function useCaptionBroadcast(state: CaptionState) {
+  const channelRef = useRef<BroadcastChannel | null>(null);
+  const latestRef = useRef(state);
+  latestRef.current = state;
+
+  useEffect(() => {
+    if (!captionsSupported()) return;
+    const channel = new BroadcastChannel(CAPTION_CHANNEL);
+    channel.onmessage = (e: MessageEvent<CaptionMessage>) => {
+      if (e.data?.type === 'hello') post(channel, { type: 'state', state: latestRef.current });
+    };
+    channelRef.current = channel;
+    return () => {
+      channel.close();
+      channelRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (channelRef.current) post(channelRef.current, { type: 'state', state });
+  }, [state.text, state.live, state.scale]);
+}
+
+// Presenter side: the latest caption state, or null until a translator window answers
+export function useCaptionReceiver(): CaptionState | null {
+  const [state, setState] = useState<CaptionState | null>(null);
+
+  useEffect(() => {
+    if (!captionsSupported()) return;
+    const channel = new BroadcastChannel(CAPTION_CHANNEL);
+    channel.onmessage = (e: MessageEvent<CaptionMessage>) => {
+      if (e.data?.type === 'state') setState(e.data.state);
+    };
+    post(channel, { type: 'hello' });
+    return () => channel.close();
+  }, []);
+
+  return state;
+}
@@ -1,67 +1,139 @@
-import React, { useEffect, useRef, useState } from 'react';
+import React, { useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
 import { motion } from 'framer-motion';
 import * as tmImage from '@teachablemachine/image';
-import * as tf from '@tensorflow/tfjs';
-import { useAslStore } from '../store/aslStore';
-// corrections disabled: strict letter-by-letter (no NLP)
-
-const MODEL_PATHS = {
-  words: {
-    modelUrl: '/assets/models/words/model.json',
-    metadataUrl: '/assets/models/words/metadata.json',
-  },
-  letters: {
-    modelUrl: '/assets/models/letters/model.json',
-    metadataUrl: '/assets/models/letters/metadata.json',
-  }
-};
+import { useAslStore, RecognitionMode } from '../store/aslStore';
+import { isBlankLabel, ModelKind } from '../recognition/types';
+import { BlankHold, ControlAction, controlFor, isAcceptSign } from '../recognition/controls';
+import { CommitEngine, CommittedToken, EngineStep } from '../recognition/engine';
+import { TraceRecorder, traceToNDJSON } from '../recognition/trace';
+import { engineConfig } from '../settings/recognition';
+import { FeatureExtractor, HandPoint, layoutKey, MotionMatch, MotionRecognizer, MotionTake, MotionTemplate } from '../recognition/motion';
+import type { CalibrationRun } from '../settings/calibration';
+import { BufferedFrame, correctedText, encodeFrames, FrameBuffer, MAX_TOKEN_FRAMES, pickEvenly, TokenProvenance } from '../feedback/frames';
+import CapturePanel from './CapturePanel';
+import ModelRegistryPanel from './ModelRegistryPanel';
+import HistoryPanel from './HistoryPanel';
+import SignPlaybackPanel from './SignPlaybackPanel';
+import SpeechPanel from './SpeechPanel';
+import CaptionsOverlay from './CaptionsOverlay';
+import EditToolbar from './EditToolbar';
+import RecognitionSettingsPanel from './RecognitionSettingsPanel';
+import MotionSignsPanel from './MotionSignsPanel';
+import FeedbackPanel from './FeedbackPanel';
+import { useTranscriptSpeech } from '../speech/useTranscriptSpeech';
+import { useCaptionBroadcast } from '../captions/useCaptionChannel';
+import { downloadText } from '../history/export';
+import { saveLiveSession } from '../history/sessions';
+import { useNetworkStatus } from '../pwa/useNetworkStatus';
+import CorrectionPanel from './CorrectionPanel';
+import { createProvider, PROVIDER_LABELS } from '../correction/providers';
+import { CorrectionSession, Suggestion } from '../correction/session';
+import CompletionBar from './CompletionBar';
+import NavLinks from './NavLinks';
+import { Completion, FingerspellDecoder, Lexicon } from '../recognition/lexicon';
+import { WORD_LIST } from '../recognition/wordlist';
+import { HandCropper } from '../preprocess/cropper';
+import type { Box } from '../preprocess/hand';
+import { InferenceResult, InferenceRunner, loadModelWithFallback, startInference } from '../inference/client';
+import { createWebcam, mountCanvasToHost, releaseWebcam, retryIfStalled } from '../camera/webcam';
+import { FramePacer, MAX_TARGET_FPS, MIN_TARGET_FPS, PerfStats } from '../inference/pacer';
 
-// Load Teachable Machine model from /assets only (production-safe absolute path)
-async function loadModelWithFallback(modelUrl: string, metadataUrl: string): Promise<tmImage.CustomMobileNet> {
-  // No '/public' fallback; ensure assets are served under '/assets/...'
-  return await tmImage.load(modelUrl, metadataUrl);
+// Editing shortcuts shared by the page and the transcript box
+function shortcutAction(e: KeyboardEvent): ControlAction | null {
+  const mod = e.ctrlKey || e.metaKey;
+  if (e.altKey) return null;
+  if (mod && e.key.toLowerCase() === 'z') return e.shiftKey ? 'redo' : 'undo';
+  if (mod && e.key.toLowerCase() === 'y') return 'redo';
+  if (e.key === 'Backspace') return mod ? (e.shiftKey ? 'clear' : 'deleteWord') : 'backspace';
+  if (e.key === ' ' && !mod) return 'space';
+  return null;
 }
 
-const LETTER_GAP_MS = 3000; // time of inactivity to mark end of a word in letters mode
-const WORD_GAP_MS = 6000;   // minimum gap between words in words mode
-const STABLE_MS = 600;      // require longer stability for accuracy
-const HOLD_MS = 600;        // require hold before commit
-const RELEASE_MS = 300;     // require low-confidence release before next letter
-const CONS_FRAMES = 8;      // stricter consensus across more frames
-
-function mountCanvasToHost(webcam: tmImage.Webcam, host: HTMLDivElement | null) {
-  try {
-    webcam.canvas.style.width = '100%';
-    webcam.canvas.style.height = '100%';
-    webcam.canvas.style.objectFit = 'cover';
-    webcam.canvas.setAttribute('aria-label', 'Webcam');
-    if (host) host.replaceChildren(webcam.canvas);
-  } catch {}
-}
+// Which models must be loaded for each recognition mode
+const MODE_MODELS: Record<RecognitionMode, ModelKind[]> = {
+  letters: ['letters'],
+  words: ['words'],
+  auto: ['letters', 'words'],
+};
+
+const MODE_LABELS: Record<RecognitionMode, string> = {
+  letters: 'Letters',
+  words: 'Words',
+  auto: 'Auto',
+};
+
+// Overlay and status updates from the loop are throttled to this; a changed label always goes through
+const UI_INTERVAL_MS = 150;
+const PERF_INTERVAL_MS = 500;
+// No new sign for this long after a word closes the sentence: its correction gets final punctuation
+const SENTENCE_PAUSE_MS = 4000;
 
 export default function ASLTranslator() {
-  const { status, setStatus, setRecognition, appendText, resetText, threshold, cameraOn, setCameraOn, setThreshold, holdMs, setHoldMs } = useAslStore();
+  const { status, setStatus, setRecognition, commitToken, setText, resetText, threshold, cameraOn, setCameraOn, setThreshold, holdMs, setHoldMs, mode, setMode, modelChoice, userWords, handCrop, setHandCrop, cropDebug, setCropDebug, targetFps, setTargetFps, showPerf, setShowPerf } = useAslStore();
   const [copyOk, setCopyOk] = useState(false);
   const [busy, setBusy] = useState(false);
   const [confidenceDisplay, setConfidenceDisplay] = useState<number | undefined>(undefined);
 
   const webcamRef = useRef<tmImage.Webcam | null>(null);
-  const modelRef = useRef<tmImage.CustomMobileNet | null>(null);
+  // Models run in a worker when supported (src/inference); the runner starts once and is shared by all loads
+  const runnerRef = useRef<Promise<InferenceRunner> | null>(null);
+  const inferenceRef = useRef<InferenceRunner | null>(null);
+  // Labels of the loaded models by kind; the loop runs once every model the current mode needs is here
+  const labelsRef = useRef<Partial<Record<ModelKind, string[]>>>({});
+  const modelLoadsRef = useRef<Partial<Record<ModelKind, Promise<string[]>>>>({});
   const rafRef = useRef<number | null>(null);
+  // Frame pacing: one frame in flight, at most targetFps; results from before a reset or model swap are dropped
+  const pacerRef = useRef(new FramePacer());
+  const generationRef = useRef(0);
+  const uiRef = useRef({ at: 0, label: '' });
+  const perfAtRef = useRef(0);
+  const lastModelMsRef = useRef(0);
+  const [perf, setPerf] = useState<PerfStats & { backend: string; where: string; modelMs: number } | null>(null);
 
   // DOM host for external webcam canvas to avoid React removing/replacing nodes
   const canvasHostRef = useRef<HTMLDivElement | null>(null);
+  // Optional hand crop before classification; the debug overlay shows the box and the model input
+  const cropperRef = useRef(new HandCropper());
+  const cropPreviewRef = useRef<HTMLDivElement | null>(null);
+  const [cropBox, setCropBox] = useState<{ box: Box | null; width: number; height: number } | null>(null);
+
+  // Debounce and gating live in the commit engine (src/recognition/engine.ts)
+  const engineRef = useRef(new CommitEngine());
 
-  // Debounce and gating refs
-  const lastDetectedLabelRef = useRef<string>('');
-  const stableSinceRef = useRef<number>(0);
-  const lastEmittedLabelRef = useRef<string>('');
-  const lastWordEmitTimeRef = useRef<number>(0);
-  const lastWordBoundaryTimeRef = useRef<number>(0); // letters mode: gap between words
-  const letterGapTimerRef = useRef<number | null>(null);
-  const recentLabelsRef = useRef<string[]>([]);
-  const awaitingReleaseRef = useRef<boolean>(false);
-  const releaseStartRef = useRef<number>(0);
+  // Session recording: every frame's full predictions plus committed tokens, downloaded as NDJSON
+  const recorderRef = useRef<TraceRecorder | null>(null);
+  // Sentence correction: suggestions over the live transcript, one request in flight at a time
+  const correctionRef = useRef(new CorrectionSession());
+  const correctionAbortRef = useRef<AbortController | null>(null);
+  const sentencePauseRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const [suggestions, setSuggestions] = useState<readonly Suggestion[]>([]);
+  const [correcting, setCorrecting] = useState(false);
+  // Fingerspelling completion: lexicon beam search over the letter distributions of the current word
+  const lexicon = useMemo(() => new Lexicon(WORD_LIST, userWords), [userWords]);
+  const decoderRef = useRef(new FingerspellDecoder(lexicon));
+  const blankHoldRef = useRef(new BlankHold());
+  const transcriptRef = useRef<HTMLTextAreaElement | null>(null);
+  const [completions, setCompletions] = useState<Completion[]>([]);
+  const [spelled, setSpelled] = useState('');
+  const [recording, setRecording] = useState(false);
+  const [showCapture, setShowCapture] = useState(false);
+  const [showModels, setShowModels] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showPlayback, setShowPlayback] = useState(false);
+  const [showCaptions, setShowCaptions] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
+  // Set while the calibration wizard records: classified frames go to it instead of the engine
+  const calibrationRef = useRef<CalibrationRun | null>(null);
+  // Motion signs: frame features of the running models (and hand path) matched against the signer's templates
+  const motionRef = useRef(new MotionRecognizer());
+  const extractorRef = useRef<FeatureExtractor | null>(null);
+  const motionSyncRef = useRef<{ layout: string; templates: MotionTemplate[] | null; maxDistance: number }>({ layout: '', templates: null, maxDistance: 0 });
+  const takeRef = useRef<MotionTake | null>(null); // set while a motion template take is recorded
+  // "That was wrong" feedback: recent classified frames, and where the current hold (or movement) began
+  const frameBufferRef = useRef(new FrameBuffer());
+  const holdStartRef = useRef<number | null>(null);
+  const { online, offlineReady } = useNetworkStatus();
+  const [loadedVersions, setLoadedVersions] = useState<Partial<Record<ModelKind, string>>>({});
 
   useEffect(() => {
     let cancelled = false;
@@ -69,21 +141,10 @@ export default function ASLTranslator() {
 
     (async () => {
       try {
-        // Prefer WebGL; gracefully fall back to CPU if unavailable (e.g., headless or restricted env)
-        try {
-          await tf.setBackend('webgl');
-          await tf.ready();
-        } catch (backendErr) {
-          console.warn('WebGL backend unavailable, falling back to CPU:', backendErr);
-          await tf.setBackend('cpu');
-          await tf.ready();
-        }
-
-        // Load letters model only
-        const paths = MODEL_PATHS.letters;
-        const model = await loadModelWithFallback(paths.modelUrl, paths.metadataUrl);
+        // Worker or main thread, each preferring WebGL and falling back to CPU (src/inference/backend.ts)
+        await getRunner();
+        await ensureModels(useAslStore.getState().mode);
         if (cancelled) return;
-        modelRef.current = model;
 
         if (cameraOn) {
           await startCamera();
@@ -102,37 +163,86 @@ export default function ASLTranslator() {
       cancelled = true;
       stopLoop();
       stopCamera();
-      modelRef.current = null;
-      // Clear any pending letter timers
-      if (letterGapTimerRef.current) {
-        clearTimeout(letterGapTimerRef.current);
-        letterGapTimerRef.current = null;
-      }
+      labelsRef.current = {};
+      modelLoadsRef.current = {};
+      runnerRef.current?.then((runner) => runner.dispose()).catch(() => {});
+      runnerRef.current = null;
+      inferenceRef.current = null;
       // Reset gating
-      lastDetectedLabelRef.current = '';
-      lastEmittedLabelRef.current = '';
-      stableSinceRef.current = 0;
-      recentLabelsRef.current = [];
+      resetGating();
+      if (sentencePauseRef.current) clearTimeout(sentencePauseRef.current);
     };
   }, []);
 
-  const startCamera = async () => {
-    // Setup webcam (always create a fresh instance when turning on)
-    const size = getViewportSize();
-    const webcam = new tmImage.Webcam(size.width, size.height, true); // flip
-    await webcam.setup();
-    await webcam.play();
+  // Hot-swap models when the mode or a model version choice changes; the loop idles until the new model is ready
+  const loadedChoiceRef = useRef(modelChoice);
+  useEffect(() => {
+    let cancelled = false;
+    resetGating();
+    for (const kind of Object.keys(modelChoice) as ModelKind[]) {
+      if (loadedChoiceRef.current[kind] === modelChoice[kind]) continue;
+      delete labelsRef.current[kind];
+      delete modelLoadsRef.current[kind];
+      inferenceRef.current?.unload(kind);
+    }
+    loadedChoiceRef.current = modelChoice;
+    const missing = MODE_MODELS[mode].filter((kind) => !labelsRef.current[kind]);
+    if (missing.length === 0) return;
+    setBusy(true);
+    setStatus(`Loading ${MODE_LABELS[mode].toLowerCase()} model…`);
+    ensureModels(mode)
+      .then(() => {
+        if (cancelled) return;
+        setStatus(useAslStore.getState().cameraOn ? 'Listening to signs…' : 'Camera off');
+      })
+      .catch((err) => {
+        console.error('Model load error:', err);
+        if (!cancelled) setStatus('Camera or model error');
+      })
+      .finally(() => { if (!cancelled) setBusy(false); });
+    return () => { cancelled = true; };
+  }, [mode, modelChoice.letters, modelChoice.words]);
 
-    // Ensure the underlying <video> resumes properly across iOS/Android browsers
-    try {
-      const v: HTMLVideoElement | undefined = (webcam as any).webcam;
-      if (v) {
-        v.setAttribute('playsinline', 'true');
-        v.muted = true;
-        (v as any).autoplay = true;
-      }
-    } catch {}
+  const getRunner = () => {
+    if (!runnerRef.current) {
+      const start = startInference();
+      runnerRef.current = start;
+      start.then((runner) => { if (runnerRef.current === start) inferenceRef.current = runner; }).catch(() => {});
+    }
+    return runnerRef.current;
+  };
+
+  const loadModel = (kind: ModelKind) => {
+    const loaded = labelsRef.current[kind];
+    if (loaded) return Promise.resolve(loaded);
+    const pending = modelLoadsRef.current[kind];
+    if (pending) return pending;
+    const load = getRunner()
+      .then((runner) => loadModelWithFallback(runner, kind, useAslStore.getState().modelChoice[kind]))
+      .then(({ labels, source }) => {
+        if (modelLoadsRef.current[kind] === load) {
+          labelsRef.current[kind] = labels;
+          setLoadedVersions((v) => ({ ...v, [kind]: source.version }));
+        }
+        return labels;
+      })
+      .finally(() => {
+        if (modelLoadsRef.current[kind] === load) delete modelLoadsRef.current[kind];
+      });
+    modelLoadsRef.current[kind] = load;
+    return load;
+  };
+
+  const ensureModels = (m: RecognitionMode) => Promise.all(MODE_MODELS[m].map(loadModel));
 
+  const resetGating = () => {
+    engineRef.current.reset(useAslStore.getState().text);
+    generationRef.current++;
+  };
+
+  const startCamera = async () => {
+    // Setup webcam (always create a fresh instance when turning on)
+    const webcam = await createWebcam();
     webcamRef.current = webcam;
 
     // Mount canvas and style for visibility
@@ -141,43 +251,14 @@ export default function ASLTranslator() {
     setCameraOn(true);
     setStatus('Listening to signs…');
     startLoop();
-
-    // Verify video actually started; if not, try a gentle retry
-    window.setTimeout(async () => {
-      try {
-        const v: HTMLVideoElement | undefined = (webcam as any).webcam;
-        const notReady = !v || v.readyState < 2 || v.paused || v.videoWidth === 0;
-        if (notReady) {
-          try { await (webcam as any).play(); } catch {}
-          mountCanvasToHost(webcam, canvasHostRef.current);
-        }
-      } catch {}
-    }, 600);
+    retryIfStalled(webcam, () => canvasHostRef.current);
   };
 
   const stopCamera = () => {
-    const w = webcamRef.current as any;
-    if (w) {
-      try { w.pause(); } catch {}
-      try { w.stop(); } catch {}
-      // Aggressively stop all MediaStream tracks to avoid ended-track issues on resume
-      try {
-        const v: HTMLVideoElement | undefined = w.webcam;
-        const stream = v?.srcObject as MediaStream | null | undefined;
-        if (stream) {
-          stream.getTracks().forEach((t) => {
-            try { t.stop(); } catch {}
-          });
-          if (v) v.srcObject = null;
-        }
-      } catch {}
-    }
+    releaseWebcam(webcamRef.current, canvasHostRef.current);
     webcamRef.current = null;
-    // Clear the canvas host to avoid showing a stale/ended stream element
-    if (canvasHostRef.current) {
-      try { canvasHostRef.current.replaceChildren(); } catch {}
-    }
     setCameraOn(false);
+    blankHoldRef.current.reset();
   };
 
   const startLoop = () => {
@@ -192,89 +273,452 @@ export default function ASLTranslator() {
     }
   };
 
-  const loop = async () => {
-    // Keep the loop alive across camera toggles by always scheduling the next frame
-    if (!modelRef.current) {
-      rafRef.current = requestAnimationFrame(loop);
-      return;
-    }
+  const loop = () => {
+    // Keep the loop alive across camera toggles and model swaps by always scheduling the next frame
+    rafRef.current = requestAnimationFrame(loop);
+    const runner = inferenceRef.current;
+    const kinds = MODE_MODELS[useAslStore.getState().mode];
+    if (!runner || kinds.some((kind) => !labelsRef.current[kind])) return;
+
+    const engine = engineRef.current;
+    const state = useAslStore.getState();
+    const { cameraOn: camOn, text: current, cursor: at, targetFps: fps } = state;
+    engine.configure(engineConfig(state));
+    engine.syncTranscript(at === null ? current : current.slice(0, at));
 
-    const camOn = useAslStore.getState().cameraOn;
+    // Between classified frames (and while the camera is off) still let a pending word boundary land
     if (!camOn || !webcamRef.current) {
-      rafRef.current = requestAnimationFrame(loop);
+      applyStep(engine.tick(engine.now()));
       return;
     }
 
     webcamRef.current.update();
 
-    const preds = await modelRef.current.predict(webcamRef.current.canvas);
-    const best = preds.reduce((a, b) => (a.probability > b.probability ? a : b));
-    const conf = best.probability;
-    const label = best.className.trim();
-    const now = Date.now();
+    const pacer = pacerRef.current;
+    pacer.setTarget(fps);
+    const t = performance.now();
+    publishPerf(runner, t);
+    if (!pacer.shouldRun(t)) {
+      applyStep(engine.tick(engine.now()));
+      return;
+    }
+
+    const source = webcamRef.current.canvas;
+    const { handCrop: cropOn, cropDebug: debugOn } = useAslStore.getState();
+    const cropped = cropOn ? cropperRef.current.process(source) : null;
+    const canvas = cropped ? cropped.canvas : source;
+    const box = cropped?.box;
+    const hand: HandPoint | null = box ? { x: (box.x + box.size / 2) / source.width, y: (box.y + box.size / 2) / source.height } : null;
+    if (debugOn) setCropBox(cropped ? { box: cropped.box, width: source.width, height: source.height } : null);
+
+    const buffered = frameBufferRef.current.capture(canvas);
+
+    // Not awaited: the display keeps running while the frame is classified
+    const generation = generationRef.current;
+    pacer.begin(t);
+    runner.predict(canvas, kinds)
+      .then((frame) => {
+        pacer.end(performance.now());
+        if (generation === generationRef.current) onFrame(kinds, frame, hand, buffered);
+      })
+      .catch((err) => {
+        pacer.fail();
+        console.warn('Inference failed:', err?.message || err);
+      });
+  };
+
+  // In auto mode both models saw the frame and the hybrid fuser picks one per segment
+  const onFrame = (kinds: ModelKind[], frame: InferenceResult, hand: HandPoint | null, buffered: BufferedFrame) => {
+    const engine = engineRef.current;
+    lastModelMsRef.current = frame.inferenceMs;
+    const calibration = calibrationRef.current;
+    if (calibration) {
+      const target = calibration.current;
+      const preds = target && frame.predictions[target.kind];
+      if (preds) calibration.push(performance.now(), preds);
+      return;
+    }
+    const features = syncMotion(kinds).extract(frame.predictions, hand);
+    if (takeRef.current) {
+      takeRef.current.push(performance.now(), features);
+      return;
+    }
+    let result: EngineStep;
+    if (kinds.length > 1) {
+      const { letters, words } = frame.predictions;
+      decoderRef.current.observe(letters!);
+      const now = engine.now();
+      recorderRef.current?.frame(now, { letters, words });
+      result = engine.stepHybrid(now, { letters: letters!, words: words! });
+    } else {
+      const preds = frame.predictions[kinds[0]]!;
+      if (kinds[0] === 'letters') decoderRef.current.observe(preds);
+      const now = engine.now();
+      recorderRef.current?.frame(now, { [kinds[0]]: preds });
+      result = engine.step(now, preds, kinds[0]);
+    }
+    frameBufferRef.current.stamp(buffered, result.timestamp, result.prediction.className.trim(), result.prediction.probability);
+    publishRecognition(result);
+    applyStep(result);
+
+    const { motion } = useAslStore.getState();
+    if (motion.enabled) {
+      const match = motionRef.current.push(result.timestamp, features);
+      if (match) applyMotion(match);
+    }
+  };
+
+  // Re-targets the motion recognizer when the models, hand crop, templates or tolerance change
+  const syncMotion = (kinds: ModelKind[]) => {
+    const { handCrop: cropOn, motion, motionTemplates } = useAslStore.getState();
+    const layout = { kinds, labels: labelsRef.current, hand: cropOn };
+    const key = layoutKey(layout);
+    const synced = motionSyncRef.current;
+    if (!extractorRef.current || synced.layout !== key) extractorRef.current = new FeatureExtractor(layout);
+    if (synced.layout !== key || synced.templates !== motionTemplates) motionRef.current.setTemplates(motionTemplates, key);
+    if (synced.maxDistance !== motion.maxDistance) motionRef.current.configure({ maxDistance: motion.maxDistance });
+    motionSyncRef.current = { layout: key, templates: motionTemplates, maxDistance: motion.maxDistance };
+    return extractorRef.current;
+  };
+
+  // A recognized movement replaces what the classifier wrote for its poses (e.g. the still pose J starts
+  // from): trailing tokens of the same model committed since the movement began
+  const applyMotion = (match: MotionMatch) => {
+    const engine = engineRef.current;
+    const { tokens, text: current, cursor, setText: replaceText } = useAslStore.getState();
+    let superseded = '';
+    for (let i = tokens.length - 1; i >= 0 && tokens[i].timestamp >= match.startedAt && tokens[i].kind === match.kind; i--) {
+      superseded = tokens[i].text + superseded;
+    }
+    if (superseded && cursor === null && current.endsWith(superseded)) {
+      replaceText(current.slice(0, -superseded.length));
+      afterEdit(true);
+      engine.syncTranscript(useAslStore.getState().text);
+    }
+    const result = engine.commitMotion(match.timestamp, match.kind, match.label, match.confidence);
+    holdStartRef.current = match.startedAt;
+    publishRecognition(result);
+    applyStep(result);
+  };
+
+  // Overlay, label and status re-render the page, so they update at most every UI_INTERVAL_MS
+  const publishRecognition = (result: EngineStep) => {
+    const ui = uiRef.current;
+    const t = performance.now();
+    const label = result.accepted ? result.prediction.className.trim() : ui.label;
+    if (label === ui.label && t - ui.at < UI_INTERVAL_MS) return;
+    ui.at = t;
+    ui.label = label;
+    setConfidenceDisplay(result.prediction.probability);
+    if (result.accepted) {
+      setRecognition(label, result.prediction.probability);
+      setStatus(`Recognizing sign for: ${label}`);
+    }
+  };
 
-    setConfidenceDisplay(conf);
+  const publishPerf = (runner: InferenceRunner, t: number) => {
+    if (!useAslStore.getState().showPerf || t - perfAtRef.current < PERF_INTERVAL_MS) return;
+    perfAtRef.current = t;
+    setPerf({ ...pacerRef.current.stats(t), modelMs: lastModelMsRef.current, backend: runner.backend, where: runner.where });
+  };
 
-    const thr = useAslStore.getState().threshold;
-    if (conf >= thr) {
-      // Track when the current label started so we can enforce simple hold timing
-      if (lastDetectedLabelRef.current !== label) {
-        lastDetectedLabelRef.current = label;
-        stableSinceRef.current = now;
+  const applyStep = (result: EngineStep) => {
+    const decoder = decoderRef.current;
+    const { controls } = useAslStore.getState();
+    // The bound accept sign, right after a fingerspelled word, accepts its top completion
+    if (decoder.word && result.tokens.some((t) => isAcceptSign(controls, t)) && acceptCompletion(0)) return;
+
+    // Control signs edit the transcript instead of being written to it; the accept sign is never written
+    const actions = new Map(result.tokens.map((t) => [t, controlFor(controls, t)]));
+    const written = (t: CommittedToken) => !actions.get(t) && !isAcceptSign(controls, t);
+
+    let spelling = false;
+    for (const event of result.events) {
+      if (event.type === 'detect') holdStartRef.current = event.timestamp;
+      if (event.type === 'detect' && event.kind === 'letters') decoder.beginLetter();
+      else if (event.type === 'boundary') { decoder.closeWord(); spelling = true; }
+      else if (event.type === 'commit' && event.token.kind !== 'space' && written(event.token)) {
+        if (event.token.kind === 'letters') decoder.commitLetter(event.token.text);
+        else decoder.endWord();
+        spelling = true;
       }
+    }
+    if (spelling) updateCompletions();
 
-      setRecognition(label, conf);
-      setStatus(camOn ? `Recognizing sign for: ${label}` : 'Camera off');
-
-      // Commit when held long enough at high confidence; allow repeating same letter after a release
-      const heldLongEnough = (now - stableSinceRef.current) >= holdMs;
-      const released = releaseStartRef.current > 0 && (now - releaseStartRef.current) >= RELEASE_MS;
-      if ((label !== lastEmittedLabelRef.current || released) && heldLongEnough) {
-        appendText(label.toUpperCase());
-        lastEmittedLabelRef.current = label;
-        // reset release timer after emission
-        releaseStartRef.current = 0;
-
-        // Word boundary timer: if no new letter arrives within 3s, insert a space
-        if (letterGapTimerRef.current) clearTimeout(letterGapTimerRef.current);
-        letterGapTimerRef.current = window.setTimeout(() => {
-          const current = useAslStore.getState().text;
-          if (current && !current.endsWith(' ')) {
-            useAslStore.getState().appendText(' ');
-            lastWordBoundaryTimeRef.current = Date.now();
-            // strict letter-by-letter: no corrections
-          }
-        }, LETTER_GAP_MS);
+    for (const token of result.tokens) {
+      const action = actions.get(token);
+      if (action) {
+        runEdit(action, true);
+        continue;
       }
+      if (!written(token)) continue;
+      commitToken(token);
+      recorderRef.current?.commit(token);
+      if (token.kind !== 'space') keepProvenance(token);
+      blankHoldRef.current.arm();
+    }
+    // Holding the blank class after a commit deletes that letter (when enabled). Only classified frames
+    // count: tick() steps (camera off, frames the pacer skips) carry an empty prediction, not a blank one.
+    const classified = result.prediction.className !== '';
+    if (controls.enabled && classified && blankHoldRef.current.step(result.timestamp, isBlankLabel(result.prediction.className), controls.blankBackspaceMs)) {
+      runEdit('backspace', true);
+    }
+    // Space tokens close a word: a natural point to re-correct the open segment
+    if (result.tokens.some((t) => t.kind === 'space')) triggerCorrection();
+  };
 
-      // No release gating: next letter can be recognized as soon as label changes and meets holdMs
-    } else {
-      // Below threshold: start release timer and reset stability so next commit requires fresh hold
-      if (releaseStartRef.current === 0) releaseStartRef.current = now;
-      lastDetectedLabelRef.current = '';
-      stableSinceRef.current = 0;
+  // Keeps the frames of the committed sign's hold with it, for "that was wrong" feedback
+  const keepProvenance = (token: CommittedToken) => {
+    const kind = token.kind as ModelKind;
+    const startedAt = Math.min(holdStartRef.current ?? token.timestamp, token.timestamp);
+    const frames = pickEvenly(frameBufferRef.current.between(startedAt, token.timestamp), MAX_TOKEN_FRAMES);
+    encodeFrames(frames)
+      .then((encoded) => useAslStore.getState().addProvenance({
+        id: `${kind}:${token.timestamp}`,
+        kind,
+        label: token.label.trim(),
+        text: token.text,
+        startedAt,
+        timestamp: token.timestamp,
+        confidence: token.confidence,
+        frames: encoded,
+      }))
+      .catch((err) => console.warn('Could not keep frames of the sign:', err?.message || err));
+  };
+
+  // A corrected sign that still ends the transcript is rewritten with the correct label
+  const canFixSign = (p: TokenProvenance) => {
+    const { tokens, text: current, cursor: at } = useAslStore.getState();
+    const last = tokens[tokens.length - 1];
+    return at === null && !!last && last.timestamp === p.timestamp && last.kind === p.kind && current.endsWith(p.text);
+  };
+
+  const fixSign = (p: TokenProvenance, label: string) => {
+    if (!canFixSign(p)) return;
+    const { text: current, setText: replaceText } = useAslStore.getState();
+    replaceText(current.slice(0, current.length - p.text.length) + correctedText(p.kind, label));
+    afterEdit();
+  };
+
+  const toggleRecording = () => {
+    if (recorderRef.current) {
+      const trace = recorderRef.current.finish();
+      recorderRef.current = null;
+      setRecording(false);
+      if (trace.frames.length > 0) {
+        const stamp = new Date(trace.header.startedAt).toISOString().replace(/[:.]/g, '-');
+        downloadText(`asl-trace-${stamp}.ndjson`, traceToNDJSON(trace), 'application/x-ndjson');
+      }
+      return;
+    }
+    const engine = engineRef.current;
+    const { mode: m } = useAslStore.getState();
+    const labels: Partial<Record<ModelKind, string[]>> = {};
+    for (const kind of MODE_MODELS[m]) {
+      const loaded = labelsRef.current[kind];
+      if (loaded) labels[kind] = loaded;
     }
+    recorderRef.current = new TraceRecorder({
+      startedAt: engine.now(),
+      mode: m,
+      config: engine.config,
+      strategy: engine.strategyName,
+      labels,
+    });
+    setRecording(true);
+  };
 
-    rafRef.current = requestAnimationFrame(loop);
+  // Corrects the open segment. Word boundaries correct it as an unfinished sentence; "Correct now" or a
+  // SENTENCE_PAUSE_MS pause without new text ends the sentence.
+  const triggerCorrection = async (endsSentence = false) => {
+    if (sentencePauseRef.current) clearTimeout(sentencePauseRef.current);
+    sentencePauseRef.current = null;
+    const { correction, text: current } = useAslStore.getState();
+    if (!correction.enabled) return;
+    const session = correctionRef.current;
+    const segment = session.openSegment(current);
+    if (!segment) return;
+    if (!endsSentence) {
+      sentencePauseRef.current = setTimeout(() => {
+        sentencePauseRef.current = null;
+        if (useAslStore.getState().text === current) triggerCorrection(true);
+      }, SENTENCE_PAUSE_MS);
+    }
+    const before = current.slice(0, segment.start).trimEnd();
+    const position = { startsSentence: before === '' || /[.?!]$/.test(before), endsSentence };
+    correctionAbortRef.current?.abort(); // the newer segment supersedes the one in flight
+    const ctrl = new AbortController();
+    correctionAbortRef.current = ctrl;
+    setCorrecting(true);
+    try {
+      const corrected = await createProvider(correction).correct(segment.raw, ctrl.signal, position);
+      if (ctrl.signal.aborted) return;
+      if (useAslStore.getState().text.slice(segment.start, segment.end) !== segment.raw) return; // transcript was replaced meanwhile
+      session.propose(segment, corrected);
+      setSuggestions([...session.suggestions]);
+    } catch (err: any) {
+      if (!ctrl.signal.aborted) console.warn('Correction failed:', err?.message || err);
+    } finally {
+      if (correctionAbortRef.current === ctrl) {
+        correctionAbortRef.current = null;
+        setCorrecting(false);
+      }
+    }
+  };
+
+  useEffect(() => {
+    if (!handCrop) { cropperRef.current.reset(); setCropBox(null); }
+  }, [handCrop]);
+
+  // Show the model input next to the overlay while debugging the crop
+  useEffect(() => {
+    const host = cropPreviewRef.current;
+    if (!host) return;
+    if (cropDebug && handCrop) host.replaceChildren(cropperRef.current.canvas);
+    else host.replaceChildren();
+  }, [cropDebug, handCrop]);
+
+  const updateCompletions = () => {
+    setCompletions(decoderRef.current.completions());
+    setSpelled(decoderRef.current.word);
   };
 
-  const majorityCount = (arr: string[]) => {
-    if (arr.length === 0) return 0;
-    const counts: Record<string, number> = {};
-    for (const l of arr) counts[l] = (counts[l] || 0) + 1;
-    return Math.max(...Object.values(counts));
+  useEffect(() => {
+    decoderRef.current.setLexicon(lexicon);
+    updateCompletions();
+  }, [lexicon]);
+
+  // Replaces the fingerspelled letters at the end of the transcript with a completion and closes the word
+  const acceptCompletion = (index: number) => {
+    const decoder = decoderRef.current;
+    const choice = decoder.completions()[index];
+    const body = useAslStore.getState().text.replace(/ +$/, '');
+    if (!choice || !decoder.word || !body.endsWith(decoder.word)) return false;
+    setText(body.slice(0, body.length - decoder.word.length) + choice.word + ' ');
+    decoder.endWord();
+    updateCompletions();
+    return true;
   };
 
-  const shouldPrependSpace = () => {
-    const s = useAslStore.getState().text;
-    return s.length > 0 && !s.endsWith(' ');
+  // Keys 1–3 accept a completion (ignored while typing in a field)
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      const el = e.target as HTMLElement | null;
+      if (el && (el.tagName === 'INPUT' || el.tagName === 'TEXTAREA' || el.tagName === 'SELECT' || el.isContentEditable)) return;
+      if (e.ctrlKey || e.metaKey || e.altKey) return;
+      const n = Number(e.key);
+      if (n >= 1 && n <= 3 && acceptCompletion(n - 1)) e.preventDefault();
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, []);
+
+  // Keyboard: Backspace, Ctrl+Backspace (word), Space, Ctrl+Z / Ctrl+Shift+Z or Ctrl+Y, Ctrl+Shift+Backspace (clear).
+  // Outside text fields only; the transcript box handles undo/redo itself.
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      const el = e.target as HTMLElement | null;
+      if (el && (el.tagName === 'INPUT' || el.tagName === 'TEXTAREA' || el.tagName === 'SELECT' || el.isContentEditable)) return;
+      const action = shortcutAction(e);
+      if (!action || (action === 'space' && el?.tagName === 'BUTTON')) return;
+      e.preventDefault();
+      runEdit(action);
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, []);
+
+  const acceptCorrection = (id: number) => {
+    const next = correctionRef.current.accept(id, useAslStore.getState().text);
+    if (next !== null) setText(next);
+    setSuggestions([...correctionRef.current.suggestions]);
   };
 
-  const normalizeWord = (w: string) => w.replace(/_/g, ' ').toLowerCase();
+  const rejectCorrection = (id: number) => {
+    correctionRef.current.reject(id);
+    setSuggestions([...correctionRef.current.suggestions]);
+  };
 
-  const triggerCorrection = async () => { /* disabled: strict letter-by-letter, no NLP */ };
+  const resetCorrections = (text = '') => {
+    if (sentencePauseRef.current) clearTimeout(sentencePauseRef.current);
+    sentencePauseRef.current = null;
+    correctionAbortRef.current?.abort();
+    correctionAbortRef.current = null;
+    setCorrecting(false);
+    correctionRef.current.reset(text);
+    setSuggestions([]);
+  };
 
-  const { text } = useAslStore();
+  const { text, cursor, sessionId, correction } = useAslStore();
+
+  // Manual edits invalidate the word being spelled and the open correction segment. Edits made by a
+  // control sign keep the engine's hold state, so a still-held control sign does not fire again.
+  const afterEdit = (fromSign = false) => {
+    const { text: current, cursor: at } = useAslStore.getState();
+    resetCorrections(current);
+    decoderRef.current.endWord();
+    updateCompletions();
+    blankHoldRef.current.reset();
+    if (!fromSign) engineRef.current.reset(at === null ? current : current.slice(0, at));
+  };
+
+  const runEdit = (action: ControlAction, fromSign = false) => {
+    const store = useAslStore.getState();
+    const before = store.text;
+    ({
+      backspace: store.deleteLastChar,
+      deleteWord: store.deleteLastWord,
+      space: store.insertSpace,
+      undo: store.undo,
+      redo: store.redo,
+      clear: store.clearText,
+    })[action]();
+    if (useAslStore.getState().text !== before) afterEdit(fromSign);
+  };
+
+  // Typing in the transcript box
+  const onTranscriptChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    useAslStore.getState().editText(e.target.value, e.target.selectionStart);
+    afterEdit();
+  };
+
+  const onTranscriptSelect = (e: React.SyntheticEvent<HTMLTextAreaElement>) => {
+    const el = e.currentTarget;
+    if (el.selectionStart !== el.selectionEnd) return;
+    const at = el.selectionStart >= el.value.length ? null : el.selectionStart;
+    if (at === useAslStore.getState().cursor) return;
+    useAslStore.getState().setCursor(at);
+    decoderRef.current.endWord(); // a word spelled at the old position is finished
+    updateCompletions();
+  };
+
+  const onTranscriptKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    const action = shortcutAction(e.nativeEvent);
+    if (action !== 'undo' && action !== 'redo') return;
+    e.preventDefault();
+    runEdit(action);
+  };
+
+  // Recognized signs and edits move the cursor in the store; mirror it into a focused text box
+  useLayoutEffect(() => {
+    const el = transcriptRef.current;
+    if (!el || document.activeElement !== el) return;
+    const at = cursor ?? text.length;
+    if (el.selectionStart !== at || el.selectionEnd !== at) el.setSelectionRange(at, at);
+  }, [text, cursor]);
+
+  // Autosave the live transcript to session history shortly after each change
+  const saveCurrentSession = () => {
+    const s = useAslStore.getState();
+    if (!s.text.trim()) return Promise.resolve();
+    return saveLiveSession({ id: s.sessionId, startedAt: s.sessionStartedAt ?? Date.now(), mode: s.mode, text: s.text, tokens: s.tokens })
+      .then(() => undefined)
+      .catch((err) => console.warn('Could not save session:', err));
+  };
+  useEffect(() => {
+    const t = setTimeout(saveCurrentSession, 1000);
+    return () => clearTimeout(t);
+  }, [text]);
 
   const copyText = async () => {
     try {
@@ -284,20 +728,18 @@ export default function ASLTranslator() {
     } catch {}
   };
 
-  const onReset = () => {
+  // Reset starts a new session; the finished one stays in History
+  const onReset = async () => {
+    await saveCurrentSession();
     resetText();
+    resetCorrections();
+    decoderRef.current.endWord();
+    updateCompletions();
     setStatus('Listening to signs…');
     // Reset gating runtime state
-    lastDetectedLabelRef.current = '';
-    lastEmittedLabelRef.current = '';
-    stableSinceRef.current = 0;
-    lastWordEmitTimeRef.current = 0;
-    if (letterGapTimerRef.current) { clearTimeout(letterGapTimerRef.current); letterGapTimerRef.current = null; }
-    lastWordBoundaryTimeRef.current = 0;
+    resetGating();
   };
 
-
-
   const toggleCamera = async () => {
     if (cameraOn) {
       // Turn camera off: stop loop and stop stream
@@ -307,10 +749,7 @@ export default function ASLTranslator() {
     } else {
       // Turn camera on: always fresh-init the webcam to avoid ended tracks issues
       try {
-        if (!modelRef.current) {
-          const paths = MODEL_PATHS.letters;
-          modelRef.current = await loadModelWithFallback(paths.modelUrl, paths.metadataUrl);
-        }
+        await ensureModels(mode);
         await startCamera();
       } catch (err) {
         console.error('Camera start error:', err);
@@ -319,11 +758,22 @@ export default function ASLTranslator() {
     }
   };
 
-  const { recognizedLabel, confidence } = useAslStore();
+  const { recognizedLabel, confidence, captionScale } = useAslStore();
+
+  // Finished words are spoken (when enabled) and every change is mirrored to presenter windows
+  useTranscriptSpeech();
+  const liveSign = recognizedLabel?.trim() || null;
+  useCaptionBroadcast({ text, live: liveSign, scale: captionScale, updatedAt: Date.now() });
+  const closeCaptions = useCallback(() => setShowCaptions(false), []);
+
+  // Labels of the models the current mode has loaded (re-read whenever a load finishes and busy flips)
+  const modelLabels = busy ? [] : MODE_MODELS[mode].flatMap((kind) => labelsRef.current[kind] ?? []);
+  const controlLabels = busy ? [] : MODE_MODELS[mode].flatMap((kind) =>
+    (labelsRef.current[kind] ?? []).filter((l) => !isBlankLabel(l)).map((label) => ({ kind, label: label.trim() })));
 
   return (
     <div className="min-h-screen bg-black text-white">
-      <header className="px-6 py-4 border-b border-white/10">
+      <header className="relative px-6 py-4 border-b border-white/10">
         <motion.h1 
           initial={{ opacity: 0, y: -8 }}
           animate={{ opacity: 1, y: 0 }}
@@ -333,15 +783,66 @@ export default function ASLTranslator() {
         >
           ASL Translator Tutorial
         </motion.h1>
+        <div className="mt-3 flex justify-center sm:mt-0 sm:absolute sm:right-6 sm:top-1/2 sm:-translate-y-1/2">
+          <NavLinks />
+        </div>
       </header>
 
       <main className="grid grid-cols-1 lg:grid-cols-2 gap-6 p-6">
         {/* Left: Webcam */}
         <section className="relative rounded-xl overflow-hidden bg-white/5 border border-white/10">
           <div className="flex items-center justify-between p-3">
-            <div className="text-sm text-white/70">{status}</div>
+            <div className="flex items-center gap-2 text-sm text-white/70">
+              {status}
+              {!online && (
+                <span
+                  title={offlineReady ? 'Offline: using cached app and models' : 'Offline: models not cached yet'}
+                  className={`px-2 py-0.5 rounded-full text-xs font-medium ${offlineReady ? 'bg-amber-400 text-black' : 'bg-red-500 text-black'}`}
+                >
+                  Offline
+                </span>
+              )}
+            </div>
             <div className="flex items-center gap-2">
+              <div className="flex rounded-md overflow-hidden border border-white/10" role="radiogroup" aria-label="Recognition mode">
+                {(Object.keys(MODE_LABELS) as RecognitionMode[]).map((m) => (
+                  <button
+                    key={m}
+                    role="radio"
+                    aria-checked={mode === m}
+                    disabled={busy && mode !== m}
+                    onClick={() => setMode(m)}
+                    className={`px-2 py-1 text-xs transition ${mode === m ? 'bg-teal-500 text-black font-medium' : 'bg-white/5 hover:bg-white/15'}`}
+                  >
+                    {MODE_LABELS[m]}
+                  </button>
+                ))}
+              </div>
+              <button
+                onClick={toggleRecording}
+                title="Record per-frame predictions for offline replay"
+                className={`px-3 py-1 rounded-md transition ${recording ? 'bg-red-500 text-black font-medium hover:bg-red-400' : 'bg-white/10 hover:bg-white/20'}`}
+              >
+                {recording ? 'Stop & Save' : 'Record'}
+              </button>
               <button onClick={toggleCamera} className="px-3 py-1 rounded-md bg-white/10 hover:bg-white/20 transition">{cameraOn ? 'Camera Off' : 'Camera On'}</button>
+              <button
+                onClick={() => setHandCrop(!handCrop)}
+                aria-pressed={handCrop}
+                title="Find the hand, crop and normalize lighting before classification"
+                className={`px-3 py-1 rounded-md transition ${handCrop ? 'bg-teal-500 text-black font-medium hover:bg-teal-400' : 'bg-white/10 hover:bg-white/20'}`}
+              >
+                Hand crop
+              </button>
+              {handCrop && (
+                <button
+                  onClick={() => setCropDebug(!cropDebug)}
+                  aria-pressed={cropDebug}
+                  className={`px-2 py-1 rounded-md text-xs transition ${cropDebug ? 'bg-amber-400 text-black' : 'bg-white/10 hover:bg-white/20'}`}
+                >
+                  Debug
+                </button>
+              )}
               <div className="flex items-center gap-4 text-xs text-white/80">
                 <div className="flex items-center gap-2">
                   <label htmlFor="thr">Threshold</label>
@@ -353,6 +854,19 @@ export default function ASLTranslator() {
                   <input id="hold" type="range" min={200} max={1200} value={holdMs} onChange={(e) => setHoldMs(Number(e.target.value))} />
                   <span>{holdMs}ms</span>
                 </div>
+                <div className="flex items-center gap-2">
+                  <label htmlFor="fps" title="Inference frames per second to aim for; slower devices drop frames below this">Target FPS</label>
+                  <input id="fps" type="range" min={MIN_TARGET_FPS} max={MAX_TARGET_FPS} value={targetFps} onChange={(e) => setTargetFps(Number(e.target.value))} />
+                  <span>{targetFps}</span>
+                </div>
+                <button
+                  onClick={() => setShowPerf(!showPerf)}
+                  aria-pressed={showPerf}
+                  title="Show inference time, frame rate and backend"
+                  className={`px-2 py-1 rounded-md transition ${showPerf ? 'bg-teal-500 text-black font-medium' : 'bg-white/10 hover:bg-white/20'}`}
+                >
+                  Perf
+                </button>
               </div>
             </div>
           </div>
@@ -361,6 +875,28 @@ export default function ASLTranslator() {
             {/* Webcam Canvas Host */}
             <div className="aspect-[4/3] w-full bg-black" ref={canvasHostRef} aria-label="Webcam canvas host" style={{ position: 'relative' }} />
 
+            {/* Hand crop debug: crop box over the webcam and the 224px model input */}
+            {handCrop && cropDebug && cropBox?.box && (
+              <div
+                className="absolute border-2 border-amber-400 pointer-events-none"
+                style={{
+                  left: `${(cropBox.box.x / cropBox.width) * 100}%`,
+                  top: `${(cropBox.box.y / cropBox.height) * 100}%`,
+                  width: `${(cropBox.box.size / cropBox.width) * 100}%`,
+                  height: `${(cropBox.box.size / cropBox.height) * 100}%`,
+                }}
+              />
+            )}
+            {/* Perf HUD: model time, round trip, classified frames per second, backend */}
+            {showPerf && perf && (
+              <div className="absolute top-3 left-3 px-2 py-1 rounded-md bg-black/70 font-mono text-[11px] leading-4 text-white/90 pointer-events-none" aria-label="Performance">
+                <div>model {perf.modelMs.toFixed(0)} ms • round trip {perf.inferenceMs.toFixed(0)} ms</div>
+                <div>{perf.fps}/{perf.targetFps} fps{perf.dropped > 0 ? ` • dropped ${perf.dropped}` : ''}</div>
+                <div>{perf.backend} ({perf.where === 'worker' ? 'worker' : 'main thread'})</div>
+              </div>
+            )}
+            <div ref={cropPreviewRef} className={`absolute top-3 right-3 w-24 h-24 border border-amber-400 bg-black [&>canvas]:w-full [&>canvas]:h-full ${handCrop && cropDebug ? '' : 'hidden'}`} aria-label="Model input preview" />
+
             {/* Overlay */}
             <motion.div 
               initial={{ opacity: 0 }}
@@ -381,27 +917,116 @@ export default function ASLTranslator() {
         <section className="rounded-xl bg-white/5 border border-white/10 p-4 flex flex-col">
           <div className="flex items-center justify-between mb-3">
             <h2 className="text-lg font-medium">Translation</h2>
-            <div className="flex items-center gap-2">
+            <div className="flex flex-wrap items-center justify-end gap-2">
+              <button onClick={() => setShowCaptions(true)} className="px-3 py-1 rounded-md bg-white/10 hover:bg-white/20 transition">Captions</button>
+              <button onClick={() => setShowPlayback((v) => !v)} className="px-3 py-1 rounded-md bg-white/10 hover:bg-white/20 transition">{showPlayback ? 'Hide Text → Sign' : 'Text → Sign'}</button>
+              <button onClick={() => setShowHistory((v) => !v)} className="px-3 py-1 rounded-md bg-white/10 hover:bg-white/20 transition">{showHistory ? 'Hide History' : 'History'}</button>
+              <button onClick={() => setShowModels((v) => !v)} className="px-3 py-1 rounded-md bg-white/10 hover:bg-white/20 transition">{showModels ? 'Hide Models' : 'Models'}</button>
+              <button onClick={() => setShowCapture((v) => !v)} className="px-3 py-1 rounded-md bg-white/10 hover:bg-white/20 transition">{showCapture ? 'Hide Capture' : 'Capture'}</button>
+              <button onClick={() => setShowSettings((v) => !v)} className="px-3 py-1 rounded-md bg-white/10 hover:bg-white/20 transition">{showSettings ? 'Hide Settings' : 'Settings'}</button>
               <button onClick={onReset} className="px-3 py-1 rounded-md bg-white/10 hover:bg-white/20 transition">Reset</button>
               <button onClick={copyText} className="px-3 py-1 rounded-md bg-teal-500 text-black font-medium hover:bg-teal-400 transition">{copyOk ? 'Copied!' : 'Copy Text'}</button>
             </div>
           </div>
 
-          <div className="flex-1">
-            <div className="min-h-[240px] p-4 rounded-lg bg-black/50 border border-white/10 text-white/90 leading-relaxed">
-              {text ? text : 'Start signing — translation will appear here.'}
+          <div className="flex-1 flex flex-col">
+            <textarea
+              ref={transcriptRef}
+              value={text}
+              onChange={onTranscriptChange}
+              onSelect={onTranscriptSelect}
+              onKeyDown={onTranscriptKeyDown}
+              placeholder="Start signing — translation will appear here."
+              aria-label="Transcript"
+              className="flex-1 min-h-[240px] w-full resize-y p-4 rounded-lg bg-black/50 border border-white/10 focus:border-teal-400 outline-none text-white/90 leading-relaxed"
+            />
+          </div>
+
+          <div className="mt-3">
+            <EditToolbar labels={controlLabels} onEdit={runEdit} />
+          </div>
+
+          <div className="mt-3">
+            <FeedbackPanel labels={busy ? {} : labelsRef.current} canFix={canFixSign} onFix={fixSign} />
+          </div>
+
+          {mode !== 'words' && (
+            <div className="mt-3">
+              <CompletionBar spelled={spelled} completions={completions} inLexicon={lexicon.has(spelled)} onAccept={acceptCompletion} />
             </div>
+          )}
+
+          <div className="mt-3">
+            <CorrectionPanel
+              text={text}
+              preview={correctionRef.current.preview(text)}
+              suggestions={suggestions}
+              correcting={correcting}
+              onAccept={acceptCorrection}
+              onReject={rejectCorrection}
+              onCorrectNow={() => triggerCorrection(true)}
+            />
+          </div>
+
+          <div className="mt-3">
+            <SpeechPanel text={text} />
           </div>
 
-          <div className="mt-3 text-xs text-white/60">Mode: Letters only • No corrections</div>
+          <div className="mt-3 text-xs text-white/60">
+            Mode: {MODE_LABELS[mode]} • {MODE_MODELS[mode].map((k) => `${k} ${loadedVersions[k] ?? '…'}`).join(' • ')} • {correction.enabled ? `Corrections: ${PROVIDER_LABELS[correction.provider]}` : 'No corrections'}
+          </div>
         </section>
+
+        {/* Reverse direction: typed English played back as word signs and fingerspelling */}
+        {showPlayback && (
+          <section className="lg:col-span-2 rounded-xl bg-white/5 border border-white/10 p-4">
+            <h2 className="text-lg font-medium mb-3">Text → Sign</h2>
+            <SignPlaybackPanel />
+          </section>
+        )}
+
+        {/* Saved sessions: browse, search, rename, edit, export */}
+        {showHistory && (
+          <section className="lg:col-span-2 rounded-xl bg-white/5 border border-white/10 p-4">
+            <h2 className="text-lg font-medium mb-3">History</h2>
+            <HistoryPanel currentSessionId={sessionId} />
+          </section>
+        )}
+
+        {/* Model registry: per-device version choice, promote and roll back */}
+        {showModels && (
+          <section className="lg:col-span-2 rounded-xl bg-white/5 border border-white/10 p-4">
+            <h2 className="text-lg font-medium mb-3">Models</h2>
+            <ModelRegistryPanel loadedVersions={loadedVersions} />
+          </section>
+        )}
+
+        {/* Dataset capture: collect labelled frames from the live webcam for retraining */}
+        {showCapture && (
+          <section className="lg:col-span-2 rounded-xl bg-white/5 border border-white/10 p-4">
+            <h2 className="text-lg font-medium mb-3">Capture Samples</h2>
+            <CapturePanel getCanvas={() => (handCrop ? cropperRef.current.canvas : webcamRef.current?.canvas ?? null)} labels={modelLabels} />
+          </section>
+        )}
+
+        {/* Recognition settings: timings, per-sign thresholds, profiles and calibration */}
+        {showSettings && (
+          <section className="lg:col-span-2 rounded-xl bg-white/5 border border-white/10 p-4">
+            <h2 className="text-lg font-medium mb-3">Recognition Settings</h2>
+            <RecognitionSettingsPanel labels={controlLabels} cameraOn={cameraOn} onCalibrate={(run) => { calibrationRef.current = run; }} />
+            <h3 className="text-sm font-medium mt-6 mb-3">Motion Signs</h3>
+            <MotionSignsPanel
+              labels={controlLabels}
+              kinds={MODE_MODELS[mode]}
+              layout={layoutKey({ kinds: MODE_MODELS[mode], labels: labelsRef.current, hand: handCrop })}
+              cameraOn={cameraOn}
+              onRecord={(take) => { takeRef.current = take; }}
+            />
+          </section>
+        )}
       </main>
+
+      {showCaptions && <CaptionsOverlay text={text} live={liveSign} onClose={closeCaptions} />}
     </div>
   );
 }
-
-function getViewportSize() {
-  const w = typeof window !== 'undefined' ? window.innerWidth : 640;
-  const isMobile = w < 768;
-  return { width: isMobile ? 480 : 640, height: isMobile ? 360 : 480 };
-}
@@ -0,0 +1,188 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { labelKey } from '../recognition/types';
+import { useAslStore } from '../store/aslStore';
+import { CalibrationRun, CalibrationSuggestion, CalibrationTarget, LabelCalibration, READY_MS, RECORD_MS, suggestSettings } from '../settings/calibration';
+import { pickSettings, RecognitionSettings } from '../settings/recognition';
+
+type Props = {
+  labels: CalibrationTarget[];                  // signs of the loaded models
+  cameraOn: boolean;
+  onCalibrate: (run: CalibrationRun | null) => void; // routes classified frames to the run instead of the transcript
+};
+
+const pct = (x: number) => `${Math.round(x * 100)}%`;
+
+// Guided calibration: hold each chosen sign when prompted, then review and apply the suggested settings
+export default function CalibrationWizard({ labels, cameraOn, onCalibrate }: Props) {
+  const { labelThresholds, setRecognitionSettings, saveProfile } = useAslStore();
+  const [chosen, setChosen] = useState<Set<string>>(() => new Set(labels.map((l) => labelKey(l.kind, l.label))));
+  const runRef = useRef<CalibrationRun | null>(null);
+  const [, setVersion] = useState(0); // bumped every animation frame while running
+  const [results, setResults] = useState<LabelCalibration[] | null>(null);
+  const [suggestion, setSuggestion] = useState<CalibrationSuggestion | null>(null);
+  const [profileName, setProfileName] = useState('');
+  const [applied, setApplied] = useState(false);
+  const run = runRef.current;
+
+  // New model labels: choose all of them again
+  useEffect(() => {
+    setChosen(new Set(labels.map((l) => labelKey(l.kind, l.label))));
+  }, [labels.map((l) => labelKey(l.kind, l.label)).join('\n')]);
+
+  const finish = () => {
+    const r = runRef.current;
+    runRef.current = null;
+    onCalibrate(null);
+    if (!r) return;
+    const analyzed = r.results();
+    setResults(analyzed);
+    setSuggestion(suggestSettings(analyzed));
+  };
+
+  // Re-render the countdown while running; finish once every sign is recorded
+  useEffect(() => {
+    if (!run) return;
+    let raf = 0;
+    const loop = () => {
+      if (run.state(performance.now()).phase === 'done') return finish();
+      setVersion((v) => v + 1);
+      raf = requestAnimationFrame(loop);
+    };
+    raf = requestAnimationFrame(loop);
+    return () => cancelAnimationFrame(raf);
+  }, [run]);
+
+  // Leaving the panel mid-run gives the frames back to the transcript
+  useEffect(() => () => { if (runRef.current) onCalibrate(null); }, []);
+
+  const start = () => {
+    const targets = labels.filter((l) => chosen.has(labelKey(l.kind, l.label)));
+    const next = new CalibrationRun(targets, performance.now());
+    runRef.current = next;
+    onCalibrate(next);
+    setResults(null);
+    setSuggestion(null);
+    setApplied(false);
+    setVersion((v) => v + 1);
+  };
+
+  // Calibrated signs drop their old override; the weak ones get the suggested one
+  const suggestedSettings = (s: CalibrationSuggestion): Partial<RecognitionSettings> => {
+    const merged = { ...labelThresholds };
+    for (const r of results ?? []) delete merged[labelKey(r.kind, r.label)];
+    return { threshold: s.threshold, holdMs: s.holdMs, labelThresholds: { ...merged, ...s.labelThresholds } };
+  };
+
+  const apply = () => {
+    if (!suggestion) return;
+    setRecognitionSettings(suggestedSettings(suggestion));
+    setApplied(true);
+  };
+
+  const saveAsProfile = () => {
+    if (!suggestion || !profileName.trim()) return;
+    saveProfile(profileName, { ...pickSettings(useAslStore.getState()), ...suggestedSettings(suggestion) });
+    setProfileName('');
+  };
+
+  const toggle = (key: string) => setChosen((prev) => {
+    const next = new Set(prev);
+    if (next.has(key)) next.delete(key);
+    else next.add(key);
+    return next;
+  });
+
+  if (run) {
+    const { phase, remainingMs } = run.state(performance.now());
+    const target = run.current;
+    return (
+      <div className="flex flex-col items-center gap-3 p-4 rounded-lg bg-black/50 border border-white/10" aria-live="polite">
+        <div className="text-xs text-white/60">Sign {Math.min(run.index + 1, run.targets.length)} of {run.targets.length}</div>
+        {target && <div className="text-6xl font-semibold">{target.label.trim()}</div>}
+        <div className={`text-sm ${phase === 'recording' ? 'text-teal-300' : 'text-white/70'}`}>
+          {phase === 'recording' ? `Hold it… ${(remainingMs / 1000).toFixed(1)}s` : `Get ready: ${(remainingMs / 1000).toFixed(1)}s`}
+        </div>
+        <button onClick={finish} className="px-3 py-1 rounded-md bg-white/10 hover:bg-white/20 transition text-xs">Stop and analyze</button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-3 text-xs text-white/80">
+      <div className="text-white/60">
+        Hold each sign when prompted ({READY_MS / 1000}s to get ready, {RECORD_MS / 1000}s recording). Suggestions are for this camera, lighting and signer; the transcript is paused meanwhile.
+      </div>
+      <div className="flex flex-wrap gap-1">
+        {labels.map((l) => {
+          const key = labelKey(l.kind, l.label);
+          return (
+            <button
+              key={key}
+              onClick={() => toggle(key)}
+              aria-pressed={chosen.has(key)}
+              className={`px-2 py-0.5 rounded ${chosen.has(key) ? 'bg-teal-500 text-black' : 'bg-white/10'}`}
+              title={key}
+            >
+              {l.label}
+            </button>
+          );
+        })}
+      </div>
+      <div className="flex items-center gap-2">
+        <button onClick={() => setChosen(new Set(labels.map((l) => labelKey(l.kind, l.label))))} className="px-2 py-1 rounded-md bg-white/10 hover:bg-white/20 transition">All</button>
+        <button onClick={() => setChosen(new Set())} className="px-2 py-1 rounded-md bg-white/10 hover:bg-white/20 transition">None</button>
+        <button
+          onClick={start}
+          disabled={!cameraOn || chosen.size === 0}
+          className="ml-auto px-3 py-1 rounded-md bg-teal-500 text-black font-medium hover:bg-teal-400 disabled:opacity-40 transition"
+        >
+          Start calibration ({chosen.size} signs, ~{Math.ceil((chosen.size * (READY_MS + RECORD_MS)) / 60000)} min)
+        </button>
+      </div>
+      {!cameraOn && <div className="text-amber-300">Turn the camera on to calibrate.</div>}
+
+      {results && results.length > 0 && !suggestion && <div className="text-amber-300">The model rarely recognized these signs: no suggestion. Check the lighting or capture samples for retraining.</div>}
+      {results && suggestion && (
+        <div className="p-3 rounded-lg bg-black/50 border border-white/10 flex flex-col gap-2">
+          <div className="text-sm">
+            Suggested: threshold <b>{pct(suggestion.threshold)}</b> · hold <b>{suggestion.holdMs}ms</b>
+            {suggestion.weak.length > 0 && <> · own thresholds for {suggestion.weak.map((r) => `${r.label} ${pct(suggestion.labelThresholds[labelKey(r.kind, r.label)])}`).join(', ')}</>}
+          </div>
+          {suggestion.missed.length > 0 && (
+            <div className="text-amber-300">Rarely recognized: {suggestion.missed.map((r) => r.label).join(', ')}. Consider capturing samples of these for retraining.</div>
+          )}
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="text-white/50 text-left">
+                <tr><th className="font-normal pr-3">Sign</th><th className="font-normal pr-3">On top</th><th className="font-normal pr-3">Median</th><th className="font-normal pr-3">Low (p20)</th><th className="font-normal pr-3">Onset</th><th className="font-normal">Longest hold</th></tr>
+              </thead>
+              <tbody>
+                {results.map((r) => (
+                  <tr key={labelKey(r.kind, r.label)} className={suggestion.weak.includes(r) ? 'text-amber-200' : suggestion.missed.includes(r) ? 'text-red-300' : ''}>
+                    <td className="pr-3">{r.label}</td>
+                    <td className="pr-3">{pct(r.hitRate)}</td>
+                    <td className="pr-3">{pct(r.median)}</td>
+                    <td className="pr-3">{pct(r.p20)}</td>
+                    <td className="pr-3">{r.onsetMs === null ? '—' : `${Math.round(r.onsetMs)}ms`}</td>
+                    <td>{Math.round(r.longestRunMs)}ms</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <button onClick={apply} className="px-3 py-1 rounded-md bg-teal-500 text-black font-medium hover:bg-teal-400 transition">{applied ? 'Applied' : 'Apply'}</button>
+            <input
+              value={profileName}
+              onChange={(e) => setProfileName(e.target.value)}
+              placeholder="Profile name"
+              aria-label="Profile name for the suggestion"
+              className="bg-black/60 border border-white/10 rounded-md px-2 py-1"
+            />
+            <button onClick={saveAsProfile} disabled={!profileName.trim()} className="px-3 py-1 rounded-md bg-white/10 hover:bg-white/20 disabled:opacity-40 transition">Save as profile</button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
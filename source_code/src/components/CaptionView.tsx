@@ -0,0 +1,25 @@
+import React from 'react';
+import { captionTail } from '../captions/channel';
+
+type Props = {
+  text: string;
+  live: string | null; // sign being held, shown under the caption
+  scale: number;       // font size multiplier
+};
+
+// Large, high-contrast caption for the person across the table: only the end of the transcript
+export default function CaptionView({ text, live, scale }: Props) {
+  const caption = captionTail(text);
+  return (
+    <div className="flex flex-col items-center justify-center gap-6 text-center px-6">
+      <div
+        className="font-semibold leading-tight text-white break-words max-w-full"
+        style={{ fontSize: `calc(clamp(2rem, 6vw, 5rem) * ${scale})` }}
+        aria-live="polite"
+      >
+        {caption || <span className="text-white/30">…</span>}
+      </div>
+      {live && <div className="text-white/50" style={{ fontSize: `calc(1.25rem * ${scale})` }}>signing: {live}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+import React, { useEffect } from 'react';
+import { useAslStore } from '../store/aslStore';
+import { captionsSupported, MAX_CAPTION_SCALE, MIN_CAPTION_SCALE } from '../captions/channel';
+import CaptionView from './CaptionView';
+
+type Props = {
+  text: string;
+  live: string | null;
+  onClose: () => void;
+};
+
+const SCALE_STEP = 0.25;
+
+// Full-screen caption mode of the translator window; Esc closes it. The presenter window shows the
+// same captions (and size) in a second window, e.g. on a screen facing the other person.
+export default function CaptionsOverlay({ text, live, onClose }: Props) {
+  const { captionScale, setCaptionScale } = useAslStore();
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => { if (e.key === 'Escape') onClose(); };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [onClose]);
+
+  const openPresenter = () => window.open('/captions', 'asl-captions', 'popup,width=1024,height=600');
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black text-white flex flex-col" role="dialog" aria-label="Captions">
+      <div className="flex items-center justify-end gap-2 p-3 text-sm">
+        <button onClick={() => setCaptionScale(captionScale - SCALE_STEP)} disabled={captionScale <= MIN_CAPTION_SCALE} className="px-3 py-1 rounded-md bg-white/10 hover:bg-white/20 transition disabled:opacity-40" aria-label="Smaller captions">A−</button>
+        <button onClick={() => setCaptionScale(captionScale + SCALE_STEP)} disabled={captionScale >= MAX_CAPTION_SCALE} className="px-3 py-1 rounded-md bg-white/10 hover:bg-white/20 transition disabled:opacity-40" aria-label="Larger captions">A+</button>
+        <button
+          onClick={openPresenter}
+          disabled={!captionsSupported()}
+          title={captionsSupported() ? 'Open the captions in a second window' : 'This browser cannot share captions between windows'}
+          className="px-3 py-1 rounded-md bg-white/10 hover:bg-white/20 transition disabled:opacity-40"
+        >
+          Presenter window
+        </button>
+        <button onClick={onClose} className="px-3 py-1 rounded-md bg-teal-500 text-black font-medium hover:bg-teal-400 transition">Close</button>
+      </div>
+      <div className="flex-1 flex items-center justify-center">
+        <CaptionView text={text} live={live} scale={captionScale} />
+      </div>
+    </div>
+  );
+}
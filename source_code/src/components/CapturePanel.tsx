@@ -0,0 +1,251 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { createDataset, Dataset, listDatasets, uploadSample } from '../api/datasets';
+import { isBlankLabel } from '../recognition/types';
+
+type CapturedSample = {
+  id: string;
+  label: string;
+  blob: Blob;
+  url: string;
+  status: 'pending' | 'uploading' | 'error';
+  error?: string;
+};
+
+type Props = {
+  getCanvas: () => HTMLCanvasElement | null; // live webcam canvas or its hand crop (already mirrored)
+  labels: string[];                         // labels of the currently loaded model(s)
+};
+
+const SAMPLE_SIZE = 224; // matches the Teachable Machine input size
+const NEW_LABEL = '__new__';
+
+// Center-square crop of the webcam frame, scaled to the model input size, as JPEG
+export function captureSquare(source: HTMLCanvasElement, size = SAMPLE_SIZE): Promise<Blob | null> {
+  const side = Math.min(source.width, source.height);
+  const canvas = document.createElement('canvas');
+  canvas.width = canvas.height = size;
+  const ctx = canvas.getContext('2d');
+  if (!ctx || side === 0) return Promise.resolve(null);
+  ctx.drawImage(source, (source.width - side) / 2, (source.height - side) / 2, side, side, 0, 0, size, size);
+  return new Promise((resolve) => canvas.toBlob(resolve, 'image/jpeg', 0.9));
+}
+
+const displayLabel = (l: string) => (isBlankLabel(l) ? '(blank)' : l);
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+export default function CapturePanel({ getCanvas, labels }: Props) {
+  const [datasets, setDatasets] = useState<Dataset[]>([]);
+  const [datasetId, setDatasetId] = useState<number | ''>('');
+  const [newDatasetName, setNewDatasetName] = useState('');
+  const [label, setLabel] = useState<string>(labels[0] ?? NEW_LABEL);
+  const [customLabel, setCustomLabel] = useState('');
+  const [burst, setBurst] = useState(10);
+  const [intervalMs, setIntervalMs] = useState(150);
+  const [samples, setSamples] = useState<CapturedSample[]>([]);
+  const [capturing, setCapturing] = useState(false);
+  const [uploading, setUploading] = useState(false);
+  const [message, setMessage] = useState('');
+
+  const samplesRef = useRef<CapturedSample[]>([]);
+  samplesRef.current = samples;
+
+  useEffect(() => {
+    listDatasets(true)
+      .then((list) => {
+        setDatasets(list);
+        if (list.length > 0) setDatasetId((id) => (id === '' ? list[0].id : id));
+      })
+      .catch((err) => setMessage(`Could not load datasets: ${err.message}`));
+  }, []);
+
+  // Keep the label valid when the model (and so the label set) changes
+  const labelKey = labels.join('|');
+  useEffect(() => {
+    const stale = label === NEW_LABEL ? !customLabel && labels.length > 0 : !labels.includes(label);
+    if (stale) setLabel(labels[0] ?? NEW_LABEL);
+  }, [labelKey]);
+
+  // Release thumbnail URLs on unmount
+  useEffect(() => () => samplesRef.current.forEach((s) => URL.revokeObjectURL(s.url)), []);
+
+  const effectiveLabel = label === NEW_LABEL ? customLabel.trim() : label;
+
+  const onCreateDataset = async () => {
+    const name = newDatasetName.trim();
+    if (!name) return;
+    try {
+      const ds = await createDataset(name);
+      setDatasets((list) => [ds, ...list]);
+      setDatasetId(ds.id);
+      setNewDatasetName('');
+      setMessage(`Created dataset “${ds.name}”`);
+    } catch (err: any) {
+      setMessage(`Could not create dataset: ${err.message}`);
+    }
+  };
+
+  const onBurst = async () => {
+    if (!effectiveLabel) { setMessage('Pick or enter a label first'); return; }
+    setCapturing(true);
+    setMessage('');
+    try {
+      for (let i = 0; i < burst; i++) {
+        const canvas = getCanvas();
+        if (!canvas) { setMessage('Turn the camera on to capture'); break; }
+        const blob = await captureSquare(canvas);
+        if (blob) {
+          const sample: CapturedSample = {
+            id: `${Date.now()}-${i}`,
+            label: effectiveLabel,
+            blob,
+            url: URL.createObjectURL(blob),
+            status: 'pending',
+          };
+          setSamples((list) => [...list, sample]);
+        }
+        if (i < burst - 1) await sleep(intervalMs);
+      }
+    } finally {
+      setCapturing(false);
+    }
+  };
+
+  const removeSample = (id: string) => {
+    setSamples((list) => {
+      const hit = list.find((s) => s.id === id);
+      if (hit) URL.revokeObjectURL(hit.url);
+      return list.filter((s) => s.id !== id);
+    });
+  };
+
+  const clearSamples = () => {
+    samples.forEach((s) => URL.revokeObjectURL(s.url));
+    setSamples([]);
+  };
+
+  const patchSample = (id: string, patch: Partial<CapturedSample>) =>
+    setSamples((list) => list.map((s) => (s.id === id ? { ...s, ...patch } : s)));
+
+  // Sequential upload through presign -> PUT -> sample metadata; uploaded samples leave the review list
+  const onUpload = async () => {
+    if (datasetId === '') { setMessage('Pick or create a dataset first'); return; }
+    setUploading(true);
+    let ok = 0;
+    let failed = 0;
+    for (const s of samplesRef.current.filter((x) => x.status !== 'uploading')) {
+      patchSample(s.id, { status: 'uploading', error: undefined });
+      try {
+        await uploadSample(datasetId, s.label, s.blob, `${s.label.trim() || 'blank'}-${s.id}.jpg`, 'captured in app');
+        removeSample(s.id);
+        ok++;
+      } catch (err: any) {
+        patchSample(s.id, { status: 'error', error: err.message });
+        failed++;
+      }
+    }
+    setUploading(false);
+    setMessage(`Uploaded ${ok} sample${ok === 1 ? '' : 's'}${failed ? `, ${failed} failed` : ''}`);
+  };
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex flex-wrap items-end gap-4 text-xs text-white/80">
+        <div className="flex flex-col gap-1">
+          <label htmlFor="cap-ds">Dataset</label>
+          <div className="flex gap-2">
+            <select
+              id="cap-ds"
+              value={datasetId}
+              onChange={(e) => setDatasetId(e.target.value === '' ? '' : Number(e.target.value))}
+              className="bg-black/60 border border-white/10 rounded-md px-2 py-1"
+            >
+              {datasets.length === 0 && <option value="">No datasets</option>}
+              {datasets.map((d) => <option key={d.id} value={d.id}>{d.name}</option>)}
+            </select>
+            <input
+              value={newDatasetName}
+              onChange={(e) => setNewDatasetName(e.target.value)}
+              placeholder="New dataset name"
+              className="bg-black/60 border border-white/10 rounded-md px-2 py-1"
+            />
+            <button onClick={onCreateDataset} className="px-3 py-1 rounded-md bg-white/10 hover:bg-white/20 transition">Create</button>
+          </div>
+        </div>
+
+        <div className="flex flex-col gap-1">
+          <label htmlFor="cap-label">Label</label>
+          <div className="flex gap-2">
+            <select
+              id="cap-label"
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+              className="bg-black/60 border border-white/10 rounded-md px-2 py-1"
+            >
+              {labels.map((l) => <option key={l} value={l}>{displayLabel(l)}</option>)}
+              <option value={NEW_LABEL}>New label…</option>
+            </select>
+            {label === NEW_LABEL && (
+              <input
+                value={customLabel}
+                onChange={(e) => setCustomLabel(e.target.value)}
+                placeholder="Label name"
+                className="bg-black/60 border border-white/10 rounded-md px-2 py-1 w-28"
+              />
+            )}
+          </div>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <label htmlFor="cap-n">Frames</label>
+          <input id="cap-n" type="range" min={1} max={30} value={burst} onChange={(e) => setBurst(Number(e.target.value))} />
+          <span>{burst}</span>
+        </div>
+        <div className="flex items-center gap-2">
+          <label htmlFor="cap-int">Every</label>
+          <input id="cap-int" type="range" min={50} max={1000} step={50} value={intervalMs} onChange={(e) => setIntervalMs(Number(e.target.value))} />
+          <span>{intervalMs}ms</span>
+        </div>
+
+        <button
+          onClick={onBurst}
+          disabled={capturing}
+          className="px-3 py-1 rounded-md bg-teal-500 text-black font-medium hover:bg-teal-400 transition disabled:opacity-50"
+        >
+          {capturing ? 'Capturing…' : `Capture ${burst}`}
+        </button>
+      </div>
+
+      <div className="min-h-[96px] p-2 rounded-lg bg-black/50 border border-white/10 flex flex-wrap gap-2">
+        {samples.length === 0 && <div className="text-sm text-white/50 p-2">Captured frames appear here for review before upload.</div>}
+        {samples.map((s) => (
+          <div key={s.id} className={`relative w-20 rounded-md overflow-hidden border ${s.status === 'error' ? 'border-red-500' : 'border-white/10'}`} title={s.error || displayLabel(s.label)}>
+            <img src={s.url} alt={`Sample for ${displayLabel(s.label)}`} className={`w-20 h-20 object-cover ${s.status === 'uploading' ? 'opacity-40' : ''}`} />
+            <div className="absolute bottom-0 left-0 right-0 bg-black/70 text-[10px] text-center">{displayLabel(s.label)}</div>
+            <button
+              onClick={() => removeSample(s.id)}
+              disabled={s.status === 'uploading'}
+              aria-label="Delete sample"
+              className="absolute top-0 right-0 px-1 bg-black/70 hover:bg-red-500 text-xs"
+            >
+              ×
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center justify-between text-xs text-white/70">
+        <span>{message || `${samples.length} frame${samples.length === 1 ? '' : 's'} ready`}</span>
+        <div className="flex gap-2">
+          <button onClick={clearSamples} disabled={uploading || samples.length === 0} className="px-3 py-1 rounded-md bg-white/10 hover:bg-white/20 transition disabled:opacity-50">Discard all</button>
+          <button
+            onClick={onUpload}
+            disabled={uploading || samples.length === 0 || datasetId === ''}
+            className="px-3 py-1 rounded-md bg-teal-500 text-black font-medium hover:bg-teal-400 transition disabled:opacity-50"
+          >
+            {uploading ? 'Uploading…' : 'Upload'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,66 @@
+import React, { useState } from 'react';
+import { useAslStore } from '../store/aslStore';
+import type { Completion } from '../recognition/lexicon';
+
+type Props = {
+  spelled: string;           // letters committed for the current word
+  completions: Completion[];
+  inLexicon: boolean;        // the spelled word is already a known word
+  onAccept: (index: number) => void;
+};
+
+export default function CompletionBar({ spelled, completions, inLexicon, onAccept }: Props) {
+  const { userWords, addUserWord, removeUserWord } = useAslStore();
+  const [showWords, setShowWords] = useState(false);
+  const [newWord, setNewWord] = useState('');
+
+  const onAdd = () => {
+    addUserWord(newWord);
+    setNewWord('');
+  };
+
+  return (
+    <div className="flex flex-col gap-2 text-xs text-white/80">
+      <div className="flex flex-wrap items-center gap-2 min-h-[28px]">
+        {completions.length === 0 && <span className="text-white/50">Fingerspell a word to see completions.</span>}
+        {completions.map((c, i) => (
+          <button
+            key={c.word}
+            onClick={() => onAccept(i)}
+            title={`Press ${i + 1}${i === 0 ? ' or sign “yes” (Auto mode)' : ''}`}
+            className={`px-2 py-1 rounded-md transition ${i === 0 ? 'bg-teal-500 text-black font-medium hover:bg-teal-400' : 'bg-white/10 hover:bg-white/20'}`}
+          >
+            <span className="opacity-60 mr-1">{i + 1}</span>{c.word}{c.user ? ' ★' : ''}
+          </button>
+        ))}
+        {spelled.length > 1 && !inLexicon && (
+          <button onClick={() => addUserWord(spelled)} className="px-2 py-1 rounded-md bg-white/10 hover:bg-white/20 transition">
+            Add “{spelled}” to dictionary
+          </button>
+        )}
+        <button onClick={() => setShowWords((v) => !v)} className="ml-auto text-white/50 hover:text-white transition">
+          My words ({userWords.length})
+        </button>
+      </div>
+
+      {showWords && (
+        <div className="flex flex-wrap items-center gap-2 p-2 rounded-lg bg-black/50 border border-white/10">
+          {userWords.map((w) => (
+            <span key={w} className="flex items-center gap-1 px-2 py-0.5 rounded bg-white/10">
+              {w}
+              <button onClick={() => removeUserWord(w)} aria-label={`Remove ${w}`} className="hover:text-red-400">×</button>
+            </span>
+          ))}
+          <input
+            value={newWord}
+            onChange={(e) => setNewWord(e.target.value.replace(/[^a-zA-Z]/g, ''))}
+            onKeyDown={(e) => { if (e.key === 'Enter') onAdd(); }}
+            placeholder="Add a word (names, places)"
+            className="bg-black/60 border border-white/10 rounded-md px-2 py-1"
+          />
+          <button onClick={onAdd} className="px-2 py-1 rounded-md bg-white/10 hover:bg-white/20 transition">Add</button>
+        </div>
+      )}
+    </div>
+  );
+}
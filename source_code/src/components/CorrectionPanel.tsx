@@ -0,0 +1,109 @@
+import React from 'react';
+import { useAslStore } from '../store/aslStore';
+import { CorrectionProviderId, PROVIDER_LABELS } from '../correction/providers';
+import type { Suggestion } from '../correction/session';
+
+type Props = {
+  text: string;               // live transcript (raw side)
+  preview: string;            // transcript with the pending suggestion applied
+  suggestions: readonly Suggestion[];
+  correcting: boolean;
+  onAccept: (id: number) => void;
+  onReject: (id: number) => void;
+  onCorrectNow: () => void;
+};
+
+const RECENT_RESOLVED = 5;
+
+export default function CorrectionPanel({ text, preview, suggestions, correcting, onAccept, onReject, onCorrectNow }: Props) {
+  const { correction, setCorrection } = useAslStore();
+  const pending = suggestions.filter((s) => s.status === 'pending');
+  const resolved = suggestions.filter((s) => s.status !== 'pending').slice(-RECENT_RESOLVED).reverse();
+
+  return (
+    <div className="flex flex-col gap-3 text-xs text-white/80">
+      <div className="flex flex-wrap items-center gap-3">
+        <label className="flex items-center gap-2">
+          <input type="checkbox" checked={correction.enabled} onChange={(e) => setCorrection({ enabled: e.target.checked })} />
+          Correct sentences
+        </label>
+        <select
+          aria-label="Correction provider"
+          value={correction.provider}
+          onChange={(e) => setCorrection({ provider: e.target.value as CorrectionProviderId })}
+          className="bg-black/60 border border-white/10 rounded-md px-2 py-1"
+        >
+          {(Object.keys(PROVIDER_LABELS) as CorrectionProviderId[]).map((p) => <option key={p} value={p}>{PROVIDER_LABELS[p]}</option>)}
+        </select>
+        {correction.provider === 'openai' && (
+          <>
+            <input
+              value={correction.baseUrl}
+              onChange={(e) => setCorrection({ baseUrl: e.target.value })}
+              placeholder="Base URL"
+              aria-label="Base URL"
+              className="bg-black/60 border border-white/10 rounded-md px-2 py-1 w-56"
+            />
+            <input
+              value={correction.model}
+              onChange={(e) => setCorrection({ model: e.target.value })}
+              placeholder="Model"
+              aria-label="Model"
+              className="bg-black/60 border border-white/10 rounded-md px-2 py-1 w-32"
+            />
+            <input
+              type="password"
+              value={correction.apiKey}
+              onChange={(e) => setCorrection({ apiKey: e.target.value })}
+              placeholder="API key (optional)"
+              aria-label="API key"
+              className="bg-black/60 border border-white/10 rounded-md px-2 py-1 w-36"
+            />
+          </>
+        )}
+        <button
+          onClick={onCorrectNow}
+          disabled={!correction.enabled || correcting}
+          className="ml-auto px-3 py-1 rounded-md bg-white/10 hover:bg-white/20 transition disabled:opacity-50"
+        >
+          {correcting ? 'Correcting…' : 'Correct now'}
+        </button>
+      </div>
+
+      {correction.enabled && (
+        <>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <div>
+              <div className="mb-1 text-white/50">Raw</div>
+              <div className="min-h-[64px] p-2 rounded-lg bg-black/50 border border-white/10 text-sm text-white/90 whitespace-pre-wrap">{text || '—'}</div>
+            </div>
+            <div>
+              <div className="mb-1 text-white/50">Corrected</div>
+              <div className="min-h-[64px] p-2 rounded-lg bg-black/50 border border-teal-500/40 text-sm text-white/90 whitespace-pre-wrap">{preview || '—'}</div>
+            </div>
+          </div>
+
+          {pending.map((s) => (
+            <div key={s.id} className="flex flex-wrap items-center gap-2 p-2 rounded-lg bg-black/50 border border-white/10">
+              <span className="line-through text-white/50">{s.raw}</span>
+              <span>→</span>
+              <span className="text-sm text-white">{s.corrected}</span>
+              <div className="ml-auto flex gap-2">
+                <button onClick={() => onReject(s.id)} className="px-3 py-1 rounded-md bg-white/10 hover:bg-white/20 transition">Reject</button>
+                <button onClick={() => onAccept(s.id)} className="px-3 py-1 rounded-md bg-teal-500 text-black font-medium hover:bg-teal-400 transition">Accept</button>
+              </div>
+            </div>
+          ))}
+
+          {resolved.length > 0 && (
+            <ul className="text-white/50">
+              {resolved.map((s) => (
+                <li key={s.id}>{s.status === 'accepted' ? 'Accepted' : 'Rejected'}: “{s.raw}” → “{s.corrected}”</li>
+              ))}
+            </ul>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,139 @@
+import React, { useState } from 'react';
+import type { ModelKind } from '../recognition/types';
+import { useAslStore } from '../store/aslStore';
+import { CONTROL_ACTION_LABELS, CONTROL_ACTIONS, ControlAction, controlKey } from '../recognition/controls';
+
+type Props = {
+  labels: { kind: ModelKind; label: string }[]; // signs of the loaded models that can be bound
+  onEdit: (action: ControlAction) => void;
+};
+
+const SHORTCUTS: Record<ControlAction, string> = {
+  backspace: 'Backspace',
+  deleteWord: 'Ctrl+Backspace',
+  space: 'Space',
+  undo: 'Ctrl+Z',
+  redo: 'Ctrl+Shift+Z',
+  clear: 'Ctrl+Shift+Backspace',
+};
+
+const BLANK_HOLD_OPTIONS = [0, 1000, 1500, 2000, 2500];
+
+// Transcript editing buttons, cursor position and the control-sign bindings
+export default function EditToolbar({ labels, onEdit }: Props) {
+  const { text, cursor, canUndo, canRedo, controls, setControls, setCursor } = useAslStore();
+  const [showControls, setShowControls] = useState(false);
+
+  const bind = (action: ControlAction, key: string) => {
+    const signs = { ...controls.signs };
+    // One action per sign
+    for (const a of CONTROL_ACTIONS) if (signs[a] === key) delete signs[a];
+    if (key) signs[action] = key;
+    else delete signs[action];
+    setControls({ signs, acceptSign: key && controls.acceptSign === key ? '' : controls.acceptSign });
+  };
+
+  const bindAccept = (key: string) => {
+    const signs = { ...controls.signs };
+    for (const a of CONTROL_ACTIONS) if (key && signs[a] === key) delete signs[a];
+    setControls({ signs, acceptSign: key });
+  };
+
+  const signOptions = (bound: string | undefined) => {
+    const known = labels.some((l) => controlKey(l.kind, l.label) === bound);
+    return (
+      <>
+        <option value="">None</option>
+        {bound && !known && <option value={bound}>{bound.replace(':', ': ')}</option>}
+        {labels.map((l) => {
+          const key = controlKey(l.kind, l.label);
+          return <option key={key} value={key}>{l.kind}: {l.label}</option>;
+        })}
+      </>
+    );
+  };
+
+  const disabled: Partial<Record<ControlAction, boolean>> = { undo: !canUndo, redo: !canRedo, clear: !text };
+
+  return (
+    <div className="flex flex-col gap-2 text-xs text-white/80">
+      <div className="flex flex-wrap items-center gap-2">
+        {CONTROL_ACTIONS.map((action) => (
+          <button
+            key={action}
+            onClick={() => onEdit(action)}
+            disabled={disabled[action]}
+            title={SHORTCUTS[action]}
+            className="px-2 py-1 rounded-md bg-white/10 hover:bg-white/20 transition disabled:opacity-40"
+          >
+            {CONTROL_ACTION_LABELS[action]}
+          </button>
+        ))}
+        {cursor !== null && (
+          <span className="flex items-center gap-2 text-white/60">
+            Inserting at {cursor} of {text.length}
+            <button onClick={() => setCursor(null)} className="px-2 py-1 rounded-md bg-white/10 hover:bg-white/20 transition">To end</button>
+          </span>
+        )}
+        <button onClick={() => setShowControls((v) => !v)} className="ml-auto px-2 py-1 rounded-md bg-white/10 hover:bg-white/20 transition">
+          {showControls ? 'Hide control signs' : 'Control signs'}
+        </button>
+      </div>
+
+      {showControls && (
+        <div className="p-3 rounded-lg bg-black/50 border border-white/10 flex flex-col gap-2">
+          <label className="flex items-center gap-2">
+            <input type="checkbox" checked={controls.enabled} onChange={(e) => setControls({ enabled: e.target.checked })} />
+            Use control signs (a bound sign edits the transcript instead of being written)
+          </label>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+            {CONTROL_ACTIONS.map((action) => {
+              const bound = controls.signs[action];
+              return (
+                <label key={action} className="flex items-center justify-between gap-2">
+                  <span>{CONTROL_ACTION_LABELS[action]}</span>
+                  <select
+                    aria-label={`${CONTROL_ACTION_LABELS[action]} sign`}
+                    value={bound ?? ''}
+                    onChange={(e) => bind(action, e.target.value)}
+                    disabled={!controls.enabled}
+                    className="bg-black/60 border border-white/10 rounded-md px-2 py-1 w-40"
+                  >
+                    {signOptions(bound)}
+                  </select>
+                </label>
+              );
+            })}
+            <label className="flex items-center justify-between gap-2">
+              <span>Accept completion</span>
+              <select
+                aria-label="Accept completion sign"
+                value={controls.acceptSign}
+                onChange={(e) => bindAccept(e.target.value)}
+                disabled={!controls.enabled}
+                className="bg-black/60 border border-white/10 rounded-md px-2 py-1 w-40"
+              >
+                {signOptions(controls.acceptSign || undefined)}
+              </select>
+            </label>
+            <label className="flex items-center justify-between gap-2">
+              <span>Hold blank to delete a letter</span>
+              <select
+                aria-label="Blank hold backspace"
+                value={controls.blankBackspaceMs}
+                onChange={(e) => setControls({ blankBackspaceMs: Number(e.target.value) })}
+                disabled={!controls.enabled}
+                className="bg-black/60 border border-white/10 rounded-md px-2 py-1 w-40"
+              >
+                {BLANK_HOLD_OPTIONS.map((ms) => <option key={ms} value={ms}>{ms ? `${ms / 1000}s` : 'Off'}</option>)}
+              </select>
+            </label>
+          </div>
+          <div className="text-white/50">
+            A bound sign is no longer transcribed. The accept sign takes the top completion of the word being fingerspelled. The blank hold fires once after each committed sign, so resting your hand that long after a letter deletes it: pick a hold longer than your usual pause between letters.
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,165 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Dataset, listDatasets } from '../api/datasets';
+import { isBlankLabel } from '../recognition/types';
+import type { ModelKind } from '../recognition/types';
+import { useAslStore } from '../store/aslStore';
+import type { TokenProvenance } from '../feedback/frames';
+import { feedbackSamples, flushFeedback } from '../feedback/queue';
+
+type Props = {
+  labels: Partial<Record<ModelKind, string[]>>;                 // raw labels of the loaded models
+  canFix: (p: TokenProvenance) => boolean;                      // the sign is still the end of the transcript
+  onFix: (p: TokenProvenance, label: string) => void;           // rewrites it with the correct label
+};
+
+const SHOWN = 10; // latest committed signs offered for feedback
+
+const displayLabel = (l: string) => (isBlankLabel(l) ? '(blank)' : l.trim());
+const pct = (x: number) => `${Math.round(x * 100)}%`;
+
+// "That was wrong": tap a recent sign, pick the correct label and its frames are queued as labelled
+// samples for the chosen dataset
+export default function FeedbackPanel({ labels, canFix, onFix }: Props) {
+  const { provenance, feedbackQueue, feedbackDatasetId, setFeedbackDatasetId, queueFeedback, removeFeedback } = useAslStore();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [label, setLabel] = useState('');
+  const [frames, setFrames] = useState<Set<number>>(new Set());
+  const [fix, setFix] = useState(true);
+  const [datasets, setDatasets] = useState<Dataset[] | null>(null);
+  const [message, setMessage] = useState('');
+
+  const selected = provenance.find((p) => p.id === selectedId) ?? null;
+  const choices = selected ? (labels[selected.kind] ?? []).filter((l) => l.trim() !== selected.label) : [];
+
+  // Datasets are loaded the first time a sign is picked
+  useEffect(() => {
+    if (!selected || datasets) return;
+    listDatasets(true)
+      .then((list) => {
+        setDatasets(list);
+        if (!list.some((d) => d.id === feedbackDatasetId)) setFeedbackDatasetId(list[0]?.id ?? null);
+      })
+      .catch((err) => { setDatasets([]); setMessage(`Could not load datasets: ${err.message}`); });
+  }, [selected !== null]);
+
+  const urls = useMemo(() => selected?.frames.map((f) => URL.createObjectURL(f.blob)) ?? [], [selected]);
+  useEffect(() => () => urls.forEach((u) => URL.revokeObjectURL(u)), [urls]);
+
+  const pick = (p: TokenProvenance) => {
+    if (p.id === selectedId) { setSelectedId(null); return; }
+    setSelectedId(p.id);
+    setLabel((labels[p.kind] ?? []).find((l) => l.trim() !== p.label) ?? '');
+    setFrames(new Set(p.frames.map((_, i) => i)));
+    setFix(true);
+    setMessage('');
+  };
+
+  const toggleFrame = (i: number) => setFrames((set) => {
+    const next = new Set(set);
+    if (next.has(i)) next.delete(i);
+    else next.add(i);
+    return next;
+  });
+
+  const submit = () => {
+    if (!selected || !label || feedbackDatasetId === null) return;
+    const picked = [...frames].sort((a, b) => a - b);
+    if (picked.length) queueFeedback(feedbackSamples(selected, picked, label, feedbackDatasetId));
+    if (fix && canFix(selected)) onFix(selected, label);
+    setSelectedId(null);
+    setMessage(picked.length ? `Queued ${picked.length} frame${picked.length === 1 ? '' : 's'} as ${displayLabel(label)}.` : '');
+    if (picked.length) flushFeedback().then(() => {
+      const failed = useAslStore.getState().feedbackQueue.filter((s) => s.status === 'error').length;
+      setMessage(failed ? `${failed} frame${failed === 1 ? '' : 's'} could not be uploaded.` : 'Frames uploaded.');
+    });
+  };
+
+  const recent = provenance.slice(-SHOWN);
+  const uploading = feedbackQueue.filter((s) => s.status !== 'error').length;
+  const failed = feedbackQueue.filter((s) => s.status === 'error');
+  if (recent.length === 0 && feedbackQueue.length === 0) return null;
+
+  return (
+    <div className="flex flex-col gap-2 text-xs text-white/80">
+      <div className="flex flex-wrap items-center gap-1">
+        <span className="text-white/60 mr-1">Wrong sign?</span>
+        {recent.map((p) => (
+          <button
+            key={p.id}
+            onClick={() => pick(p)}
+            title={`${displayLabel(p.label)} · ${pct(p.confidence)} · ${p.frames.length} frames`}
+            className={`px-2 py-0.5 rounded-md transition ${p.id === selectedId ? 'bg-amber-400 text-black' : 'bg-white/10 hover:bg-white/20'}`}
+          >
+            {p.text.trim() || displayLabel(p.label)}
+          </button>
+        ))}
+        {uploading > 0 && <span className="ml-2 text-white/60">Uploading {uploading} frame{uploading === 1 ? '' : 's'}…</span>}
+        {failed.length > 0 && (
+          <span className="ml-2 flex items-center gap-1 text-amber-300" title={failed[0].error}>
+            {failed.length} not uploaded
+            <button onClick={() => flushFeedback()} className="px-2 py-0.5 rounded-md bg-white/10 hover:bg-white/20 transition text-white">Retry</button>
+            <button onClick={() => failed.forEach((s) => removeFeedback(s.id))} className="px-2 py-0.5 rounded-md bg-white/10 hover:bg-red-500/40 transition text-white">Discard</button>
+          </span>
+        )}
+      </div>
+
+      {selected && (
+        <div className="flex flex-col gap-2 p-3 rounded-lg bg-black/50 border border-white/10">
+          <div className="text-white/60">
+            Committed “{displayLabel(selected.label)}” at {pct(selected.confidence)} from these frames. Untick any that do not show the sign.
+          </div>
+          <div className="flex flex-wrap gap-1">
+            {selected.frames.length === 0 && <span className="text-white/40">No frames were kept for this sign.</span>}
+            {selected.frames.map((f, i) => (
+              <button
+                key={i}
+                onClick={() => toggleFrame(i)}
+                aria-pressed={frames.has(i)}
+                title={`${displayLabel(f.label)} · ${pct(f.confidence)}`}
+                className={`relative w-16 h-16 rounded-md overflow-hidden border ${frames.has(i) ? 'border-teal-400' : 'border-white/10 opacity-40'}`}
+              >
+                <img src={urls[i]} alt={`Frame ${i + 1}`} className="w-full h-full object-cover" />
+                <span className="absolute bottom-0 left-0 right-0 bg-black/70 text-[10px]">{pct(f.confidence)}</span>
+              </button>
+            ))}
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <label className="flex items-center gap-2">
+              It was
+              <select value={label} onChange={(e) => setLabel(e.target.value)} className="bg-black/60 border border-white/10 rounded-md px-2 py-1">
+                {choices.map((l) => <option key={l} value={l}>{displayLabel(l)}</option>)}
+              </select>
+            </label>
+            <label className="flex items-center gap-2">
+              Dataset
+              <select
+                value={feedbackDatasetId ?? ''}
+                onChange={(e) => setFeedbackDatasetId(e.target.value === '' ? null : Number(e.target.value))}
+                className="bg-black/60 border border-white/10 rounded-md px-2 py-1"
+              >
+                {!datasets?.length && <option value="">{datasets ? 'No datasets' : 'Loading…'}</option>}
+                {datasets?.map((d) => <option key={d.id} value={d.id}>{d.name}</option>)}
+              </select>
+            </label>
+            {canFix(selected) && (
+              <label className="flex items-center gap-2">
+                <input type="checkbox" checked={fix} onChange={(e) => setFix(e.target.checked)} />
+                Fix the transcript
+              </label>
+            )}
+            <button
+              onClick={submit}
+              disabled={!label || feedbackDatasetId === null}
+              className="px-3 py-1 rounded-md bg-teal-500 text-black font-medium hover:bg-teal-400 disabled:opacity-40 transition"
+            >
+              Keep {frames.size} frame{frames.size === 1 ? '' : 's'}
+            </button>
+            <button onClick={() => setSelectedId(null)} className="px-3 py-1 rounded-md bg-white/10 hover:bg-white/20 transition">Cancel</button>
+            {datasets?.length === 0 && <span className="text-amber-300">Create a dataset in the Capture panel first.</span>}
+          </div>
+        </div>
+      )}
+      {message && <div className="text-white/60">{message}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,124 @@
+import React, { useEffect, useState } from 'react';
+import { deleteSession, listSessions, matchesQuery, Session, updateSession } from '../history/sessions';
+import { downloadText, EXPORT_FORMATS, ExportFormat, exportFilename, exportSession } from '../history/export';
+
+type Props = {
+  currentSessionId: string; // the live session autosaves, so it is read-only here
+};
+
+const formatDate = (ts: number) => new Date(ts).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+export default function HistoryPanel({ currentSessionId }: Props) {
+  const [sessions, setSessions] = useState<Session[]>([]);
+  const [query, setQuery] = useState('');
+  const [openId, setOpenId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState('');
+  const [draftText, setDraftText] = useState('');
+  const [message, setMessage] = useState('');
+
+  const refresh = () =>
+    listSessions()
+      .then(setSessions)
+      .catch((err) => setMessage(`Could not load history: ${err.message}`));
+
+  useEffect(() => { refresh(); }, []);
+
+  const open = (s: Session) => {
+    if (openId === s.id) { setOpenId(null); return; }
+    setOpenId(s.id);
+    setDraftTitle(s.title);
+    setDraftText(s.text);
+    setMessage('');
+  };
+
+  const onSave = async (s: Session) => {
+    try {
+      const patch = s.id === currentSessionId ? { title: draftTitle.trim() || s.title } : { title: draftTitle.trim() || s.title, text: draftText };
+      await updateSession(s.id, patch);
+      setMessage('Saved');
+      await refresh();
+    } catch (err: any) {
+      setMessage(`Could not save: ${err.message}`);
+    }
+  };
+
+  const onDelete = async (s: Session) => {
+    if (!window.confirm(`Delete “${s.title}”?`)) return;
+    try {
+      await deleteSession(s.id);
+      if (openId === s.id) setOpenId(null);
+      await refresh();
+    } catch (err: any) {
+      setMessage(`Could not delete: ${err.message}`);
+    }
+  };
+
+  const onExport = (s: Session, format: ExportFormat) =>
+    downloadText(exportFilename(s, format), exportSession(s, format), EXPORT_FORMATS[format].mime);
+
+  const visible = sessions.filter((s) => matchesQuery(s, query));
+
+  return (
+    <div className="flex flex-col gap-3 text-xs text-white/80">
+      <div className="flex items-center gap-2">
+        <input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search titles and transcripts"
+          aria-label="Search sessions"
+          className="flex-1 bg-black/60 border border-white/10 rounded-md px-2 py-1"
+        />
+        <button onClick={refresh} className="px-3 py-1 rounded-md bg-white/10 hover:bg-white/20 transition">Refresh</button>
+      </div>
+
+      <div className="rounded-lg bg-black/50 border border-white/10 divide-y divide-white/10">
+        {visible.length === 0 && (
+          <div className="p-2 text-white/50">{sessions.length === 0 ? 'Sessions are saved here automatically; Reset starts a new one.' : 'No matching sessions.'}</div>
+        )}
+        {visible.map((s) => {
+          const live = s.id === currentSessionId;
+          return (
+            <div key={s.id} className="p-2">
+              <button onClick={() => open(s)} className="w-full flex items-center gap-3 text-left">
+                <span className="text-sm text-white font-medium truncate">{s.title}</span>
+                {live && <span className="px-1.5 rounded bg-teal-500 text-black font-medium">live</span>}
+                {s.edited && <span className="text-white/50">edited</span>}
+                <span className="ml-auto text-white/50 whitespace-nowrap">{formatDate(s.startedAt)} • {s.mode}</span>
+              </button>
+              {openId !== s.id && <div className="mt-1 text-white/60 truncate">{s.text}</div>}
+
+              {openId === s.id && (
+                <div className="mt-2 flex flex-col gap-2">
+                  <input
+                    value={draftTitle}
+                    onChange={(e) => setDraftTitle(e.target.value)}
+                    aria-label="Session title"
+                    className="bg-black/60 border border-white/10 rounded-md px-2 py-1"
+                  />
+                  <textarea
+                    value={live ? s.text : draftText}
+                    onChange={(e) => setDraftText(e.target.value)}
+                    readOnly={live}
+                    rows={4}
+                    aria-label="Transcript"
+                    title={live ? 'The live session is edited from the translation panel' : undefined}
+                    className="bg-black/60 border border-white/10 rounded-md px-2 py-1 leading-relaxed"
+                  />
+                  <div className="flex flex-wrap items-center gap-2">
+                    <button onClick={() => onSave(s)} className="px-3 py-1 rounded-md bg-teal-500 text-black font-medium hover:bg-teal-400 transition">Save</button>
+                    <span className="ml-2 text-white/50">Export</span>
+                    {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map((f) => (
+                      <button key={f} onClick={() => onExport(s, f)} className="px-2 py-1 rounded-md bg-white/10 hover:bg-white/20 transition">{EXPORT_FORMATS[f].label}</button>
+                    ))}
+                    <button onClick={() => onDelete(s)} className="ml-auto px-3 py-1 rounded-md bg-white/10 hover:bg-red-500 hover:text-black transition">Delete</button>
+                  </div>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+      {message && <div className="text-white/70">{message}</div>}
+    </div>
+  );
+}
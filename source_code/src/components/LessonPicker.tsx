@@ -0,0 +1,48 @@
+import React from 'react';
+import { Lesson, REVIEW_SIZE } from '../practice/lessons';
+import type { LessonBest } from '../practice/progress';
+
+type Props = {
+  lessons: Lesson[];
+  available: (lesson: Lesson) => number; // prompts the loaded model can check; 0 = lesson unavailable
+  bests: Record<string, LessonBest>;
+  onStart: (lesson: Lesson) => void;
+};
+
+const EXERCISE_LABELS: Record<Lesson['exercise'], string> = {
+  sign: 'Sign',
+  spell: 'Spelling',
+  drill: 'Timed drill',
+  review: 'Spaced review',
+};
+
+export default function LessonPicker({ lessons, available, bests, onStart }: Props) {
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+      {lessons.map((lesson) => {
+        const count = available(lesson);
+        const best = bests[lesson.id];
+        return (
+          <button
+            key={lesson.id}
+            onClick={() => onStart(lesson)}
+            disabled={count === 0}
+            className="text-left p-3 rounded-lg bg-black/50 border border-white/10 hover:border-teal-400 disabled:opacity-40 disabled:hover:border-white/10 transition"
+          >
+            <div className="flex items-center justify-between gap-2">
+              <span className="font-medium">{lesson.title}</span>
+              <span className="text-[11px] px-2 py-0.5 rounded-full bg-white/10 text-white/70">
+                {EXERCISE_LABELS[lesson.exercise]}{lesson.durationMs ? ` · ${lesson.durationMs / 1000}s` : ''}
+              </span>
+            </div>
+            <div className="mt-1 text-xs text-white/60">{lesson.description}</div>
+            <div className="mt-2 text-[11px] text-white/50">
+              {lesson.exercise === 'review' ? `up to ${Math.min(count, REVIEW_SIZE)}` : count} {lesson.exercise === 'spell' ? 'words' : 'signs'}
+              {best ? ` · best streak ${best.bestStreak}${lesson.durationMs ? ` · best score ${best.bestCorrect}` : ''}` : ''}
+            </div>
+          </button>
+        );
+      })}
+    </div>
+  );
+}
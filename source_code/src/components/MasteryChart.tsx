@@ -0,0 +1,49 @@
+import React from 'react';
+import type { LabelMastery } from '../api/practice';
+
+type Props = {
+  mastery: LabelMastery[];
+  labels?: string[]; // bars to draw, in order; defaults to the labels in `mastery`
+  title?: string;
+};
+
+const barColor = (m: number) => (m >= 0.7 ? 'bg-teal-400' : m >= 0.4 ? 'bg-amber-400' : 'bg-red-500');
+
+// One bar per label: height is mastery (0..1), colour buckets weak / learning / solid.
+// Labels never practised are drawn as an empty outline.
+export default function MasteryChart({ mastery, labels, title = 'Mastery' }: Props) {
+  const byLabel = new Map(mastery.map((m) => [m.label, m]));
+  const shown = labels ?? mastery.map((m) => m.label);
+
+  if (shown.length === 0) return <div className="text-sm text-white/60">No practice history yet.</div>;
+
+  return (
+    <div className="p-3 rounded-lg bg-black/50 border border-white/10">
+      <div className="flex items-center justify-between text-xs text-white/60 mb-2">
+        <span>{title}</span>
+        <span className="flex items-center gap-2">
+          <span className="inline-block w-2 h-2 rounded-sm bg-red-500" /> weak
+          <span className="inline-block w-2 h-2 rounded-sm bg-amber-400" /> learning
+          <span className="inline-block w-2 h-2 rounded-sm bg-teal-400" /> solid
+        </span>
+      </div>
+      <div className="flex items-end gap-1 h-28 overflow-x-auto" role="list" aria-label={title}>
+        {shown.map((label) => {
+          const m = byLabel.get(label);
+          const pct = Math.round((m?.mastery ?? 0) * 100);
+          const detail = m
+            ? `${label}: mastery ${pct}% · ${m.correct}/${m.attempts} correct`
+            : `${label}: not practised yet`;
+          return (
+            <div key={label} role="listitem" title={detail} aria-label={detail} className="flex flex-col items-center justify-end h-full min-w-[1.5rem] flex-1">
+              <div className="w-full flex-1 flex items-end rounded-sm border border-white/10">
+                {m && <div className={`w-full rounded-sm ${barColor(m.mastery)}`} style={{ height: `${Math.max(4, pct)}%` }} />}
+              </div>
+              <div className="mt-1 text-[10px] text-white/70 truncate max-w-[3rem]">{label}</div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
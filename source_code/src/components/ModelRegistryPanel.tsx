@@ -0,0 +1,137 @@
+import React, { useEffect, useState } from 'react';
+import { listModels, ModelChoice, ModelVersion, promoteModel, rollbackModel } from '../api/models';
+import type { ModelKind } from '../recognition/types';
+import { useAslStore } from '../store/aslStore';
+
+type Props = {
+  loadedVersions: Partial<Record<ModelKind, string>>; // version actually running per kind
+};
+
+const KINDS: ModelKind[] = ['letters', 'words'];
+const KIND_LABELS: Record<ModelKind, string> = { letters: 'Letters', words: 'Words' };
+
+const formatDate = (ts: number | null) => (ts ? new Date(ts).toLocaleString() : '—');
+const formatAccuracy = (m: ModelVersion) => {
+  const acc = m.metrics?.val_accuracy ?? m.metrics?.accuracy;
+  return typeof acc === 'number' ? `${(acc * 100).toFixed(1)}%` : '—';
+};
+
+export default function ModelRegistryPanel({ loadedVersions }: Props) {
+  const { modelChoice, setModelChoice } = useAslStore();
+  const [versions, setVersions] = useState<Record<ModelKind, ModelVersion[]>>({ letters: [], words: [] });
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState('');
+
+  const refresh = async () => {
+    try {
+      const list = await listModels();
+      setVersions({
+        letters: list.filter((m) => m.kind === 'letters'),
+        words: list.filter((m) => m.kind === 'words'),
+      });
+    } catch (err: any) {
+      setMessage(`Could not load model registry: ${err.message}`);
+    }
+  };
+
+  useEffect(() => { refresh(); }, []);
+
+  const run = async (action: () => Promise<string>) => {
+    setBusy(true);
+    try {
+      setMessage(await action());
+      await refresh();
+    } catch (err: any) {
+      setMessage(err.message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const onPromote = (m: ModelVersion) =>
+    run(async () => {
+      await promoteModel(m.id);
+      return `Promoted ${m.kind} ${m.version}`;
+    });
+
+  const onRollback = (kind: ModelKind) =>
+    run(async () => {
+      const res = await rollbackModel(kind);
+      return `Rolled back ${kind} ${res.rolled_back.version}; active is now ${res.active?.version ?? 'bundled'}`;
+    });
+
+  return (
+    <div className="flex flex-col gap-4 text-xs text-white/80">
+      {KINDS.map((kind) => (
+        <div key={kind} className="flex flex-col gap-2">
+          <div className="flex flex-wrap items-center gap-3">
+            <span className="text-sm font-medium text-white">{KIND_LABELS[kind]}</span>
+            <span className="text-white/60">running {loadedVersions[kind] ?? 'not loaded'}</span>
+            <label htmlFor={`model-${kind}`} className="ml-auto">This device uses</label>
+            <select
+              id={`model-${kind}`}
+              value={modelChoice[kind]}
+              onChange={(e) => setModelChoice(kind, e.target.value as ModelChoice)}
+              className="bg-black/60 border border-white/10 rounded-md px-2 py-1"
+            >
+              <option value="active">Active (server)</option>
+              <option value="bundled">Bundled</option>
+              {versions[kind].map((m) => <option key={m.id} value={String(m.id)}>{m.version}</option>)}
+            </select>
+            <button
+              onClick={() => onRollback(kind)}
+              disabled={busy || !versions[kind].some((m) => m.active)}
+              className="px-3 py-1 rounded-md bg-white/10 hover:bg-white/20 transition disabled:opacity-50"
+            >
+              Rollback
+            </button>
+          </div>
+
+          <div className="rounded-lg bg-black/50 border border-white/10 overflow-x-auto">
+            {versions[kind].length === 0 ? (
+              <div className="p-2 text-white/50">No registered versions; the bundled model is used.</div>
+            ) : (
+              <table className="w-full text-left">
+                <thead className="text-white/50">
+                  <tr>
+                    <th className="px-2 py-1">Version</th>
+                    <th className="px-2 py-1">Val. accuracy</th>
+                    <th className="px-2 py-1">Dataset</th>
+                    <th className="px-2 py-1">Created</th>
+                    <th className="px-2 py-1">State</th>
+                    <th className="px-2 py-1" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {versions[kind].map((m) => (
+                    <tr key={m.id} className="border-t border-white/10">
+                      <td className="px-2 py-1 font-mono">{m.version}</td>
+                      <td className="px-2 py-1">{formatAccuracy(m)}</td>
+                      <td className="px-2 py-1">{m.source_dataset_id ?? '—'}</td>
+                      <td className="px-2 py-1">{formatDate(m.created_at)}</td>
+                      <td className="px-2 py-1">
+                        {m.active ? <span className="text-teal-400">active</span> : m.rolled_back_at ? `rolled back ${formatDate(m.rolled_back_at)}` : ''}
+                      </td>
+                      <td className="px-2 py-1 text-right">
+                        {!m.active && (
+                          <button
+                            onClick={() => onPromote(m)}
+                            disabled={busy}
+                            className="px-2 py-0.5 rounded-md bg-teal-500 text-black font-medium hover:bg-teal-400 transition disabled:opacity-50"
+                          >
+                            Promote
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </div>
+      ))}
+      {message && <div className="text-white/70">{message}</div>}
+    </div>
+  );
+}
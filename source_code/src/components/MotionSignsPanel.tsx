@@ -0,0 +1,176 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { labelKey } from '../recognition/types';
+import type { ModelKind } from '../recognition/types';
+import { useAslStore } from '../store/aslStore';
+import { buildTemplate, MAX_MOTION_DISTANCE, MIN_MOTION_DISTANCE, MotionTake, MotionTemplate, TAKE_READY_MS, TAKE_RECORD_MS } from '../recognition/motion';
+
+type Props = {
+  labels: { kind: ModelKind; label: string }[]; // signs of the loaded models, suggested as motion labels
+  kinds: ModelKind[];                           // models the current mode runs
+  layout: string;                               // layoutKey of the live features; other templates are inactive
+  cameraOn: boolean;
+  onRecord: (take: MotionTake | null) => void;  // routes frame features to the take instead of the transcript
+};
+
+const TAKES = 3;
+
+const newTemplateId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+type Recording = { kind: ModelKind; label: string; take: MotionTake; index: number; saved: number };
+
+// Motion signs recorded by the signer: several takes per sign, matched live by MotionRecognizer
+export default function MotionSignsPanel({ labels, kinds, layout, cameraOn, onRecord }: Props) {
+  const { motion, setMotion, motionTemplates, addMotionTemplate, deleteMotionTemplates } = useAslStore();
+  const [kind, setKind] = useState<ModelKind>(kinds[0]);
+  const [label, setLabel] = useState('');
+  const [message, setMessage] = useState('');
+  const recordingRef = useRef<Recording | null>(null);
+  const [, setVersion] = useState(0); // bumped every animation frame while recording
+  const recording = recordingRef.current;
+
+  useEffect(() => {
+    if (!kinds.includes(kind)) setKind(kinds[0]);
+  }, [kinds.join()]);
+
+  const stop = (note: string) => {
+    recordingRef.current = null;
+    onRecord(null);
+    setMessage(note);
+  };
+
+  // Countdown, then the next take once one is recorded
+  useEffect(() => {
+    if (!recording) return;
+    let raf = 0;
+    const loop = () => {
+      const current = recordingRef.current;
+      if (!current) return;
+      if (current.take.state(performance.now()).phase === 'done') {
+        const template = buildTemplate(current.take.samples, { kind: current.kind, label: current.label }, layout, newTemplateId(), Date.now());
+        if (template) addMotionTemplate(template);
+        const saved = current.saved + (template ? 1 : 0);
+        if (current.index + 1 >= TAKES) {
+          stop(`Saved ${saved} of ${TAKES} takes of ${current.label}.${saved < TAKES ? ' Takes without a clear movement were skipped.' : ''}`);
+          return;
+        }
+        const take = new MotionTake(performance.now());
+        recordingRef.current = { ...current, take, index: current.index + 1, saved };
+        onRecord(take);
+      }
+      setVersion((v) => v + 1);
+      raf = requestAnimationFrame(loop);
+    };
+    raf = requestAnimationFrame(loop);
+    return () => cancelAnimationFrame(raf);
+  }, [recording === null]);
+
+  // Leaving the panel mid-recording gives the frames back to the transcript
+  useEffect(() => () => { if (recordingRef.current) onRecord(null); }, []);
+
+  const start = () => {
+    const name = label.trim();
+    if (!name) return;
+    const take = new MotionTake(performance.now());
+    recordingRef.current = { kind, label: kind === 'letters' ? name.toUpperCase() : name, take, index: 0, saved: 0 };
+    onRecord(take);
+    setMessage('');
+    setVersion((v) => v + 1);
+  };
+
+  // One row per sign: its takes, whether they fit the running models and hand crop
+  const groups = new Map<string, MotionTemplate[]>();
+  for (const t of motionTemplates) {
+    const key = `${labelKey(t.kind, t.label)}\n${t.layout}`;
+    groups.set(key, [...(groups.get(key) ?? []), t]);
+  }
+
+  if (recording) {
+    const { phase, remainingMs } = recording.take.state(performance.now());
+    return (
+      <div className="flex flex-col items-center gap-3 p-4 rounded-lg bg-black/50 border border-white/10" aria-live="polite">
+        <div className="text-xs text-white/60">Take {recording.index + 1} of {TAKES}</div>
+        <div className="text-5xl font-semibold">{recording.label}</div>
+        <div className={`text-sm ${phase === 'recording' ? 'text-teal-300' : 'text-white/70'}`}>
+          {phase === 'recording' ? `Sign it now… ${(remainingMs / 1000).toFixed(1)}s` : `Get ready: ${(remainingMs / 1000).toFixed(1)}s`}
+        </div>
+        <button onClick={() => stop('Recording cancelled; takes already recorded were kept.')} className="px-3 py-1 rounded-md bg-white/10 hover:bg-white/20 transition text-xs">Cancel</button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-3 text-xs text-white/80">
+      <div className="flex flex-wrap items-center gap-4">
+        <label className="flex items-center gap-2">
+          <input type="checkbox" checked={motion.enabled} onChange={(e) => setMotion({ enabled: e.target.checked })} />
+          Recognize motion signs
+        </label>
+        <label className="flex items-center gap-2" title="How far a movement may differ from your takes and still match">
+          Tolerance
+          <input
+            type="range"
+            min={MIN_MOTION_DISTANCE}
+            max={MAX_MOTION_DISTANCE}
+            step={0.05}
+            value={motion.maxDistance}
+            onChange={(e) => setMotion({ maxDistance: Number(e.target.value) })}
+            aria-label="Motion match tolerance"
+          />
+          <span className="w-10 font-mono">{motion.maxDistance.toFixed(2)}</span>
+        </label>
+      </div>
+
+      <div className="text-white/60">
+        Record {TAKES} takes of a sign that moves (J, Z, “thank you”): {TAKE_READY_MS / 1000}s to get ready, then sign it once within {TAKE_RECORD_MS / 1000}s. A recognized movement replaces the still letter the classifier wrote for its first pose. Hand crop makes the hand's path part of the match.
+      </div>
+      <div className="flex flex-wrap items-center gap-2">
+        {kinds.length > 1 && (
+          <select
+            aria-label="Model the sign commits as"
+            value={kind}
+            onChange={(e) => setKind(e.target.value as ModelKind)}
+            className="bg-black/60 border border-white/10 rounded-md px-2 py-1"
+          >
+            {kinds.map((k) => <option key={k} value={k}>{k}</option>)}
+          </select>
+        )}
+        <input
+          value={label}
+          onChange={(e) => setLabel(e.target.value)}
+          list="motion-labels"
+          placeholder={kind === 'letters' ? 'Letter, e.g. J' : 'Word, e.g. thankyou'}
+          aria-label="Motion sign label"
+          className="bg-black/60 border border-white/10 rounded-md px-2 py-1 w-40"
+        />
+        <datalist id="motion-labels">
+          {labels.filter((l) => l.kind === kind).map((l) => <option key={labelKey(l.kind, l.label)} value={l.label} />)}
+        </datalist>
+        <button
+          onClick={start}
+          disabled={!cameraOn || !label.trim()}
+          className="px-3 py-1 rounded-md bg-teal-500 text-black font-medium hover:bg-teal-400 disabled:opacity-40 transition"
+        >
+          Record {TAKES} takes
+        </button>
+        {!cameraOn && <span className="text-amber-300">Turn the camera on to record.</span>}
+      </div>
+      {message && <div className="text-white/60">{message}</div>}
+
+      {groups.size === 0 && <div className="text-white/40">No motion signs recorded yet.</div>}
+      {[...groups.values()].map((takes) => {
+        const { kind: k, label: l, layout: recordedWith } = takes[0];
+        const active = recordedWith === layout;
+        return (
+          <div key={`${labelKey(k, l)}\n${recordedWith}`} className={`flex items-center gap-2 ${active ? '' : 'text-white/40'}`}>
+            <span className="w-28 truncate">{k}: {l}</span>
+            <span className="flex-1">
+              {takes.length} take{takes.length === 1 ? '' : 's'} · ~{Math.round(takes.reduce((a, t) => a + t.durationMs, 0) / takes.length)}ms
+              {!active && ' · recorded with other models or hand crop setting: inactive'}
+            </span>
+            <button onClick={() => deleteMotionTemplates(takes.map((t) => t.id))} className="px-2 py-0.5 rounded-md bg-white/10 hover:bg-red-500/40 transition">Delete</button>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,26 @@
+import React from 'react';
+import { NavLink } from 'react-router-dom';
+
+const LINKS = [
+  { to: '/', label: 'Translate' },
+  { to: '/video', label: 'Video' },
+  { to: '/practice', label: 'Practice' },
+  { to: '/students', label: 'Students' },
+];
+
+export default function NavLinks() {
+  return (
+    <nav className="flex items-center gap-1 text-sm" aria-label="Main">
+      {LINKS.map((l) => (
+        <NavLink
+          key={l.to}
+          to={l.to}
+          end
+          className={({ isActive }) => `px-3 py-1 rounded-md transition ${isActive ? 'bg-teal-500 text-black font-medium' : 'bg-white/10 hover:bg-white/20'}`}
+        >
+          {l.label}
+        </NavLink>
+      ))}
+    </nav>
+  );
+}
@@ -0,0 +1,70 @@
+import React, { useState } from 'react';
+import type { Prompt, PracticeStats } from '../practice/session';
+import { HANDSHAPES } from '../practice/hints';
+import { signMediaUrl, useSignMedia } from '../playback/media';
+
+type Props = {
+  prompt: Prompt;
+  stats: PracticeStats;
+  accuracy: number;
+  timeLeftMs: number;                   // Infinity for untimed lessons
+  feedback: 'correct' | 'wrong' | null; // flash after a committed sign
+  hint: string | null;
+  onSkip: () => void;
+  onEnd: () => void;
+};
+
+export default function PracticeCard({ prompt, stats, accuracy, timeLeftMs, feedback, hint, onSkip, onEnd }: Props) {
+  const letter = prompt.word ? prompt.word[prompt.index!] : null;
+  const substituted = letter !== null && letter !== prompt.label;
+  const flash = feedback === 'correct' ? 'border-teal-400' : feedback === 'wrong' ? 'border-red-500' : 'border-white/10';
+  const media = useSignMedia();
+  const [broken, setBroken] = useState<Record<string, boolean>>({});
+  const image = signMediaUrl(media, prompt.kind, prompt.label);
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex flex-wrap items-center gap-4 text-xs text-white/70">
+        <span>Streak <span className="font-semibold text-white">{stats.streak}</span></span>
+        <span>Best <span className="font-semibold text-white">{stats.bestStreak}</span></span>
+        <span>Correct <span className="font-semibold text-white">{stats.correct}/{stats.attempts}</span> ({Math.round(accuracy * 100)}%)</span>
+        {stats.wordsSpelled > 0 && <span>Words <span className="font-semibold text-white">{stats.wordsSpelled}</span></span>}
+        {Number.isFinite(timeLeftMs) && (
+          <span className={`ml-auto font-mono text-sm ${timeLeftMs < 10_000 ? 'text-red-400' : 'text-white'}`}>{Math.ceil(timeLeftMs / 1000)}s</span>
+        )}
+      </div>
+
+      <div className={`p-6 rounded-lg bg-black/50 border-2 ${flash} transition-colors text-center`}>
+        <div className="text-xs uppercase tracking-wide text-white/50">{prompt.word ? 'Spell' : 'Sign'}</div>
+        {prompt.word ? (
+          <div className="mt-2 text-5xl font-semibold tracking-[0.3em]" aria-label={`Spell ${prompt.word}, letter ${prompt.index! + 1}`}>
+            {[...prompt.word].map((ch, i) => (
+              <span key={i} className={i < prompt.index! ? 'text-teal-400' : i === prompt.index ? 'text-white underline underline-offset-8' : 'text-white/30'}>{ch}</span>
+            ))}
+          </div>
+        ) : (
+          <div className="mt-2 text-6xl font-semibold">{prompt.label}</div>
+        )}
+        {substituted && <div className="mt-2 text-xs text-white/60">The model has no {letter}: sign its still handshape ({prompt.label}).</div>}
+      </div>
+
+      {/* Reference: the sign's illustration when the media manifest lists one, and its handshape description */}
+      <div className="p-3 rounded-lg bg-white/5 border border-white/10 text-sm flex items-center gap-3">
+        {image && !broken[image] && (
+          <img src={image} alt={`${prompt.label} in ASL`} className="h-24 rounded-md" onError={() => setBroken((b) => ({ ...b, [image]: true }))} />
+        )}
+        <div>
+          <div className="text-xs text-white/50 mb-1">How to sign {prompt.label}</div>
+          {HANDSHAPES[prompt.label] ?? 'No reference for this sign yet.'}
+        </div>
+      </div>
+
+      {hint && <div className="p-3 rounded-lg bg-amber-400/10 border border-amber-400/40 text-amber-200 text-sm" role="status">{hint}</div>}
+
+      <div className="flex items-center gap-2">
+        <button onClick={onSkip} className="px-3 py-1 rounded-md bg-white/10 hover:bg-white/20 transition">Skip</button>
+        <button onClick={onEnd} className="px-3 py-1 rounded-md bg-white/10 hover:bg-white/20 transition">End lesson</button>
+      </div>
+    </div>
+  );
+}
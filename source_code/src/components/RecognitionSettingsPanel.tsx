@@ -0,0 +1,182 @@
+import React, { useRef, useState } from 'react';
+import { labelKey } from '../recognition/types';
+import { useAslStore } from '../store/aslStore';
+import { downloadText } from '../history/export';
+import {
+  DEFAULT_RECOGNITION_SETTINGS,
+  LABEL_THRESHOLD_LIMITS,
+  parseProfile,
+  pickSettings,
+  profileToJSON,
+  RecognitionSettings,
+  SETTING_LIMITS,
+} from '../settings/recognition';
+import type { CalibrationRun, CalibrationTarget } from '../settings/calibration';
+import CalibrationWizard from './CalibrationWizard';
+
+type Props = {
+  labels: CalibrationTarget[]; // signs of the loaded models
+  cameraOn: boolean;
+  onCalibrate: (run: CalibrationRun | null) => void;
+};
+
+type TimingKey = 'releaseMs' | 'letterGapMs' | 'wordGapMs';
+
+const TIMINGS: { key: TimingKey; label: string; title: string; step: number }[] = [
+  { key: 'releaseMs', label: 'Release', title: 'Low-confidence time before the same sign can commit again', step: 50 },
+  { key: 'letterGapMs', label: 'Letter gap', title: 'Pause after a letter that ends the fingerspelled word with a space', step: 250 },
+  { key: 'wordGapMs', label: 'Word repeat gap', title: 'Minimum time before the same word sign is written again', step: 500 },
+];
+
+const fileName = (name: string) => `${name.replace(/[^\w-]+/g, '_') || 'profile'}.asl-profile.json`;
+
+// Everything that tunes recognition on this device: timings, per-sign thresholds, named profiles
+// (saved locally, exported and imported as JSON) and the calibration wizard
+export default function RecognitionSettingsPanel({ labels, cameraOn, onCalibrate }: Props) {
+  const state = useAslStore();
+  const { labelThresholds, threshold, profiles, setRecognitionSettings, setLabelThreshold, saveProfile, applyProfile, deleteProfile } = state;
+  const [profileName, setProfileName] = useState('');
+  const [newLabel, setNewLabel] = useState('');
+  const [message, setMessage] = useState('');
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const overrides = Object.keys(labelThresholds).sort();
+
+  const exportProfile = (name: string, settings: RecognitionSettings) =>
+    downloadText(fileName(name), profileToJSON(name, settings), 'application/json');
+
+  const importProfile = async (file: File) => {
+    try {
+      const { name, settings } = parseProfile(await file.text(), file.name.replace(/\..*$/, ''));
+      saveProfile(name, settings);
+      setMessage(`Imported “${name}”. Apply it to use it.`);
+    } catch (err) {
+      setMessage(`Could not import ${file.name}: ${(err as Error).message}`);
+    }
+  };
+
+  const save = () => {
+    if (!profileName.trim()) return;
+    saveProfile(profileName);
+    setMessage(`Saved “${profileName.trim()}”.`);
+    setProfileName('');
+  };
+
+  return (
+    <div className="flex flex-col gap-4 text-xs text-white/80">
+      {/* Timings beyond threshold and hold, which stay next to the webcam */}
+      <div className="flex flex-wrap items-center gap-4">
+        {TIMINGS.map(({ key, label, title, step }) => (
+          <label key={key} className="flex items-center gap-2" title={title}>
+            {label}
+            <input
+              type="range"
+              min={SETTING_LIMITS[key].min}
+              max={SETTING_LIMITS[key].max}
+              step={step}
+              value={state[key]}
+              onChange={(e) => setRecognitionSettings({ [key]: Number(e.target.value) })}
+              aria-label={label}
+            />
+            <span className="w-14 font-mono">{state[key]}ms</span>
+          </label>
+        ))}
+        <button
+          onClick={() => setRecognitionSettings(DEFAULT_RECOGNITION_SETTINGS)}
+          className="ml-auto px-2 py-1 rounded-md bg-white/10 hover:bg-white/20 transition"
+        >
+          Reset to defaults
+        </button>
+      </div>
+
+      {/* Per-sign thresholds override the global one for signs the model is less sure of */}
+      <div className="flex flex-col gap-2">
+        <div className="text-white/60">Per-sign thresholds (global {Math.round(threshold * 100)}%)</div>
+        {overrides.length === 0 && <div className="text-white/40">None: every sign uses the global threshold.</div>}
+        {overrides.map((key) => (
+          <div key={key} className="flex items-center gap-2">
+            <span className="w-28 truncate" title={key}>{key.replace(':', ': ')}</span>
+            <input
+              type="range"
+              min={LABEL_THRESHOLD_LIMITS.min * 100}
+              max={LABEL_THRESHOLD_LIMITS.max * 100}
+              value={Math.round(labelThresholds[key] * 100)}
+              onChange={(e) => setLabelThreshold(key, Number(e.target.value) / 100)}
+              aria-label={`${key} threshold`}
+            />
+            <span className="w-10 font-mono">{Math.round(labelThresholds[key] * 100)}%</span>
+            <button onClick={() => setLabelThreshold(key, null)} className="px-2 py-0.5 rounded-md bg-white/10 hover:bg-white/20 transition">Remove</button>
+          </div>
+        ))}
+        <div className="flex items-center gap-2">
+          <select
+            aria-label="Sign to give its own threshold"
+            value={newLabel}
+            onChange={(e) => setNewLabel(e.target.value)}
+            className="bg-black/60 border border-white/10 rounded-md px-2 py-1 w-40"
+          >
+            <option value="">Choose a sign…</option>
+            {labels
+              .filter((l) => !(labelKey(l.kind, l.label) in labelThresholds))
+              .map((l) => {
+                const key = labelKey(l.kind, l.label);
+                return <option key={key} value={key}>{l.kind}: {l.label}</option>;
+              })}
+          </select>
+          <button
+            onClick={() => { setLabelThreshold(newLabel, threshold); setNewLabel(''); }}
+            disabled={!newLabel}
+            className="px-2 py-1 rounded-md bg-white/10 hover:bg-white/20 disabled:opacity-40 transition"
+          >
+            Add
+          </button>
+        </div>
+      </div>
+
+      {/* Profiles: one per signer, camera or room */}
+      <div className="flex flex-col gap-2">
+        <div className="text-white/60">Profiles</div>
+        {profiles.map((p) => (
+          <div key={p.name} className="flex items-center gap-2">
+            <span className="flex-1 truncate" title={`saved ${new Date(p.savedAt).toLocaleString()}`}>
+              {p.name} <span className="text-white/40">· {Math.round(p.settings.threshold * 100)}% · {p.settings.holdMs}ms · {Object.keys(p.settings.labelThresholds).length} per-sign</span>
+            </span>
+            <button onClick={() => { applyProfile(p.name); setMessage(`Applied “${p.name}”.`); }} className="px-2 py-0.5 rounded-md bg-teal-500 text-black hover:bg-teal-400 transition">Apply</button>
+            <button onClick={() => exportProfile(p.name, p.settings)} className="px-2 py-0.5 rounded-md bg-white/10 hover:bg-white/20 transition">Export</button>
+            <button onClick={() => deleteProfile(p.name)} className="px-2 py-0.5 rounded-md bg-white/10 hover:bg-red-500/40 transition">Delete</button>
+          </div>
+        ))}
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            value={profileName}
+            onChange={(e) => setProfileName(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter') save(); }}
+            placeholder="Profile name"
+            aria-label="Profile name"
+            className="bg-black/60 border border-white/10 rounded-md px-2 py-1"
+          />
+          <button onClick={save} disabled={!profileName.trim()} className="px-2 py-1 rounded-md bg-white/10 hover:bg-white/20 disabled:opacity-40 transition">Save current</button>
+          <button onClick={() => exportProfile(profileName.trim() || 'current', pickSettings(state))} className="px-2 py-1 rounded-md bg-white/10 hover:bg-white/20 transition">Export current</button>
+          <button onClick={() => fileRef.current?.click()} className="px-2 py-1 rounded-md bg-white/10 hover:bg-white/20 transition">Import…</button>
+          <input
+            ref={fileRef}
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              e.target.value = '';
+              if (file) importProfile(file);
+            }}
+          />
+        </div>
+        {message && <div className="text-white/60">{message}</div>}
+      </div>
+
+      <div className="flex flex-col gap-2">
+        <div className="text-white/60">Calibration</div>
+        <CalibrationWizard labels={labels} cameraOn={cameraOn} onCalibrate={onCalibrate} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,145 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import type { ModelKind } from '../recognition/types';
+import { useAslStore } from '../store/aslStore';
+import { fetchModelLabels } from '../api/models';
+import { planSigns, SignStep } from '../playback/plan';
+import { MAX_SPEED, MIN_SPEED, SignPlayer } from '../playback/player';
+import { HANDSHAPES } from '../practice/hints';
+import { SignMedia, signMediaUrl, useSignMedia } from '../playback/media';
+
+// Signs listed in the media manifest show their image; the rest (and broken files) show the text card
+function SignCard({ step, media }: { step: SignStep | null; media: SignMedia }) {
+  const [missing, setMissing] = useState<Record<string, boolean>>({});
+  if (!step) return <div className="text-white/40">Type something to sign.</div>;
+  if (step.type === 'gap') return <div className="text-4xl text-white/30">·</div>;
+
+  const label = step.label;
+  const shown = step.type === 'word' ? step.text : step.char;
+  const url = label ? signMediaUrl(media, step.kind, label) : null;
+  return (
+    <div className="flex flex-col items-center gap-2">
+      {url && !missing[url] ? (
+        <img src={url} alt={`${shown} in ASL`} className="max-h-48 rounded-md" onError={() => setMissing((m) => ({ ...m, [url]: true }))} />
+      ) : (
+        <div className={`${step.type === 'word' ? 'text-5xl' : 'text-7xl'} font-semibold`}>{shown}</div>
+      )}
+      <div className="text-xs uppercase tracking-wide text-white/50">
+        {step.type === 'word' ? 'Word sign' : `Fingerspell ${step.text.toUpperCase()} · letter ${step.index + 1} of ${step.text.replace(/'/g, '').length}`}
+      </div>
+      <div className="text-sm text-white/80 text-center max-w-md">
+        {label === null
+          ? `The letters model has no sign for “${shown}”; spell it out or write it.`
+          : <>
+            {step.type === 'letter' && label !== step.char && <span className="text-white/60">No {step.char} in the model: sign its still handshape ({label}). </span>}
+            {HANDSHAPES[label] ?? 'No reference for this sign yet.'}
+          </>}
+      </div>
+    </div>
+  );
+}
+
+// Text → sign: type English, play it back as word signs and fingerspelling
+export default function SignPlaybackPanel() {
+  const { modelChoice } = useAslStore();
+  const [text, setText] = useState('');
+  const [labels, setLabels] = useState<Record<ModelKind, string[]>>({ letters: [], words: [] });
+  const playerRef = useRef(new SignPlayer());
+  const [, setVersion] = useState(0); // bumped whenever the player changes
+  const refresh = () => setVersion((v) => v + 1);
+  const player = playerRef.current;
+  const media = useSignMedia();
+
+  // Same label sets the recognizer uses: the metadata.json of the chosen model versions
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([fetchModelLabels('letters', modelChoice.letters), fetchModelLabels('words', modelChoice.words)])
+      .then(([letters, words]) => { if (!cancelled) setLabels({ letters, words }); });
+    return () => { cancelled = true; };
+  }, [modelChoice.letters, modelChoice.words]);
+
+  const steps = useMemo(() => planSigns(text, labels.words, labels.letters), [text, labels]);
+  useEffect(() => {
+    player.load(steps, performance.now());
+    refresh();
+  }, [steps]);
+
+  // Drive the player while it plays
+  useEffect(() => {
+    if (!player.playing) return;
+    let raf = 0;
+    const loop = () => {
+      if (player.tick(performance.now())) refresh();
+      if (player.playing) raf = requestAnimationFrame(loop);
+    };
+    raf = requestAnimationFrame(loop);
+    return () => cancelAnimationFrame(raf);
+  }, [player.playing]);
+
+  const act = (fn: (now: number) => void) => {
+    fn(performance.now());
+    refresh();
+  };
+
+  const signs = steps.filter((s) => s.type !== 'gap').length;
+  const words = steps.filter((s) => s.type === 'word').length;
+
+  return (
+    <div className="flex flex-col gap-3">
+      <textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        rows={2}
+        placeholder="Type a reply, e.g. “thank you, I want to help”"
+        className="w-full p-3 rounded-lg bg-black/50 border border-white/10 focus:border-teal-400 outline-none text-sm"
+        aria-label="Text to sign"
+      />
+
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <button onClick={() => act((now) => (player.playing ? player.pause() : player.play(now)))} disabled={!steps.length} className="px-3 py-1 rounded-md bg-teal-500 text-black font-medium hover:bg-teal-400 disabled:opacity-40 transition">
+          {player.playing ? 'Pause' : 'Play'}
+        </button>
+        <button onClick={() => act((now) => player.step(-1, now))} disabled={!steps.length} className="px-3 py-1 rounded-md bg-white/10 hover:bg-white/20 disabled:opacity-40 transition" aria-label="Previous sign">◀ Step</button>
+        <button onClick={() => act((now) => player.step(1, now))} disabled={!steps.length} className="px-3 py-1 rounded-md bg-white/10 hover:bg-white/20 disabled:opacity-40 transition" aria-label="Next sign">Step ▶</button>
+        <label className="flex items-center gap-1 text-xs text-white/70">
+          <input type="checkbox" checked={player.loop} onChange={(e) => { player.loop = e.target.checked; refresh(); }} /> Loop
+        </label>
+        <label className="flex items-center gap-2 text-xs text-white/70 ml-auto">
+          Speed
+          <input
+            type="range"
+            min={MIN_SPEED}
+            max={MAX_SPEED}
+            step={0.25}
+            value={player.speed}
+            onChange={(e) => act((now) => player.setSpeed(Number(e.target.value), now))}
+            aria-label="Playback speed"
+          />
+          <span className="w-10 font-mono">{player.speed.toFixed(2)}×</span>
+        </label>
+      </div>
+
+      <div className="min-h-[220px] p-4 rounded-lg bg-black/50 border border-white/10 flex items-center justify-center" aria-live="polite">
+        <SignCard key={player.index} step={player.current} media={media} />
+      </div>
+
+      {/* Whole sequence; click a sign to jump to it */}
+      {steps.length > 0 && (
+        <div className="flex flex-wrap gap-1 text-xs">
+          {steps.map((s, i) => s.type === 'gap' ? <span key={i} className="w-2" /> : (
+            <button
+              key={i}
+              onClick={() => act((now) => player.seek(i, now))}
+              className={`px-2 py-0.5 rounded ${i === player.index ? 'bg-teal-500 text-black' : s.label === null ? 'bg-red-500/20 text-red-200' : s.type === 'word' ? 'bg-white/20' : 'bg-white/10'}`}
+              title={s.type === 'word' ? `word sign: ${s.label}` : s.label === null ? 'no sign' : `letter ${s.label}`}
+            >
+              {s.type === 'word' ? s.text : s.char}
+            </button>
+          ))}
+        </div>
+      )}
+      <div className="text-xs text-white/50">
+        {signs} signs · {words} word signs, the rest fingerspelled · vocabulary: {labels.words.filter((l) => l.trim()).length} words, {labels.letters.filter((l) => l.trim()).length} letters
+      </div>
+    </div>
+  );
+}
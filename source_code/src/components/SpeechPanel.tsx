@@ -0,0 +1,61 @@
+import React, { useEffect, useState } from 'react';
+import { useAslStore } from '../store/aslStore';
+import { cancelSpeech, listVoices, speak, speechSupported, SpeechTrigger, toSpeech, TRIGGER_LABELS } from '../speech/tts';
+
+type Props = {
+  text: string; // transcript read by "Speak all"
+};
+
+// Spoken output settings; words are spoken as they finish by useTranscriptSpeech
+export default function SpeechPanel({ text }: Props) {
+  const { speech, setSpeech } = useAslStore();
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    listVoices().then((v) => { if (!cancelled) setVoices(v); });
+    return () => { cancelled = true; };
+  }, []);
+
+  if (!speechSupported()) return <div className="text-xs text-white/50">Speech output is not available in this browser.</div>;
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 text-xs text-white/80">
+      <label className="flex items-center gap-2">
+        <input type="checkbox" checked={speech.enabled} onChange={(e) => { setSpeech({ enabled: e.target.checked }); if (!e.target.checked) cancelSpeech(); }} />
+        Speak
+      </label>
+      <select
+        aria-label="When to speak"
+        value={speech.trigger}
+        onChange={(e) => setSpeech({ trigger: e.target.value as SpeechTrigger })}
+        className="bg-black/60 border border-white/10 rounded-md px-2 py-1"
+      >
+        {(Object.keys(TRIGGER_LABELS) as SpeechTrigger[]).map((t) => <option key={t} value={t}>{TRIGGER_LABELS[t]}</option>)}
+      </select>
+      <select
+        aria-label="Voice"
+        value={speech.voiceURI ?? ''}
+        onChange={(e) => setSpeech({ voiceURI: e.target.value || null })}
+        className="bg-black/60 border border-white/10 rounded-md px-2 py-1 max-w-[14rem]"
+      >
+        <option value="">Default voice</option>
+        {voices.map((v) => <option key={v.voiceURI} value={v.voiceURI}>{v.name} ({v.lang})</option>)}
+      </select>
+      <label className="flex items-center gap-2">
+        Rate
+        <input type="range" min={0.5} max={2} step={0.1} value={speech.rate} onChange={(e) => setSpeech({ rate: Number(e.target.value) })} aria-label="Speech rate" />
+        <span className="w-8 font-mono">{speech.rate.toFixed(1)}</span>
+      </label>
+      <label className="flex items-center gap-2">
+        Pitch
+        <input type="range" min={0} max={2} step={0.1} value={speech.pitch} onChange={(e) => setSpeech({ pitch: Number(e.target.value) })} aria-label="Speech pitch" />
+        <span className="w-8 font-mono">{speech.pitch.toFixed(1)}</span>
+      </label>
+      <div className="ml-auto flex gap-2">
+        <button onClick={() => { cancelSpeech(); speak(toSpeech(text), speech); }} disabled={!text.trim()} className="px-3 py-1 rounded-md bg-white/10 hover:bg-white/20 transition disabled:opacity-50">Speak all</button>
+        <button onClick={cancelSpeech} className="px-3 py-1 rounded-md bg-white/10 hover:bg-white/20 transition">Stop</button>
+      </div>
+    </div>
+  );
+}
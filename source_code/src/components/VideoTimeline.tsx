@@ -0,0 +1,77 @@
+import React, { useRef } from 'react';
+import type { CommittedToken } from '../recognition/engine';
+import type { TimelinePoint } from '../video/transcribe';
+import { formatTimestamp } from '../history/export';
+
+type Props = {
+  points: TimelinePoint[];
+  tokens: CommittedToken[];
+  durationMs: number;
+  currentMs: number;
+  threshold: number;
+  onSeek: (ms: number) => void;
+};
+
+const HEIGHT = 80;
+
+// Confidence of every sampled frame over the video, committed signs above it and the playhead;
+// click or drag to scrub the video
+export default function VideoTimeline({ points, tokens, durationMs, currentMs, threshold, onSeek }: Props) {
+  const ref = useRef<HTMLDivElement>(null);
+  const width = Math.max(1, durationMs);
+  const x = (t: number) => `${(t / width) * 100}%`;
+
+  const seekAt = (clientX: number) => {
+    const box = ref.current?.getBoundingClientRect();
+    if (!box || !box.width) return;
+    onSeek(Math.min(1, Math.max(0, (clientX - box.left) / box.width)) * durationMs);
+  };
+
+  // Sampled frame under the playhead
+  let at: TimelinePoint | null = null;
+  for (const p of points) {
+    if (p.t > currentMs) break;
+    at = p;
+  }
+
+  const path = points.map((p) => `${(p.t / width) * 1000},${HEIGHT - p.confidence * HEIGHT}`).join(' ');
+  const shown = tokens.filter((t) => t.kind !== 'space');
+
+  return (
+    <div className="flex flex-col gap-1 text-xs">
+      <div className="relative h-5">
+        {shown.map((t, i) => (
+          <span key={i} className="absolute -translate-x-1/2 px-1 rounded bg-teal-500/30 text-teal-100 whitespace-nowrap" style={{ left: x(t.timestamp) }} title={`${formatTimestamp(t.timestamp)} · ${Math.round(t.confidence * 100)}%`}>
+            {t.text}
+          </span>
+        ))}
+      </div>
+      <div
+        ref={ref}
+        className="relative rounded-md bg-black/50 border border-white/10 cursor-pointer select-none"
+        style={{ height: HEIGHT }}
+        onPointerDown={(e) => { e.currentTarget.setPointerCapture(e.pointerId); seekAt(e.clientX); }}
+        onPointerMove={(e) => { if (e.buttons & 1) seekAt(e.clientX); }}
+        role="slider"
+        aria-label="Video timeline"
+        aria-valuemin={0}
+        aria-valuemax={Math.round(durationMs)}
+        aria-valuenow={Math.round(currentMs)}
+      >
+        <svg viewBox={`0 0 1000 ${HEIGHT}`} preserveAspectRatio="none" className="absolute inset-0 w-full h-full">
+          <line x1={0} x2={1000} y1={HEIGHT - threshold * HEIGHT} y2={HEIGHT - threshold * HEIGHT} stroke="rgba(251,191,36,0.5)" strokeDasharray="4 4" vectorEffect="non-scaling-stroke" />
+          <polyline points={path} fill="none" stroke="rgba(255,255,255,0.6)" strokeWidth={1} vectorEffect="non-scaling-stroke" />
+          {points.filter((p) => p.accepted).map((p) => (
+            <line key={p.t} x1={(p.t / width) * 1000} x2={(p.t / width) * 1000} y1={HEIGHT} y2={HEIGHT - p.confidence * HEIGHT} stroke="rgba(20,184,166,0.5)" vectorEffect="non-scaling-stroke" />
+          ))}
+        </svg>
+        <div className="absolute top-0 bottom-0 w-px bg-amber-400 pointer-events-none" style={{ left: x(currentMs) }} />
+      </div>
+      <div className="flex justify-between text-white/60">
+        <span>{formatTimestamp(currentMs)}</span>
+        <span>{at ? `${at.label || 'blank'} · ${Math.round(at.confidence * 100)}%${at.accepted || !at.label ? '' : ' (below threshold)'}` : '—'}</span>
+        <span>{formatTimestamp(durationMs)}</span>
+      </div>
+    </div>
+  );
+}
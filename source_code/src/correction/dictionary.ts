@@ -0,0 +1,38 @@
+// Small English lexicon for the offline corrector: everyday conversation words plus the words the
+// words model knows. Fingerspelled words within one edit of exactly one entry are corrected to it.
+export const COMMON_WORDS: string[] = `
+a about after again all also always am an and any are as ask at away back bad be because bed been before
+best better big book both boy bring brother but buy by call came can car cat come could cup dad day did
+do does dog done door down drink each eat end even every eye family far fast father feel few find fine
+first food for friend from fun game gave get girl give go going good got great had happy has have he
+hear hello help her here hi him his home hot house how hungry i if in is it its job just keep kind
+know last late learn leave left let life like little live long look lot love made make man many may me
+mean meet milk mom money more morning most mother much must my name need never new next nice night no
+not now of off ok okay old on once one only open or other our out over own people place play please
+put read ready really right room run sad said same saw say school see she shoe should show sick sign
+sister sit sleep slow small so some sorry start still stop store study sure take talk teacher tell
+thank thanks that the their them then there these they thing think this those time tired to today
+together told tomorrow too try two under understand up us use very wait walk want was water way we
+week well went were what when where which who why will with woman word work would write wrong year yes
+yesterday yet you young your
+`.trim().split(/\s+/);
+
+// Glosses and run-together fingerspelling mapped to English
+export const GLOSS_REPLACEMENTS: Record<string, string> = {
+  thankyou: 'thank you',
+  iloveyou: 'I love you',
+  loveyou: 'love you',
+  goodmorning: 'good morning',
+  goodnight: 'good night',
+  seeyou: 'see you',
+  seeyoulater: 'see you later',
+  nicetomeetyou: 'nice to meet you',
+  howareyou: 'how are you',
+  myname: 'my name',
+  whatsup: "what's up",
+  im: "I'm",
+  dont: "don't",
+  cant: "can't",
+};
+
+export const QUESTION_WORDS = new Set(['what', 'where', 'when', 'why', 'who', 'how', 'which']);
@@ -0,0 +1,57 @@
+import { editDistance } from '../recognition/metrics';
+import type { SegmentPosition } from '../api/nlp';
+import { COMMON_WORDS, GLOSS_REPLACEMENTS, QUESTION_WORDS } from './dictionary';
+
+const LEXICON = new Set(COMMON_WORDS);
+
+// "HELLLO" -> "HELO": a letter held past the release time commits twice
+const collapseRepeats = (w: string) => w.replace(/(.)\1+/g, '$1');
+
+// "NAEM" -> "NAME": neighbouring letters committed out of order
+function transpositions(w: string): string[] {
+  const out: string[] = [];
+  for (let i = 0; i < w.length - 1; i++) out.push(w.slice(0, i) + w[i + 1] + w[i] + w.slice(i + 2));
+  return out;
+}
+
+// Closest lexicon word for a fingerspelled word: exact, run-together gloss, repeat-collapsed, one
+// swapped pair, or the single entry one edit away. Unknown words (names, places) are returned as null.
+export function spellCorrect(word: string): string | null {
+  const w = word.toLowerCase();
+  if (LEXICON.has(w)) return w;
+  if (GLOSS_REPLACEMENTS[w]) return GLOSS_REPLACEMENTS[w];
+  const collapsed = collapseRepeats(w);
+  if (collapsed !== w) {
+    const hit = COMMON_WORDS.find((c) => collapseRepeats(c) === collapsed);
+    if (hit) return hit;
+  }
+  if (w.length < 3) return null;
+  const swapped = transpositions(w).find((t) => LEXICON.has(t));
+  if (swapped) return swapped;
+  const near = COMMON_WORDS.filter((c) => Math.abs(c.length - w.length) <= 1 && editDistance(c, w) === 1);
+  return near.length === 1 ? near[0] : null;
+}
+
+// Rule/dictionary corrector that needs no network: fixes fingerspelling near-misses, expands glosses,
+// drops doubled commits, and applies sentence case and final punctuation where `position` says the
+// segment starts / ends its sentence.
+export function correctOffline(raw: string, position: SegmentPosition = {}): string {
+  const { startsSentence = true, endsSentence = true } = position;
+  const words: string[] = [];
+  for (const token of raw.trim().split(/\s+/).filter(Boolean)) {
+    const fingerspelled = /^[A-Z]{2,}$/.test(token);
+    const word = fingerspelled
+      ? spellCorrect(token) ?? token[0] + token.slice(1).toLowerCase() // unknown: treat as a name
+      : token.toLowerCase() === 'i' ? 'I' : GLOSS_REPLACEMENTS[token.toLowerCase()] ?? token;
+    for (const part of word.split(' ')) {
+      if (words.length && words[words.length - 1].toLowerCase() === part.toLowerCase()) continue;
+      words.push(part === 'i' ? 'I' : part);
+    }
+  }
+  if (words.length === 0) return raw.trim();
+  const first = words[0].toLowerCase();
+  if (startsSentence) words[0] = words[0][0].toUpperCase() + words[0].slice(1);
+  let sentence = words.join(' ');
+  if (endsSentence && !/[.?!]$/.test(sentence)) sentence += QUESTION_WORDS.has(first) ? '?' : '.';
+  return sentence;
+}
@@ -0,0 +1,102 @@
+import { generateText } from 'ai';
+import { createOpenAI } from '@ai-sdk/openai';
+import { correctionPrompt, correctSentence } from '../api/nlp';
+import type { SegmentPosition } from '../api/nlp';
+import { correctOffline } from './offline';
+
+export type CorrectionProviderId = 'remote' | 'openai' | 'offline';
+
+export interface CorrectionProvider {
+  id: CorrectionProviderId;
+  label: string;
+  requiresNetwork: boolean;
+  correct(raw: string, signal?: AbortSignal, position?: SegmentPosition): Promise<string>;
+}
+
+export type CorrectionSettings = {
+  enabled: boolean;            // off = strict letter-by-letter output
+  provider: CorrectionProviderId;
+  baseUrl: string;             // OpenAI-compatible endpoint, e.g. a local mock server
+  apiKey: string;
+  model: string;
+};
+
+export const DEFAULT_CORRECTION_SETTINGS: CorrectionSettings = {
+  enabled: false,
+  provider: 'offline',
+  baseUrl: 'http://127.0.0.1:11434/v1',
+  apiKey: '',
+  model: 'gpt-4o-mini',
+};
+
+export const PROVIDER_LABELS: Record<CorrectionProviderId, string> = {
+  remote: 'Hosted AI',
+  openai: 'OpenAI-compatible',
+  offline: 'Offline rules',
+};
+
+const SYSTEM_PROMPT =
+  'You are an expert ASL-to-English correction assistant. You receive raw ASL transcription tokens (letters or words). ' +
+  'Convert them into grammatically correct, fluent English. Preserve intended meaning, avoid adding unrelated content, and return only the corrected sentence.';
+
+// The hosted model configured in yw_manifest.json (see correctSentence); throws when it cannot
+// correct (no configuration, offline, cooling down, request failed) so the fallback takes over
+export const remoteProvider: CorrectionProvider = {
+  id: 'remote',
+  label: PROVIDER_LABELS.remote,
+  requiresNetwork: true,
+  correct: (raw, _signal, position) => correctSentence(raw, { variables: { mode: 'asl' }, position, throwOnFailure: true }),
+};
+
+export const offlineProvider: CorrectionProvider = {
+  id: 'offline',
+  label: PROVIDER_LABELS.offline,
+  requiresNetwork: false,
+  correct: async (raw, _signal, position) => correctOffline(raw, position),
+};
+
+export function createOpenAICompatibleProvider(baseUrl: string, apiKey: string, model: string): CorrectionProvider {
+  const openai = createOpenAI({ baseURL: baseUrl.replace(/\/+$/, ''), apiKey: apiKey || 'not-needed' });
+  return {
+    id: 'openai',
+    label: PROVIDER_LABELS.openai,
+    requiresNetwork: true,
+    correct: async (raw, signal, position) => {
+      const { text } = await generateText({
+        model: openai.chat(model),
+        system: SYSTEM_PROMPT,
+        prompt: correctionPrompt(raw, position),
+        temperature: 0.2,
+        maxTokens: 400,
+        abortSignal: signal,
+      });
+      return text.trim();
+    },
+  };
+}
+
+// Network providers fall back to the offline corrector when offline or when the request fails
+export function withOfflineFallback(provider: CorrectionProvider): CorrectionProvider {
+  if (!provider.requiresNetwork) return provider;
+  return {
+    ...provider,
+    correct: async (raw, signal, position) => {
+      if (typeof navigator !== 'undefined' && navigator.onLine === false) return offlineProvider.correct(raw, signal, position);
+      try {
+        return await provider.correct(raw, signal, position);
+      } catch (err: any) {
+        if (signal?.aborted) throw err;
+        console.warn(`${provider.label} correction failed, using offline rules:`, err?.message || err);
+        return offlineProvider.correct(raw, signal, position);
+      }
+    },
+  };
+}
+
+export function createProvider(settings: CorrectionSettings): CorrectionProvider {
+  switch (settings.provider) {
+    case 'remote': return withOfflineFallback(remoteProvider);
+    case 'openai': return withOfflineFallback(createOpenAICompatibleProvider(settings.baseUrl, settings.apiKey, settings.model));
+    case 'offline': return offlineProvider;
+  }
+}
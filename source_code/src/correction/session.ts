@@ -0,0 +1,81 @@
+// Tracks correction suggestions against the live transcript. Each suggestion covers a character range
+// [start, end) of it, which stays valid only while signs are appended at the end: any edit (typing,
+// cursor moves, control signs, undo) resets the session from the edited text (afterEdit ->
+// resetCorrections), and accept() re-checks the range. Text after the last resolved (accepted or
+// rejected) suggestion is the open segment; every word boundary re-proposes a correction for the whole
+// open segment, replacing the pending suggestion so the provider sees growing context.
+export type SuggestionStatus = 'pending' | 'accepted' | 'rejected';
+
+export type Suggestion = {
+  id: number;
+  start: number;
+  end: number;
+  raw: string;
+  corrected: string;
+  status: SuggestionStatus;
+};
+
+export class CorrectionSession {
+  private items: Suggestion[] = [];
+  private resolvedEnd = 0;
+  private nextId = 1;
+
+  get suggestions(): readonly Suggestion[] {
+    return this.items;
+  }
+
+  get pending(): Suggestion | undefined {
+    return this.items.find((s) => s.status === 'pending');
+  }
+
+  // The text a correction request should cover, or null when there is nothing new
+  openSegment(text: string): { start: number; end: number; raw: string } | null {
+    const start = Math.min(this.resolvedEnd, text.length);
+    const raw = text.slice(start);
+    if (!raw.trim()) return null;
+    const lead = raw.length - raw.trimStart().length;
+    return { start: start + lead, end: start + raw.trimEnd().length, raw: raw.trim() };
+  }
+
+  // Records a provider answer for `segment`; an unchanged answer just clears the pending suggestion
+  propose(segment: { start: number; end: number; raw: string }, corrected: string): Suggestion | null {
+    this.items = this.items.filter((s) => s.status !== 'pending');
+    if (!corrected.trim() || corrected.trim() === segment.raw) return null;
+    const suggestion: Suggestion = { id: this.nextId++, ...segment, corrected: corrected.trim(), status: 'pending' };
+    this.items.push(suggestion);
+    return suggestion;
+  }
+
+  // Applies a suggestion to `text`; returns the new transcript, or null if the range no longer matches
+  accept(id: number, text: string): string | null {
+    const s = this.items.find((x) => x.id === id && x.status === 'pending');
+    if (!s || text.slice(s.start, s.end) !== s.raw) {
+      if (s) this.items = this.items.filter((x) => x !== s);
+      return null;
+    }
+    const next = text.slice(0, s.start) + s.corrected + text.slice(s.end);
+    s.status = 'accepted';
+    this.resolvedEnd = s.start + s.corrected.length;
+    return next;
+  }
+
+  reject(id: number) {
+    const s = this.items.find((x) => x.id === id && x.status === 'pending');
+    if (!s) return;
+    s.status = 'rejected';
+    this.resolvedEnd = s.end;
+  }
+
+  // The transcript with the pending suggestion applied (the "corrected" side of the comparison)
+  preview(text: string): string {
+    const s = this.pending;
+    if (!s || text.slice(s.start, s.end) !== s.raw) return text;
+    return text.slice(0, s.start) + s.corrected + text.slice(s.end);
+  }
+
+  // Transcript replaced (reset, manual edit): start over from its current end
+  reset(text = '') {
+    this.items = [];
+    this.resolvedEnd = text.length;
+  }
+}
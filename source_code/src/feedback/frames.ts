@@ -0,0 +1,102 @@
+import { normalizeWord } from '../recognition/engine';
+import { isBlankLabel } from '../recognition/types';
+import type { ModelKind } from '../recognition/types';
+
+// Frames behind committed signs, for "that was wrong" feedback. The live loop copies every frame it
+// hands to the models into a small rolling buffer and stamps it with the engine time and top prediction
+// once classified; when a sign commits, the frames of its hold are encoded and kept with the token.
+
+export const FRAME_SIZE = 224;      // model input size, like the Capture panel's samples
+const BUFFER_FRAMES = 64;           // ~4s at 15 fps; longer than any hold
+export const MAX_TOKEN_FRAMES = 12; // frames kept per committed sign, spread over its hold
+
+export type BufferedFrame = {
+  canvas: HTMLCanvasElement;
+  t: number;          // engine timestamp of the classified frame; NaN until stamped
+  label: string;      // smoothed top prediction (trimmed)
+  confidence: number;
+};
+
+export class FrameBuffer {
+  private slots: BufferedFrame[] = [];
+  private next = 0;
+
+  constructor(private capacity = BUFFER_FRAMES) {}
+
+  // Center-square copy of the frame about to be classified; reuses the oldest slot once full
+  capture(source: HTMLCanvasElement): BufferedFrame {
+    let slot = this.slots[this.next];
+    if (!slot) {
+      const canvas = document.createElement('canvas');
+      canvas.width = canvas.height = FRAME_SIZE;
+      slot = this.slots[this.next] = { canvas, t: NaN, label: '', confidence: 0 };
+    }
+    this.next = (this.next + 1) % this.capacity;
+    const side = Math.min(source.width, source.height);
+    const ctx = slot.canvas.getContext('2d');
+    if (ctx && side > 0) ctx.drawImage(source, (source.width - side) / 2, (source.height - side) / 2, side, side, 0, 0, FRAME_SIZE, FRAME_SIZE);
+    slot.t = NaN;
+    slot.label = '';
+    slot.confidence = 0;
+    return slot;
+  }
+
+  stamp(frame: BufferedFrame, t: number, label: string, confidence: number) {
+    frame.t = t;
+    frame.label = label;
+    frame.confidence = confidence;
+  }
+
+  // Stamped frames with from <= t <= to, oldest first
+  between(from: number, to: number): BufferedFrame[] {
+    return this.slots.filter((f) => f.t >= from && f.t <= to).sort((a, b) => a.t - b.t);
+  }
+
+  clear() {
+    for (const slot of this.slots) slot.t = NaN;
+  }
+}
+
+export type ProvenanceFrame = { t: number; label: string; confidence: number; blob: Blob };
+
+// What produced one committed sign: the frames of its hold and their confidences
+export type TokenProvenance = {
+  id: string;
+  kind: ModelKind;
+  label: string;      // committed label (trimmed)
+  text: string;       // text the token added to the transcript
+  startedAt: number;  // hold start (or movement start for motion signs), engine time
+  timestamp: number;  // commit time
+  confidence: number;
+  frames: ProvenanceFrame[];
+};
+
+// At most `max` items, evenly spread and always including the last
+export function pickEvenly<T>(items: T[], max: number): T[] {
+  if (items.length <= max) return items;
+  const step = items.length / max;
+  return Array.from({ length: max }, (_, i) => items[Math.min(items.length - 1, Math.floor(items.length - 1 - (max - 1 - i) * step))]);
+}
+
+// JPEG copies of the frames; toBlob reads the canvas when called, so reused slots are safe afterwards
+export async function encodeFrames(frames: BufferedFrame[]): Promise<ProvenanceFrame[]> {
+  const encoded = frames.map((f) => ({
+    t: f.t,
+    label: f.label,
+    confidence: f.confidence,
+    blob: new Promise<Blob | null>((resolve) => f.canvas.toBlob(resolve, 'image/jpeg', 0.9)),
+  }));
+  const out: ProvenanceFrame[] = [];
+  for (const f of encoded) {
+    const blob = await f.blob;
+    if (blob) out.push({ ...f, blob });
+  }
+  return out;
+}
+
+// What the token's text becomes with the correct label, written like the engine writes it; the blank
+// class removes the sign
+export function correctedText(kind: ModelKind, label: string): string {
+  if (isBlankLabel(label)) return '';
+  return kind === 'letters' ? label.trim().toUpperCase() : normalizeWord(label.trim());
+}
@@ -0,0 +1,58 @@
+import { uploadSample } from '../api/datasets';
+import { useAslStore } from '../store/aslStore';
+import type { TokenProvenance } from './frames';
+
+// Corrected frames waiting for upload as labelled dataset samples (presign → PUT → sample row, like
+// the Capture panel). The queue lives in the store for the page's lifetime; failed uploads stay
+// queued with their error until retried or discarded.
+
+export type FeedbackSample = {
+  id: string;
+  datasetId: number;
+  label: string;        // correct label picked by the user (raw model label, blank class included)
+  wrongLabel: string;   // what was committed
+  blob: Blob;
+  status: 'pending' | 'uploading' | 'error';
+  error?: string;
+};
+
+// Selected frames (indexes into p.frames) of a wrongly committed sign, labelled with the correct sign
+export function feedbackSamples(p: TokenProvenance, frames: number[], label: string, datasetId: number): FeedbackSample[] {
+  const batch = Date.now().toString(36);
+  return frames.map((i) => ({
+    id: `${p.id}-${batch}-${i}`,
+    datasetId,
+    label,
+    wrongLabel: p.label,
+    blob: p.frames[i].blob,
+    status: 'pending' as const,
+  }));
+}
+
+let flushing: Promise<number> | null = null;
+
+// Uploads every pending or failed sample one by one; resolves with the number uploaded
+export function flushFeedback(): Promise<number> {
+  if (flushing) return flushing;
+  flushing = (async () => {
+    const { patchFeedback, removeFeedback } = useAslStore.getState();
+    let uploaded = 0;
+    const tried = new Set<string>();
+    // Samples queued while uploading are picked up in the same flush; failures are tried once per flush
+    for (;;) {
+      const s = useAslStore.getState().feedbackQueue.find((x) => x.status !== 'uploading' && !tried.has(x.id));
+      if (!s) break;
+      tried.add(s.id);
+      patchFeedback(s.id, { status: 'uploading', error: undefined });
+      try {
+        await uploadSample(s.datasetId, s.label, s.blob, `${s.label.trim() || 'blank'}-feedback-${s.id}.jpg`, `misrecognized as ${s.wrongLabel.trim() || 'blank'}`);
+        removeFeedback(s.id);
+        uploaded++;
+      } catch (err) {
+        patchFeedback(s.id, { status: 'error', error: (err as Error)?.message || String(err) });
+      }
+    }
+    return uploaded;
+  })().finally(() => { flushing = null; });
+  return flushing;
+}
@@ -0,0 +1,141 @@
+import type { Session } from './sessions';
+
+export type ExportFormat = 'txt' | 'json' | 'srt' | 'vtt' | 'md';
+
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; mime: string }> = {
+  txt: { label: 'Text', mime: 'text/plain' },
+  json: { label: 'JSON', mime: 'application/json' },
+  srt: { label: 'SRT', mime: 'application/x-subrip' },
+  vtt: { label: 'WebVTT', mime: 'text/vtt' },
+  md: { label: 'Markdown', mime: 'text/markdown' },
+};
+
+export type TimedWord = {
+  text: string;
+  start: number;      // ms since session start
+  end: number;
+  confidence: number; // mean over the word's tokens
+};
+
+export type Cue = { start: number; end: number; text: string };
+
+const CUE_MAX_CHARS = 42;   // one caption line
+const CUE_GAP_MS = 2000;    // a pause this long starts a new caption
+const CUE_LINGER_MS = 1500; // how long a caption stays after its last word
+const CUE_MIN_MS = 1000;
+
+// Words with timings from the commit timestamps. Letters accumulate until a space token; word-model
+// tokens are whole words. For an edited session the edited words take the original timings by position.
+export function timedWords(session: Session): TimedWord[] {
+  const words: TimedWord[] = [];
+  let current: { text: string; start: number; end: number; conf: number[] } | null = null;
+  const flush = () => {
+    if (current && current.text.trim()) {
+      const confidence = current.conf.reduce((a, b) => a + b, 0) / current.conf.length;
+      words.push({ text: current.text.trim(), start: current.start, end: current.end, confidence });
+    }
+    current = null;
+  };
+  for (const token of session.tokens) {
+    const t = token.timestamp - session.startedAt;
+    if (token.kind === 'space') { flush(); continue; }
+    if (token.kind === 'words') {
+      flush();
+      words.push({ text: token.text.trim(), start: t, end: t, confidence: token.confidence });
+      continue;
+    }
+    if (!current) current = { text: '', start: t, end: t, conf: [] };
+    current.text += token.text;
+    current.end = t;
+    current.conf.push(token.confidence);
+  }
+  flush();
+
+  if (!session.edited) return words;
+  // One timing slot per original word, so multi-word signs ("thank you") keep their span
+  const slots = words.flatMap((w) => w.text.split(/\s+/).map(() => w));
+  const edited = session.text.split(/\s+/).filter(Boolean);
+  const last = slots[slots.length - 1];
+  return edited.map((text, i) => {
+    const w = slots[i];
+    if (w) return { ...w, text };
+    const t = last ? last.end : 0; // words added by editing sit at the end
+    return { text, start: t, end: t, confidence: 0 };
+  });
+}
+
+export function captionCues(session: Session): Cue[] {
+  const cues: Cue[] = [];
+  let cue: { words: TimedWord[] } | null = null;
+  const close = () => {
+    if (!cue) return;
+    const first = cue.words[0];
+    const last = cue.words[cue.words.length - 1];
+    cues.push({ start: first.start, end: Math.max(last.end + CUE_LINGER_MS, first.start + CUE_MIN_MS), text: cue.words.map((w) => w.text).join(' ') });
+    cue = null;
+  };
+  for (const word of timedWords(session)) {
+    if (cue) {
+      const prev = cue.words[cue.words.length - 1];
+      const length = cue.words.reduce((n, w) => n + w.text.length + 1, 0) + word.text.length;
+      if (length > CUE_MAX_CHARS || word.start - prev.end > CUE_GAP_MS) close();
+    }
+    if (!cue) cue = { words: [] };
+    cue.words.push(word);
+  }
+  close();
+  // Captions never overlap: each ends by the time the next one starts
+  for (let i = 0; i < cues.length - 1; i++) cues[i].end = Math.min(cues[i].end, cues[i + 1].start);
+  return cues;
+}
+
+// 3723004 -> "01:02:03.004" (WebVTT) or "01:02:03,004" (SRT)
+export function formatTimestamp(ms: number, separator: '.' | ',' = '.') {
+  const t = Math.max(0, Math.round(ms));
+  const pad = (n: number, w = 2) => String(n).padStart(w, '0');
+  return `${pad(Math.floor(t / 3600000))}:${pad(Math.floor(t / 60000) % 60)}:${pad(Math.floor(t / 1000) % 60)}${separator}${pad(t % 1000, 3)}`;
+}
+
+export const toSrt = (cues: Cue[]) =>
+  cues.map((c, i) => `${i + 1}\n${formatTimestamp(c.start, ',')} --> ${formatTimestamp(c.end, ',')}\n${c.text}\n`).join('\n');
+
+export const toVtt = (cues: Cue[]) =>
+  'WEBVTT\n\n' + cues.map((c) => `${formatTimestamp(c.start)} --> ${formatTimestamp(c.end)}\n${c.text}\n`).join('\n');
+
+function toMarkdown(session: Session) {
+  const started = new Date(session.startedAt).toLocaleString();
+  const rows = timedWords(session).map((w) => `| ${formatTimestamp(w.start)} | ${w.text.replace(/\|/g, '\\|')} | ${Math.round(w.confidence * 100)}% |`);
+  return [
+    `# ${session.title}`,
+    '',
+    `_Started ${started} • ${session.mode} mode${session.edited ? ' • edited' : ''}_`,
+    '',
+    session.text.trim() || '_(empty)_',
+    '',
+    ...(rows.length ? ['## Timeline', '', '| Time | Word | Confidence |', '| --- | --- | --- |', ...rows, ''] : []),
+  ].join('\n');
+}
+
+export function exportSession(session: Session, format: ExportFormat): string {
+  switch (format) {
+    case 'txt': return session.text;
+    case 'json': return JSON.stringify(session, null, 2);
+    case 'srt': return toSrt(captionCues(session));
+    case 'vtt': return toVtt(captionCues(session));
+    case 'md': return toMarkdown(session);
+  }
+}
+
+export function exportFilename(session: Session, format: ExportFormat) {
+  const slug = session.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'session';
+  return `${slug}.${format}`;
+}
+
+export function downloadText(filename: string, text: string, type = 'text/plain') {
+  const url = URL.createObjectURL(new Blob([text], { type }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
@@ -0,0 +1,98 @@
+import type { CommittedToken } from '../recognition/engine';
+import type { RecognitionMode } from '../recognition/types';
+
+// A saved transcript. `tokens` keep the engine's commit timestamps (epoch ms) and confidences;
+// `text` starts as the tokens joined and diverges once the user edits it (`edited`).
+export type Session = {
+  id: string;
+  title: string;
+  startedAt: number;
+  updatedAt: number;
+  mode: RecognitionMode;
+  text: string;
+  tokens: CommittedToken[];
+  edited: boolean;
+};
+
+const DB_NAME = 'asl-translator';
+const DB_VERSION = 1;
+const STORE = 'sessions';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        const db = req.result;
+        if (!db.objectStoreNames.contains(STORE)) {
+          db.createObjectStore(STORE, { keyPath: 'id' }).createIndex('startedAt', 'startedAt');
+        }
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    });
+    dbPromise.catch(() => { dbPromise = null; }); // allow a retry after e.g. a blocked upgrade
+  }
+  return dbPromise;
+}
+
+async function run<T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE, mode);
+    const req = fn(tx.objectStore(STORE));
+    tx.oncomplete = () => resolve(req.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+export const newSessionId = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto ? crypto.randomUUID() : `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+
+export const defaultSessionTitle = (startedAt: number) =>
+  `Session ${new Date(startedAt).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })}`;
+
+// Newest first
+export async function listSessions(): Promise<Session[]> {
+  const all = await run<Session[]>('readonly', (s) => s.index('startedAt').getAll());
+  return all.reverse();
+}
+
+export const getSession = (id: string) => run<Session | undefined>('readonly', (s) => s.get(id));
+
+export async function saveSession(session: Session): Promise<Session> {
+  await run('readwrite', (s) => s.put(session));
+  return session;
+}
+
+export async function updateSession(id: string, patch: Partial<Pick<Session, 'title' | 'text'>>): Promise<Session> {
+  const current = await getSession(id);
+  if (!current) throw new Error('Session not found');
+  const edited = current.edited || (patch.text !== undefined && patch.text !== current.text);
+  return saveSession({ ...current, ...patch, edited, updatedAt: Date.now() });
+}
+
+// Autosave of the live transcript: keeps a title the user already gave it; accepted corrections
+// make the text differ from the raw tokens, which marks the session edited
+export async function saveLiveSession(live: Pick<Session, 'id' | 'startedAt' | 'mode' | 'text' | 'tokens'>): Promise<Session> {
+  const existing = await getSession(live.id);
+  return saveSession({
+    title: existing?.title ?? defaultSessionTitle(live.startedAt),
+    edited: live.text !== live.tokens.map((t) => t.text).join(''),
+    ...live,
+    updatedAt: Date.now(),
+  });
+}
+
+export async function deleteSession(id: string): Promise<void> {
+  await run('readwrite', (s) => s.delete(id));
+}
+
+// Case-insensitive match on title or transcript
+export function matchesQuery(session: Session, query: string) {
+  const q = query.trim().toLowerCase();
+  return !q || session.title.toLowerCase().includes(q) || session.text.toLowerCase().includes(q);
+}
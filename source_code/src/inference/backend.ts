@@ -0,0 +1,16 @@
+import * as tf from '@tensorflow/tfjs';
+
+// Prefer WebGL; gracefully fall back to CPU if unavailable (e.g., headless, restricted env, or a
+// worker without WebGL2 on OffscreenCanvas). Returns the backend in use.
+export async function initBackend(): Promise<string> {
+  try {
+    // setBackend resolves false (rather than throwing) when the backend fails to initialize
+    if (!(await tf.setBackend('webgl'))) throw new Error('WebGL backend failed to initialize');
+    await tf.ready();
+  } catch (backendErr) {
+    console.warn('WebGL backend unavailable, falling back to CPU:', backendErr);
+    await tf.setBackend('cpu');
+    await tf.ready();
+  }
+  return tf.getBackend();
+}
@@ -0,0 +1,180 @@
+import * as tmImage from '@teachablemachine/image';
+import { initBackend } from './backend';
+import type { ModelKind, Prediction } from '../recognition/types';
+import { BUNDLED_VERSION, ModelChoice, ModelSource, MODEL_PATHS, resolveModelSource } from '../api/models';
+import type { InferenceRequest, InferenceResponse, InferenceResult } from './protocol';
+
+export type { InferenceResult };
+
+const INPUT_SIZE = 224; // Teachable Machine input size; frames are cropped and scaled before transfer
+
+// Where the models run: a worker when the browser supports OffscreenCanvas and ImageBitmap
+// transfer, otherwise the main thread (the original path)
+export interface InferenceRunner {
+  readonly where: 'worker' | 'main';
+  readonly backend: string; // tfjs backend in use ('webgl' or 'cpu'); empty before init
+  init(): Promise<void>;
+  load(kind: ModelKind, source: ModelSource): Promise<string[]>; // resolves to the model's labels
+  unload(kind: ModelKind): void;
+  predict(frame: HTMLCanvasElement, kinds: ModelKind[]): Promise<InferenceResult>;
+  dispose(): void;
+}
+
+type Pending = { resolve: (res: InferenceResponse) => void; reject: (err: Error) => void };
+
+type WithoutId<T> = T extends unknown ? Omit<T, 'id'> : never;
+
+// Loads of one kind apply in the order requested, so a slow earlier load never replaces a later one
+class LoadQueue {
+  private tails: Partial<Record<ModelKind, Promise<unknown>>> = {};
+
+  run<T>(kind: ModelKind, load: () => Promise<T>): Promise<T> {
+    const next = (this.tails[kind] ?? Promise.resolve()).catch(() => {}).then(load);
+    this.tails[kind] = next;
+    return next;
+  }
+}
+
+export class InferenceWorker implements InferenceRunner {
+  readonly where = 'worker' as const;
+  backend = '';
+  private worker: Worker;
+  private nextId = 1;
+  private pending = new Map<number, Pending>();
+  private loads = new LoadQueue();
+
+  constructor() {
+    this.worker = new Worker(new URL('./worker.ts', import.meta.url), { type: 'module' });
+    this.worker.onmessage = (e: MessageEvent<InferenceResponse>) => this.settle(e.data);
+    // A crashed or unloadable worker fails everything in flight; startInference falls back to the main thread
+    this.worker.onerror = (e) => this.failAll(new Error(e.message || 'Inference worker failed'));
+  }
+
+  async init() {
+    const res = await this.request({ type: 'init' });
+    if (res.type === 'ready') this.backend = res.backend;
+  }
+
+  load(kind: ModelKind, source: ModelSource) {
+    return this.loads.run(kind, async () => {
+      const res = await this.request({ type: 'load', kind, source });
+      return res.type === 'loaded' ? res.labels : [];
+    });
+  }
+
+  unload(kind: ModelKind) {
+    this.loads.run(kind, () => this.request({ type: 'unload', kind })).catch(() => {});
+  }
+
+  async predict(frame: HTMLCanvasElement, kinds: ModelKind[]): Promise<InferenceResult> {
+    // Centre square scaled to the model input: the same crop TM applies, at a fraction of the transfer size
+    const side = Math.min(frame.width, frame.height);
+    const bitmap = await createImageBitmap(frame, (frame.width - side) / 2, (frame.height - side) / 2, side, side, {
+      resizeWidth: INPUT_SIZE,
+      resizeHeight: INPUT_SIZE,
+    });
+    const res = await this.request({ type: 'predict', kinds, frame: bitmap }, [bitmap]);
+    if (res.type !== 'result') throw new Error(`Unexpected inference response: ${res.type}`);
+    return { predictions: res.predictions, inferenceMs: res.inferenceMs };
+  }
+
+  dispose() {
+    this.worker.terminate();
+    this.failAll(new Error('Inference worker disposed'));
+  }
+
+  private request(body: WithoutId<InferenceRequest>, transfer: Transferable[] = []): Promise<InferenceResponse> {
+    const id = this.nextId++;
+    return new Promise((resolve, reject) => {
+      this.pending.set(id, { resolve, reject });
+      this.worker.postMessage({ ...body, id } as InferenceRequest, transfer);
+    });
+  }
+
+  private settle(res: InferenceResponse) {
+    const pending = this.pending.get(res.id);
+    if (!pending) return;
+    this.pending.delete(res.id);
+    if (res.type === 'error') pending.reject(new Error(res.message));
+    else pending.resolve(res);
+  }
+
+  private failAll(err: Error) {
+    for (const pending of this.pending.values()) pending.reject(err);
+    this.pending.clear();
+  }
+}
+
+// Main-thread fallback: the @teachablemachine/image path the app always had
+export class MainThreadInference implements InferenceRunner {
+  readonly where = 'main' as const;
+  backend = '';
+  private models: Partial<Record<ModelKind, tmImage.CustomMobileNet>> = {};
+  private loads = new LoadQueue();
+
+  async init() {
+    this.backend = await initBackend();
+  }
+
+  load(kind: ModelKind, source: ModelSource) {
+    return this.loads.run(kind, async () => {
+      const model = await tmImage.load(source.modelUrl, source.metadataUrl);
+      this.models[kind] = model;
+      return model.getClassLabels();
+    });
+  }
+
+  unload(kind: ModelKind) {
+    delete this.models[kind];
+  }
+
+  async predict(frame: HTMLCanvasElement, kinds: ModelKind[]): Promise<InferenceResult> {
+    const start = performance.now();
+    const predictions: Partial<Record<ModelKind, Prediction[]>> = {};
+    for (const kind of kinds) {
+      const model = this.models[kind];
+      if (!model) throw new Error(`Model not loaded: ${kind}`);
+      predictions[kind] = await model.predict(frame);
+    }
+    return { predictions, inferenceMs: performance.now() - start };
+  }
+
+  dispose() {
+    this.models = {};
+  }
+}
+
+export const supportsWorkerInference = () =>
+  typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined' && typeof createImageBitmap === 'function';
+
+// Worker when supported and it starts; otherwise the main thread. Both fall back from WebGL to CPU.
+export async function startInference(): Promise<InferenceRunner> {
+  if (supportsWorkerInference()) {
+    const worker = new InferenceWorker();
+    try {
+      await worker.init();
+      return worker;
+    } catch (err) {
+      console.warn('Inference worker unavailable, running models on the main thread:', err);
+      worker.dispose();
+    }
+  }
+  const main = new MainThreadInference();
+  await main.init();
+  return main;
+}
+
+// Load the registry's version for this kind (active or pinned); fall back to the bundled /assets model
+export async function loadModelWithFallback(runner: InferenceRunner, kind: ModelKind, choice: ModelChoice): Promise<{ labels: string[]; source: ModelSource }> {
+  const source = await resolveModelSource(kind, choice);
+  if (source.version !== BUNDLED_VERSION) {
+    try {
+      return { labels: await runner.load(kind, source), source };
+    } catch (err) {
+      console.warn(`Model ${kind}@${source.version} failed to load, using bundled model:`, err);
+    }
+  }
+  // No '/public' fallback; ensure assets are served under '/assets/...'
+  const bundled = MODEL_PATHS[kind];
+  return { labels: await runner.load(kind, bundled), source: bundled };
+}
@@ -0,0 +1,84 @@
+// Decides which display frames get classified. Inference starts at most every 1000/targetFps ms and
+// never while a frame is still in flight; when round trips run longer than that budget the interval
+// stretches to match, so a slow device drops frames instead of queueing them. No DOM, no timers.
+export type PerfStats = {
+  inferenceMs: number; // smoothed round trip per classified frame (transfer + model)
+  fps: number;         // frames classified over the last second
+  dropped: number;     // frames skipped over the last second because inference could not keep up
+  targetFps: number;
+};
+
+export const MIN_TARGET_FPS = 2;
+export const MAX_TARGET_FPS = 30;
+
+const WINDOW_MS = 1000;
+const HEADROOM = 1.2; // keep the next start this far behind the measured round trip
+
+export class FramePacer {
+  private targetFps: number;
+  private busy = false;
+  private startedAt = 0;
+  private avgMs = 0;
+  private completed: number[] = [];
+  private dropped: number[] = [];
+  private lastDropAt = 0;
+
+  constructor(targetFps = 15) {
+    this.targetFps = targetFps;
+  }
+
+  setTarget(fps: number) {
+    this.targetFps = Math.min(MAX_TARGET_FPS, Math.max(MIN_TARGET_FPS, fps));
+  }
+
+  // Current gap between inference starts
+  get interval() {
+    return Math.max(1000 / this.targetFps, this.avgMs * HEADROOM);
+  }
+
+  shouldRun(now: number) {
+    const since = now - this.startedAt;
+    if (!this.busy && since >= this.interval) return true;
+    // Under load: a target slot passed while inference was busy or too slow (counted once per slot)
+    const slot = 1000 / this.targetFps;
+    if (since >= slot && now - this.lastDropAt >= slot) {
+      this.dropped.push(now);
+      this.lastDropAt = now;
+    }
+    return false;
+  }
+
+  begin(now: number) {
+    this.busy = true;
+    this.startedAt = now;
+    this.lastDropAt = now;
+  }
+
+  end(now: number) {
+    const ms = now - this.startedAt;
+    this.avgMs = this.avgMs ? this.avgMs + 0.2 * (ms - this.avgMs) : ms;
+    this.busy = false;
+    this.completed.push(now);
+  }
+
+  // A failed frame frees the slot without counting as a classified frame
+  fail() {
+    this.busy = false;
+  }
+
+  stats(now: number): PerfStats {
+    const since = now - WINDOW_MS;
+    this.completed = this.completed.filter((t) => t > since);
+    this.dropped = this.dropped.filter((t) => t > since);
+    return { inferenceMs: this.avgMs, fps: this.completed.length, dropped: this.dropped.length, targetFps: this.targetFps };
+  }
+
+  reset() {
+    this.busy = false;
+    this.startedAt = 0;
+    this.avgMs = 0;
+    this.completed = [];
+    this.dropped = [];
+    this.lastDropAt = 0;
+  }
+}
@@ -0,0 +1,22 @@
+import type { ModelKind, Prediction } from '../recognition/types';
+import type { ModelSource } from '../api/models';
+
+// Messages between InferenceWorker (client.ts) and the inference worker (worker.ts). Every request
+// carries an id; the worker answers it with exactly one response of the same id.
+export type InferenceRequest =
+  | { type: 'init'; id: number }
+  | { type: 'load'; id: number; kind: ModelKind; source: ModelSource }
+  | { type: 'unload'; id: number; kind: ModelKind }
+  | { type: 'predict'; id: number; kinds: ModelKind[]; frame: ImageBitmap }; // frame is transferred
+
+export type InferenceResponse =
+  | { type: 'ready'; id: number; backend: string }
+  | { type: 'loaded'; id: number; labels: string[] }
+  | { type: 'unloaded'; id: number }
+  | { type: 'result'; id: number; predictions: Partial<Record<ModelKind, Prediction[]>>; inferenceMs: number }
+  | { type: 'error'; id: number; message: string };
+
+export type InferenceResult = {
+  predictions: Partial<Record<ModelKind, Prediction[]>>; // one entry per requested kind
+  inferenceMs: number; // model time only (no frame transfer or queueing)
+};
@@ -0,0 +1,91 @@
+// Inference worker: loads Teachable Machine models with tfjs and classifies frames transferred as
+// ImageBitmaps, so prediction never blocks the main thread. Preprocessing mirrors
+// @teachablemachine/image (square input scaled to imageSize, pixels to [-1, 1]); its own predict()
+// needs `document`, which workers do not have.
+import * as tf from '@tensorflow/tfjs';
+import { initBackend } from './backend';
+import type { ModelKind, Prediction } from '../recognition/types';
+import type { ModelSource } from '../api/models';
+import type { InferenceRequest, InferenceResponse } from './protocol';
+
+type Metadata = { labels: string[]; imageSize: number; grayscale?: boolean };
+
+type LoadedModel = {
+  model: tf.LayersModel;
+  metadata: Metadata;
+  canvas: OffscreenCanvas; // imageSize square the frame is drawn into
+};
+
+// The app's tsconfig uses the DOM lib; this is the slice of DedicatedWorkerGlobalScope used here
+const scope = self as unknown as {
+  onmessage: ((e: MessageEvent<InferenceRequest>) => void) | null;
+  postMessage(message: InferenceResponse): void;
+};
+
+const models: Partial<Record<ModelKind, LoadedModel>> = {};
+
+async function loadModel(source: ModelSource): Promise<LoadedModel> {
+  const [model, metadata] = await Promise.all([
+    tf.loadLayersModel(source.modelUrl),
+    fetch(source.metadataUrl).then((res) => {
+      if (!res.ok) throw new Error(`Metadata request failed (${res.status}): ${source.metadataUrl}`);
+      return res.json() as Promise<Metadata>;
+    }),
+  ]);
+  const size = metadata.imageSize || 224;
+  // Warm up once so shader compilation does not land on the first live frame
+  tf.tidy(() => { model.predict(tf.zeros([1, size, size, metadata.grayscale ? 1 : 3])); });
+  return { model, metadata, canvas: new OffscreenCanvas(size, size) };
+}
+
+async function classify({ model, metadata, canvas }: LoadedModel, frame: ImageBitmap): Promise<Prediction[]> {
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+  ctx.drawImage(frame, 0, 0, canvas.width, canvas.height);
+  const image = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  const logits = tf.tidy(() => {
+    let pixels = tf.browser.fromPixels(image).toFloat();
+    if (metadata.grayscale) pixels = pixels.mul(tf.tensor1d([0.2989, 0.587, 0.114])).sum(-1).expandDims(-1);
+    return model.predict(pixels.expandDims(0).div(tf.scalar(127)).sub(tf.scalar(1))) as tf.Tensor;
+  });
+  const values = await logits.data();
+  logits.dispose();
+  return metadata.labels.map((className, i) => ({ className, probability: values[i] }));
+}
+
+async function handle(req: InferenceRequest): Promise<InferenceResponse> {
+  switch (req.type) {
+    case 'init':
+      return { type: 'ready', id: req.id, backend: await initBackend() };
+    case 'load': {
+      const loaded = await loadModel(req.source);
+      models[req.kind]?.model.dispose();
+      models[req.kind] = loaded;
+      return { type: 'loaded', id: req.id, labels: loaded.metadata.labels };
+    }
+    case 'unload':
+      models[req.kind]?.model.dispose();
+      delete models[req.kind];
+      return { type: 'unloaded', id: req.id };
+    case 'predict': {
+      try {
+        const start = performance.now();
+        const predictions: Partial<Record<ModelKind, Prediction[]>> = {};
+        for (const kind of req.kinds) {
+          const loaded = models[kind];
+          if (!loaded) throw new Error(`Model not loaded: ${kind}`);
+          predictions[kind] = await classify(loaded, req.frame);
+        }
+        return { type: 'result', id: req.id, predictions, inferenceMs: performance.now() - start };
+      } finally {
+        req.frame.close();
+      }
+    }
+  }
+}
+
+scope.onmessage = (e) => {
+  const req = e.data;
+  handle(req)
+    .then((res) => scope.postMessage(res))
+    .catch((err: any) => scope.postMessage({ type: 'error', id: req.id, message: err?.message || String(err) }));
+};
@@ -0,0 +1,20 @@
+import React from 'react';
+import { captionsSupported } from '../captions/channel';
+import { useCaptionReceiver } from '../captions/useCaptionChannel';
+import CaptionView from '../components/CaptionView';
+
+// Presenter window: full-screen captions mirrored from the translator window in the same browser.
+// Opened from the Captions view; no controls, so it can face the other person.
+export default function CaptionsPage() {
+  const state = useCaptionReceiver();
+
+  return (
+    <div className="min-h-screen bg-black text-white flex items-center justify-center">
+      {!captionsSupported()
+        ? <div className="text-white/60">This browser cannot share captions between windows (no BroadcastChannel).</div>
+        : state
+          ? <CaptionView text={state.text} live={state.live} scale={state.scale} />
+          : <div className="text-white/60">Waiting for the translator window…</div>}
+    </div>
+  );
+}
@@ -0,0 +1,281 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import { isBlankLabel } from '../recognition/types';
+import type { ModelKind } from '../recognition/types';
+import type { EngineStep } from '../recognition/engine';
+import { useAslStore } from '../store/aslStore';
+import { getMastery, getPracticeQueue, LabelMastery } from '../api/practice';
+import { Lesson, LESSONS, lessonItems, REVIEW_SIZE } from '../practice/lessons';
+import { PracticeSession, PracticeStats } from '../practice/session';
+import { confusionHint } from '../practice/hints';
+import { loadBests, recordRun } from '../practice/progress';
+import { FLUSH_EVERY, flushAttempts, pendingCount, queueAttempts } from '../practice/sync';
+import { useSignRecognizer } from '../practice/useSignRecognizer';
+import NavLinks from '../components/NavLinks';
+import LessonPicker from '../components/LessonPicker';
+import PracticeCard from '../components/PracticeCard';
+import MasteryChart from '../components/MasteryChart';
+
+const KIND_LABELS: Record<ModelKind, string> = { letters: 'Letters', words: 'Words' };
+const FEEDBACK_MS = 600;
+
+type Result = { lesson: Lesson; stats: PracticeStats; accuracy: number };
+
+const sameSign = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+// Review order when the backend is unreachable: never-practised first, then weakest by local mastery
+function localReview(items: string[], mastery: LabelMastery[]): string[] {
+  const known = new Map(mastery.map((m) => [m.label, m.mastery]));
+  return [...items].sort((a, b) => (known.get(a) ?? -1) - (known.get(b) ?? -1)).slice(0, REVIEW_SIZE);
+}
+
+// Fold mastery rows returned by an upload into the ones on screen
+function mergeMastery(prev: LabelMastery[], rows: LabelMastery[]): LabelMastery[] {
+  const byKey = new Map(prev.map((m) => [`${m.kind}:${m.label}`, m]));
+  for (const m of rows) byKey.set(`${m.kind}:${m.label}`, m);
+  return [...byKey.values()];
+}
+
+export default function PracticePage() {
+  const { threshold, holdMs } = useAslStore();
+  const [kind, setKind] = useState<ModelKind>('letters');
+  const sessionRef = useRef<PracticeSession | null>(null);
+  const [, setVersion] = useState(0); // bumped whenever the session changes
+  const [now, setNow] = useState(Date.now());
+  const [feedback, setFeedback] = useState<'correct' | 'wrong' | null>(null);
+  const [hint, setHint] = useState<string | null>(null);
+  const [result, setResult] = useState<Result | null>(null);
+  const [bests, setBests] = useState(loadBests);
+  const [mastery, setMastery] = useState<LabelMastery[]>([]);
+  const [starting, setStarting] = useState(false); // review queue request in flight
+  const feedbackTimer = useRef<number | undefined>(undefined);
+  const queuedRef = useRef(0); // attempts of the current session already handed to sync
+  const kindRef = useRef(kind);
+  kindRef.current = kind;
+
+  const refresh = () => setVersion((v) => v + 1);
+
+  const flash = (kindOf: 'correct' | 'wrong') => {
+    setFeedback(kindOf);
+    window.clearTimeout(feedbackTimer.current);
+    feedbackTimer.current = window.setTimeout(() => setFeedback(null), FEEDBACK_MS);
+  };
+
+  const flush = () => {
+    flushAttempts().then((rows) => { if (rows) setMastery((prev) => mergeMastery(prev, rows)); });
+  };
+
+  // Hand new attempts to the upload queue; upload every few attempts, and always at the end of a lesson
+  const syncAttempts = (session: PracticeSession, final = false) => {
+    queueAttempts(session.attempts.slice(queuedRef.current));
+    queuedRef.current = session.attempts.length;
+    if (final || pendingCount() >= FLUSH_EVERY) flush();
+  };
+
+  const finish = () => {
+    const session = sessionRef.current;
+    if (!session) return;
+    sessionRef.current = null;
+    syncAttempts(session, true);
+    if (session.attempts.length > 0) setBests(recordRun(session.lesson.id, session.summary));
+    setResult({ lesson: session.lesson, stats: session.summary, accuracy: session.accuracy });
+    setHint(null);
+    refresh();
+  };
+
+  // Engine steps of the live camera: a hold of the wrong sign shows a hint, a commit is graded
+  const onStep = (step: EngineStep) => {
+    const session = sessionRef.current;
+    const prompt = session?.prompt;
+    if (!session || !prompt) return;
+    for (const event of step.events) {
+      if (event.type !== 'detect') continue;
+      setHint(sameSign(event.label, prompt.label) ? null : confusionHint(prompt.label, event.label));
+    }
+    for (const token of step.tokens) {
+      if (token.kind === 'space') continue;
+      const attempt = session.submit(token.label, Date.now(), token.confidence);
+      if (!attempt) continue;
+      flash(attempt.correct ? 'correct' : 'wrong');
+      if (attempt.correct) setHint(null);
+      else setHint(confusionHint(attempt.prompt.label, token.label));
+    }
+    if (step.tokens.length) {
+      syncAttempts(session);
+      if (session.isOver(Date.now())) finish();
+      else refresh();
+    }
+  };
+
+  const { hostRef, labels, status, cameraOn, seen, toggleCamera, resetEngine } = useSignRecognizer(kind, onStep);
+
+  // Review lessons ask the backend's scheduler for the queue (after uploading pending attempts)
+  const reviewItems = async (lesson: Lesson, items: string[]) => {
+    setStarting(true);
+    try {
+      await flushAttempts();
+      const queue = await getPracticeQueue(lesson.kind, items, REVIEW_SIZE);
+      return queue.map((q) => q.label).filter((l) => items.includes(l));
+    } catch (err) {
+      console.warn('practice queue unavailable, reviewing from local mastery', err);
+      return localReview(items, mastery.filter((m) => m.kind === lesson.kind));
+    } finally {
+      setStarting(false);
+    }
+  };
+
+  const start = async (lesson: Lesson) => {
+    let items = lessonItems(lesson, labels);
+    if (lesson.exercise === 'review' && items.length) items = await reviewItems(lesson, items);
+    if (items.length === 0 || lesson.kind !== kindRef.current) return;
+    resetEngine();
+    queuedRef.current = 0;
+    sessionRef.current = new PracticeSession(lesson, items, labels, Date.now());
+    setResult(null);
+    setHint(null);
+    setNow(Date.now());
+    refresh();
+  };
+
+  const skip = () => {
+    const session = sessionRef.current;
+    if (!session) return;
+    session.skip(Date.now());
+    if (session.isOver(Date.now())) {
+      finish();
+      return;
+    }
+    syncAttempts(session);
+    resetEngine();
+    setHint(null);
+    refresh();
+  };
+
+  // Leaving for the other model ends the lesson
+  const switchKind = (k: ModelKind) => {
+    if (k === kind) return;
+    finish();
+    setResult(null);
+    setKind(k);
+  };
+
+  // Drill clock
+  const session = sessionRef.current;
+  const timed = !!session?.lesson.durationMs;
+  useEffect(() => {
+    if (!timed) return;
+    const t = window.setInterval(() => {
+      setNow(Date.now());
+      if (sessionRef.current?.isOver(Date.now())) finish();
+    }, 250);
+    return () => window.clearInterval(t);
+  }, [timed, session]);
+
+  useEffect(() => () => window.clearTimeout(feedbackTimer.current), []);
+
+  // Upload anything left from earlier visits, then show mastery from the backend
+  useEffect(() => {
+    let cancelled = false;
+    flushAttempts()
+      .then(() => getMastery())
+      .then((rows) => { if (!cancelled) setMastery(rows); })
+      .catch((err) => console.warn('practice mastery unavailable', err));
+    return () => { cancelled = true; };
+  }, []);
+
+  const lessons = LESSONS.filter((l) => l.kind === kind);
+  const signable = labels.filter((l) => !isBlankLabel(l));
+
+  return (
+    <div className="min-h-screen bg-black text-white">
+      <header className="px-6 py-4 border-b border-white/10 flex items-center justify-between gap-4">
+        <motion.h1
+          initial={{ opacity: 0, y: -8 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.5 }}
+          className="text-2xl sm:text-3xl font-semibold tracking-wide"
+          style={{ textShadow: '0 0 10px rgba(0,255,200,0.6), 0 0 20px rgba(0,255,200,0.4)' }}
+        >
+          ASL Practice
+        </motion.h1>
+        <NavLinks />
+      </header>
+
+      <main className="grid grid-cols-1 lg:grid-cols-2 gap-6 p-6">
+        {/* Left: Webcam */}
+        <section className="relative rounded-xl overflow-hidden bg-white/5 border border-white/10">
+          <div className="flex items-center justify-between p-3">
+            <div className="text-sm text-white/70">{status}</div>
+            <div className="flex items-center gap-3 text-xs text-white/60">
+              <span>Threshold {Math.round(threshold * 100)}% · Hold {holdMs}ms</span>
+              <button onClick={toggleCamera} className="px-3 py-1 rounded-md bg-white/10 hover:bg-white/20 transition text-sm text-white">{cameraOn ? 'Camera Off' : 'Camera On'}</button>
+            </div>
+          </div>
+          <div className="relative">
+            <div className="aspect-[4/3] w-full bg-black" ref={hostRef} aria-label="Webcam canvas host" style={{ position: 'relative' }} />
+            <div className="absolute bottom-3 left-3 right-3 flex items-center justify-between bg-black/60 backdrop-blur-sm rounded-lg px-4 py-2 text-sm">
+              <div><span className="text-white/80">Detected:</span> <span className="font-semibold">{seen?.label || '—'}</span></div>
+              <div><span className="text-white/80">Confidence:</span> <span className="font-semibold">{(seen?.confidence ?? 0).toFixed(2)}</span></div>
+            </div>
+          </div>
+        </section>
+
+        {/* Right: lesson picker, the running lesson, or the last result */}
+        <section className="rounded-xl bg-white/5 border border-white/10 p-4 flex flex-col gap-4">
+          <div className="flex items-center justify-between">
+            <h2 className="text-lg font-medium">{session ? session.lesson.title : 'Lessons'}</h2>
+            <div className="flex rounded-md overflow-hidden border border-white/10" role="radiogroup" aria-label="Model">
+              {(Object.keys(KIND_LABELS) as ModelKind[]).map((k) => (
+                <button
+                  key={k}
+                  role="radio"
+                  aria-checked={kind === k}
+                  onClick={() => switchKind(k)}
+                  className={`px-2 py-1 text-xs transition ${kind === k ? 'bg-teal-500 text-black font-medium' : 'bg-white/5 hover:bg-white/15'}`}
+                >
+                  {KIND_LABELS[k]}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {result && !session && (
+            <div className="p-4 rounded-lg bg-black/50 border border-teal-400/50 text-sm">
+              <div className="font-medium mb-1">{result.lesson.title} finished</div>
+              <div className="text-white/80">
+                {result.stats.correct} correct of {result.stats.attempts} attempts ({Math.round(result.accuracy * 100)}%) · best streak {result.stats.bestStreak}
+                {result.stats.wordsSpelled > 0 ? ` · ${result.stats.wordsSpelled} words spelled` : ''}
+              </div>
+              <div className="mt-3 flex gap-2">
+                <button onClick={() => start(result.lesson)} className="px-3 py-1 rounded-md bg-teal-500 text-black font-medium hover:bg-teal-400 transition">Again</button>
+                <button onClick={() => setResult(null)} className="px-3 py-1 rounded-md bg-white/10 hover:bg-white/20 transition">Lessons</button>
+              </div>
+            </div>
+          )}
+
+          {session?.prompt ? (
+            <PracticeCard
+              prompt={session.prompt}
+              stats={session.summary}
+              accuracy={session.accuracy}
+              timeLeftMs={session.timeLeft(now)}
+              feedback={feedback}
+              hint={hint}
+              onSkip={skip}
+              onEnd={finish}
+            />
+          ) : !result && (
+            labels.length === 0
+              ? <div className="text-sm text-white/60">Loading the {kind} model…</div>
+              : (
+                <>
+                  <LessonPicker lessons={lessons} available={(l) => (starting ? 0 : lessonItems(l, labels).length)} bests={bests} onStart={start} />
+                  <MasteryChart mastery={mastery.filter((m) => m.kind === kind)} labels={signable} title={`Your ${kind} mastery`} />
+                </>
+              )
+          )}
+        </section>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,132 @@
+import React, { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import type { ModelKind } from '../recognition/types';
+import { ApiError } from '../api/client';
+import { getStudentMastery, LabelMastery, listStudents, StudentSummary } from '../api/practice';
+import NavLinks from '../components/NavLinks';
+import MasteryChart from '../components/MasteryChart';
+
+const KIND_LABELS: Record<ModelKind, string> = { letters: 'Letters', words: 'Words' };
+
+const pct = (x: number) => `${Math.round(x * 100)}%`;
+const when = (t: number | null) => (t ? new Date(t).toLocaleString() : '—');
+
+// Teacher view of every student's practice: totals, the labels they struggle with most, and one
+// student's full mastery chart. The backend only answers user ids listed in TEACHER_IDS.
+export default function TeacherPage() {
+  const [kind, setKind] = useState<ModelKind>('letters');
+  const [students, setStudents] = useState<StudentSummary[]>([]);
+  const [status, setStatus] = useState('Loading students…');
+  const [selected, setSelected] = useState<string | null>(null);
+  const [detail, setDetail] = useState<LabelMastery[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setStatus('Loading students…');
+    listStudents(kind)
+      .then((rows) => {
+        if (cancelled) return;
+        setStudents(rows);
+        setStatus(rows.length ? '' : 'No practice recorded yet.');
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        setStudents([]);
+        setStatus(err instanceof ApiError && err.status === 403
+          ? 'Teacher access required: ask an admin to add your user id to TEACHER_IDS.'
+          : `Could not load students: ${err?.message || err}`);
+      });
+    return () => { cancelled = true; };
+  }, [kind]);
+
+  useEffect(() => {
+    if (!selected) return;
+    let cancelled = false;
+    setDetail([]);
+    getStudentMastery(selected, kind)
+      .then((rows) => { if (!cancelled) setDetail(rows); })
+      .catch((err) => console.warn('student mastery unavailable', err));
+    return () => { cancelled = true; };
+  }, [selected, kind]);
+
+  return (
+    <div className="min-h-screen bg-black text-white">
+      <header className="px-6 py-4 border-b border-white/10 flex items-center justify-between gap-4">
+        <motion.h1
+          initial={{ opacity: 0, y: -8 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.5 }}
+          className="text-2xl sm:text-3xl font-semibold tracking-wide"
+          style={{ textShadow: '0 0 10px rgba(0,255,200,0.6), 0 0 20px rgba(0,255,200,0.4)' }}
+        >
+          Students
+        </motion.h1>
+        <NavLinks />
+      </header>
+
+      <main className="p-6 flex flex-col gap-6">
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-medium">Practice progress</h2>
+          <div className="flex rounded-md overflow-hidden border border-white/10" role="radiogroup" aria-label="Model">
+            {(Object.keys(KIND_LABELS) as ModelKind[]).map((k) => (
+              <button
+                key={k}
+                role="radio"
+                aria-checked={kind === k}
+                onClick={() => setKind(k)}
+                className={`px-2 py-1 text-xs transition ${kind === k ? 'bg-teal-500 text-black font-medium' : 'bg-white/5 hover:bg-white/15'}`}
+              >
+                {KIND_LABELS[k]}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {status && <div className="text-sm text-white/60">{status}</div>}
+
+        {students.length > 0 && (
+          <div className="overflow-x-auto rounded-xl bg-white/5 border border-white/10">
+            <table className="w-full text-sm">
+              <thead className="text-xs text-white/50 text-left">
+                <tr>
+                  <th className="px-4 py-2 font-normal">Student</th>
+                  <th className="px-4 py-2 font-normal">Attempts</th>
+                  <th className="px-4 py-2 font-normal">Accuracy</th>
+                  <th className="px-4 py-2 font-normal">Struggles with</th>
+                  <th className="px-4 py-2 font-normal">Last practice</th>
+                </tr>
+              </thead>
+              <tbody>
+                {students.map((s) => (
+                  <tr
+                    key={s.user_id}
+                    onClick={() => setSelected(s.user_id)}
+                    className={`border-t border-white/10 cursor-pointer hover:bg-white/10 ${selected === s.user_id ? 'bg-teal-500/10' : ''}`}
+                  >
+                    <td className="px-4 py-2 font-mono text-xs truncate max-w-[12rem]" title={s.user_id}>{s.user_id}</td>
+                    <td className="px-4 py-2">{s.attempts}</td>
+                    <td className="px-4 py-2">{pct(s.accuracy)}</td>
+                    <td className="px-4 py-2">
+                      {s.weakest.length
+                        ? s.weakest.map((w) => (
+                          <span key={w.label} className="inline-block mr-1 px-2 py-0.5 rounded-full bg-red-500/20 text-red-200 text-xs" title={`mastery ${pct(w.mastery)} · ${w.correct}/${w.attempts}`}>
+                            {w.label}
+                          </span>
+                        ))
+                        : <span className="text-white/40">—</span>}
+                    </td>
+                    <td className="px-4 py-2 text-white/60">{when(s.last_seen_at)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {selected && (
+          <MasteryChart mastery={detail} title={`${selected}: ${kind} mastery`} />
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,270 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import type { ModelKind, RecognitionMode } from '../recognition/types';
+import { useAslStore } from '../store/aslStore';
+import { InferenceRunner, loadModelWithFallback, startInference } from '../inference/client';
+import { engineConfig } from '../settings/recognition';
+import { captionCues, downloadText, EXPORT_FORMATS, ExportFormat, exportSession, formatTimestamp, toVtt } from '../history/export';
+import { newSessionId, saveSession } from '../history/sessions';
+import { SAMPLE_RATES, transcribeVideo, transcriptSession, VideoTranscript } from '../video/transcribe';
+import NavLinks from '../components/NavLinks';
+import VideoTimeline from '../components/VideoTimeline';
+
+const MODE_MODELS: Record<RecognitionMode, ModelKind[]> = {
+  letters: ['letters'],
+  words: ['words'],
+  auto: ['letters', 'words'],
+};
+
+const MODE_LABELS: Record<RecognitionMode, string> = { letters: 'Letters', words: 'Words', auto: 'Auto' };
+
+const EXPORTS: ExportFormat[] = ['vtt', 'srt', 'txt', 'json'];
+
+// Captions for recorded messages: a video file is sampled frame by frame through the translator's
+// models and commit engine, on the video's own clock (see src/video/transcribe.ts)
+export default function VideoPage() {
+  const { mode: liveMode, modelChoice, handCrop, threshold } = useAslStore();
+  const [mode, setMode] = useState<RecognitionMode>(liveMode);
+  const [fps, setFps] = useState(10);
+  const [mirror, setMirror] = useState(true);
+  const [file, setFile] = useState<File | null>(null);
+  const [videoUrl, setVideoUrl] = useState<string | null>(null);
+  const [transcript, setTranscript] = useState<VideoTranscript | null>(null);
+  const [running, setRunning] = useState(false);
+  const [status, setStatus] = useState('');
+  const [currentMs, setCurrentMs] = useState(0);
+  const [captionsUrl, setCaptionsUrl] = useState<string | null>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const runnerRef = useRef<Promise<InferenceRunner> | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const getRunner = () => {
+    if (!runnerRef.current) runnerRef.current = startInference();
+    return runnerRef.current;
+  };
+
+  useEffect(() => () => {
+    abortRef.current?.abort();
+    runnerRef.current?.then((runner) => runner.dispose()).catch(() => {});
+    runnerRef.current = null;
+  }, []);
+
+  useEffect(() => {
+    if (!file) return;
+    const url = URL.createObjectURL(file);
+    setVideoUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [file]);
+
+  const title = file ? file.name.replace(/\.[^.]+$/, '') : 'video';
+  const session = transcript && transcriptSession(transcript, { id: 'video', title, mode });
+
+  // Finished transcript as a captions track on the preview
+  useEffect(() => {
+    if (!session || !transcript?.complete) {
+      setCaptionsUrl(null);
+      return;
+    }
+    const url = URL.createObjectURL(new Blob([toVtt(captionCues(session))], { type: 'text/vtt' }));
+    setCaptionsUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [transcript?.complete, transcript?.text]);
+
+  const transcribe = async () => {
+    const video = videoRef.current;
+    if (!video || running) return;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setRunning(true);
+    setTranscript(null);
+    try {
+      setStatus(`Loading ${MODE_LABELS[mode].toLowerCase()} model…`);
+      const runner = await getRunner();
+      const kinds = MODE_MODELS[mode];
+      for (const kind of kinds) await loadModelWithFallback(runner, kind, modelChoice[kind]);
+      setStatus('Transcribing…');
+      const state = useAslStore.getState();
+      const result = await transcribeVideo(video, runner, {
+        kinds,
+        config: engineConfig(state),
+        fps,
+        mirror,
+        handCrop: state.handCrop,
+        signal: controller.signal,
+        onProgress: (partial) => setTranscript({ ...partial }),
+      });
+      setTranscript({ ...result });
+      setStatus(result.complete ? `Done: ${result.points.length} frames, ${result.tokens.filter((t) => t.kind !== 'space').length} signs.` : 'Cancelled; the part transcribed so far is kept.');
+    } catch (err) {
+      console.error('Video transcription failed:', err);
+      setStatus(`Could not transcribe: ${(err as Error)?.message || err}`);
+    } finally {
+      abortRef.current = null;
+      setRunning(false);
+    }
+  };
+
+  const seek = (ms: number) => {
+    if (!videoRef.current || running) return;
+    videoRef.current.currentTime = ms / 1000;
+    setCurrentMs(ms);
+  };
+
+  const save = async () => {
+    if (!transcript) return;
+    try {
+      await saveSession(transcriptSession(transcript, { id: newSessionId(), title, mode, startedAt: Date.now() }));
+      setStatus('Saved to History.');
+    } catch (err) {
+      setStatus(`Could not save: ${(err as Error)?.message || err}`);
+    }
+  };
+
+  const progress = transcript && videoRef.current && Number.isFinite(videoRef.current.duration)
+    ? Math.min(1, transcript.durationMs / (videoRef.current.duration * 1000))
+    : 0;
+
+  return (
+    <div className="min-h-screen bg-black text-white">
+      <header className="px-6 py-4 border-b border-white/10 flex items-center justify-between gap-4">
+        <motion.h1
+          initial={{ opacity: 0, y: -8 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.5 }}
+          className="text-2xl sm:text-3xl font-semibold tracking-wide"
+          style={{ textShadow: '0 0 10px rgba(0,255,200,0.6), 0 0 20px rgba(0,255,200,0.4)' }}
+        >
+          Video
+        </motion.h1>
+        <NavLinks />
+      </header>
+
+      <main className="p-6 grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <section className="rounded-xl bg-white/5 border border-white/10 p-4 flex flex-col gap-3">
+          <div className="flex flex-wrap items-center gap-3 text-sm">
+            <input
+              type="file"
+              accept="video/mp4,video/webm,video/*"
+              onChange={(e) => { setFile(e.target.files?.[0] ?? null); setTranscript(null); setStatus(''); }}
+              disabled={running}
+              aria-label="Video file"
+              className="text-xs"
+            />
+            <div className="flex rounded-md overflow-hidden border border-white/10" role="radiogroup" aria-label="Recognition mode">
+              {(Object.keys(MODE_LABELS) as RecognitionMode[]).map((m) => (
+                <button
+                  key={m}
+                  role="radio"
+                  aria-checked={mode === m}
+                  onClick={() => setMode(m)}
+                  disabled={running}
+                  className={`px-2 py-1 text-xs transition ${mode === m ? 'bg-teal-500 text-black font-medium' : 'bg-white/5 hover:bg-white/15'}`}
+                >
+                  {MODE_LABELS[m]}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="flex flex-wrap items-center gap-4 text-xs text-white/80">
+            <label className="flex items-center gap-2" title="Frames of video classified per second">
+              Sampling
+              <select value={fps} onChange={(e) => setFps(Number(e.target.value))} disabled={running} className="bg-black/60 border border-white/10 rounded-md px-2 py-1">
+                {SAMPLE_RATES.map((r) => <option key={r} value={r}>{r} fps</option>)}
+              </select>
+            </label>
+            <label className="flex items-center gap-2" title="The models were trained on the mirrored webcam; keep on for a selfie-view recording of the signer">
+              <input type="checkbox" checked={mirror} onChange={(e) => setMirror(e.target.checked)} disabled={running} />
+              Mirror
+            </label>
+            <span className="text-white/50">Hand crop {handCrop ? 'on' : 'off'} and threshold {Math.round(threshold * 100)}% come from the translator's settings.</span>
+          </div>
+
+          {videoUrl ? (
+            <video
+              ref={videoRef}
+              src={videoUrl}
+              controls={!running}
+              muted
+              playsInline
+              preload="auto"
+              onTimeUpdate={(e) => { if (!running) setCurrentMs(e.currentTarget.currentTime * 1000); }}
+              className="w-full rounded-lg bg-black"
+            >
+              {captionsUrl && <track kind="captions" src={captionsUrl} srcLang="en" label="ASL transcript" default />}
+            </video>
+          ) : (
+            <div className="aspect-video rounded-lg bg-black/50 border border-white/10 flex items-center justify-center text-sm text-white/50">
+              Choose an MP4 or WebM recording of someone signing.
+            </div>
+          )}
+
+          <div className="flex items-center gap-2">
+            <button
+              onClick={transcribe}
+              disabled={!videoUrl || running}
+              className="px-3 py-1 rounded-md bg-teal-500 text-black font-medium hover:bg-teal-400 disabled:opacity-40 transition"
+            >
+              Transcribe
+            </button>
+            {running && <button onClick={() => abortRef.current?.abort()} className="px-3 py-1 rounded-md bg-white/10 hover:bg-white/20 transition">Cancel</button>}
+            {running && (
+              <div className="flex-1 h-2 rounded bg-white/10 overflow-hidden" role="progressbar" aria-valuenow={Math.round(progress * 100)} aria-valuemin={0} aria-valuemax={100}>
+                <div className="h-full bg-teal-500" style={{ width: `${progress * 100}%` }} />
+              </div>
+            )}
+          </div>
+          {status && <div className="text-sm text-white/60">{status}</div>}
+        </section>
+
+        <section className="rounded-xl bg-white/5 border border-white/10 p-4 flex flex-col gap-3">
+          <div className="flex items-center justify-between">
+            <h2 className="text-lg font-medium">Transcript</h2>
+            <div className="flex flex-wrap gap-2">
+              {EXPORTS.map((format) => (
+                <button
+                  key={format}
+                  onClick={() => session && downloadText(`${title}.${format}`, exportSession(session, format), EXPORT_FORMATS[format].mime)}
+                  disabled={!session || running}
+                  className="px-2 py-1 text-xs rounded-md bg-white/10 hover:bg-white/20 disabled:opacity-40 transition"
+                >
+                  {EXPORT_FORMATS[format].label}
+                </button>
+              ))}
+              <button onClick={save} disabled={!transcript || running} className="px-2 py-1 text-xs rounded-md bg-teal-500 text-black hover:bg-teal-400 disabled:opacity-40 transition">Save to History</button>
+            </div>
+          </div>
+          <div className="min-h-[120px] p-4 rounded-lg bg-black/50 border border-white/10 text-white/90 leading-relaxed whitespace-pre-wrap">
+            {transcript?.text.trim() || <span className="text-white/40">The transcript appears here as the video is processed.</span>}
+          </div>
+
+          {transcript && transcript.points.length > 0 && (
+            <VideoTimeline
+              points={transcript.points}
+              tokens={transcript.tokens}
+              durationMs={videoRef.current && Number.isFinite(videoRef.current.duration) ? videoRef.current.duration * 1000 : transcript.durationMs}
+              currentMs={running ? transcript.durationMs : currentMs}
+              threshold={threshold}
+              onSeek={seek}
+            />
+          )}
+
+          {/* Caption cues; click to jump there */}
+          {session && !running && (
+            <div className="flex flex-col gap-1 text-sm max-h-64 overflow-y-auto">
+              {captionCues(session).map((cue) => (
+                <button
+                  key={cue.start}
+                  onClick={() => seek(cue.start)}
+                  className={`text-left px-2 py-1 rounded ${currentMs >= cue.start && currentMs < cue.end ? 'bg-teal-500/20' : 'hover:bg-white/10'}`}
+                >
+                  <span className="font-mono text-xs text-white/50 mr-2">{formatTimestamp(cue.start)}</span>
+                  {cue.text}
+                </button>
+              ))}
+            </div>
+          )}
+        </section>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,36 @@
+import { useEffect, useState } from 'react';
+import type { ModelKind } from '../recognition/types';
+
+// Optional sign media (a GIF or image per sign) under public/assets/signs/, listed in its manifest.json
+// as { "<kind>": { "<label>": "<kind>/<file>" } }. Only listed files are requested; every other sign
+// keeps its written handshape description. No media ships with the app yet, so the lists start empty.
+export type SignMedia = Partial<Record<ModelKind, Record<string, string>>>;
+
+const SIGN_MEDIA_BASE = '/assets/signs';
+
+let loading: Promise<SignMedia> | null = null;
+
+// Fetched once per page load; a missing or broken manifest means no media
+export function loadSignMedia(): Promise<SignMedia> {
+  if (!loading) {
+    loading = fetch(`${SIGN_MEDIA_BASE}/manifest.json`)
+      .then((res) => (res.ok ? res.json() : {}))
+      .catch(() => ({}));
+  }
+  return loading;
+}
+
+export function signMediaUrl(media: SignMedia, kind: ModelKind, label: string): string | null {
+  const file = media[kind]?.[label];
+  return file ? `${SIGN_MEDIA_BASE}/${file.split('/').map(encodeURIComponent).join('/')}` : null;
+}
+
+export function useSignMedia(): SignMedia {
+  const [media, setMedia] = useState<SignMedia>({});
+  useEffect(() => {
+    let cancelled = false;
+    loadSignMedia().then((m) => { if (!cancelled) setMedia(m); });
+    return () => { cancelled = true; };
+  }, []);
+  return media;
+}
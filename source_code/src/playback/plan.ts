@@ -0,0 +1,50 @@
+import { isBlankLabel } from '../recognition/types';
+import type { ModelKind } from '../recognition/types';
+import { spellingLabel } from '../practice/lessons';
+
+// English text -> the sequence of signs to show. Words the words model knows are shown as one sign;
+// everything else is fingerspelled with the letters model's labels (I as J, like Practice).
+// Labels come from the models' metadata.json so both directions of the app share one vocabulary.
+export type SignStep =
+  | { type: 'word'; kind: ModelKind; label: string; text: string; wordIndex: number }
+  // label null: the letters model has no sign for this character (digits, missing letters)
+  | { type: 'letter'; kind: ModelKind; label: string | null; char: string; text: string; wordIndex: number; index: number }
+  | { type: 'gap'; wordIndex: number }; // pause between words
+
+// Display time of each step at 1× speed
+export const STEP_MS: Record<SignStep['type'], number> = { word: 1400, letter: 700, gap: 500 };
+
+// "thank you", "Thank-You" and the label "thankyou" (or "thank_you") all compare equal
+const wordKey = (w: string) => w.toLowerCase().replace(/[\s_'-]/g, '');
+
+export function planSigns(text: string, wordLabels: string[], letterLabels: string[]): SignStep[] {
+  const vocabulary = new Map<string, string>();
+  for (const label of wordLabels) if (!isBlankLabel(label)) vocabulary.set(wordKey(label), label);
+  const letters = letterLabels.filter((l) => !isBlankLabel(l));
+
+  const words = text.match(/[A-Za-z0-9']+/g) ?? [];
+  const steps: SignStep[] = [];
+  let wordIndex = 0;
+  for (let i = 0; i < words.length; i++) {
+    if (steps.length) steps.push({ type: 'gap', wordIndex });
+    // Prefer a two-word gloss ("thank you" -> thankyou) over two single words
+    const pair = i + 1 < words.length ? vocabulary.get(wordKey(words[i] + words[i + 1])) : undefined;
+    if (pair) {
+      steps.push({ type: 'word', kind: 'words', label: pair, text: `${words[i]} ${words[i + 1]}`, wordIndex: wordIndex++ });
+      i++;
+      continue;
+    }
+    const word = words[i];
+    const label = vocabulary.get(wordKey(word));
+    if (label) {
+      steps.push({ type: 'word', kind: 'words', label, text: word, wordIndex: wordIndex++ });
+      continue;
+    }
+    const chars = [...word.replace(/'/g, '')];
+    chars.forEach((char, index) => {
+      steps.push({ type: 'letter', kind: 'letters', label: spellingLabel(char, letters), char: char.toUpperCase(), text: word, wordIndex, index });
+    });
+    wordIndex++;
+  }
+  return steps;
+}
@@ -0,0 +1,84 @@
+import { SignStep, STEP_MS } from './plan';
+
+export const MIN_SPEED = 0.25;
+export const MAX_SPEED = 2;
+
+// Playback cursor over a plan: play, pause, step, seek, loop, speed. No DOM, no timers: the caller
+// drives it with tick(now) (e.g. from requestAnimationFrame) and re-renders when it returns true.
+export class SignPlayer {
+  steps: SignStep[] = [];
+  index = 0;
+  playing = false;
+  loop = false;
+  speed = 1;
+  private stepStartedAt = 0;
+
+  load(steps: SignStep[], now: number) {
+    this.steps = steps;
+    this.index = 0;
+    this.playing = false;
+    this.stepStartedAt = now;
+  }
+
+  get current(): SignStep | null {
+    return this.steps[this.index] ?? null;
+  }
+
+  get atEnd() {
+    return this.index >= this.steps.length - 1;
+  }
+
+  duration(step: SignStep) {
+    return STEP_MS[step.type] / this.speed;
+  }
+
+  // 0..1 through the current step
+  progress(now: number) {
+    const step = this.current;
+    if (!step || !this.playing) return 0;
+    return Math.min(1, (now - this.stepStartedAt) / this.duration(step));
+  }
+
+  play(now: number) {
+    if (this.steps.length === 0) return;
+    if (this.atEnd && !this.playing) this.index = 0; // replay from the start
+    this.playing = true;
+    this.stepStartedAt = now;
+  }
+
+  pause() {
+    this.playing = false;
+  }
+
+  // Manual stepping pauses playback
+  step(delta: number, now: number) {
+    this.playing = false;
+    this.seek(this.index + delta, now);
+  }
+
+  seek(index: number, now: number) {
+    this.index = Math.max(0, Math.min(this.steps.length - 1, index));
+    this.stepStartedAt = now;
+  }
+
+  // Keeps the fraction of the current step already shown
+  setSpeed(speed: number, now: number) {
+    const step = this.current;
+    const done = step ? (now - this.stepStartedAt) / this.duration(step) : 0;
+    this.speed = Math.max(MIN_SPEED, Math.min(MAX_SPEED, speed));
+    if (step) this.stepStartedAt = now - done * this.duration(step);
+  }
+
+  // Advances past every step whose time is up; returns true when the shown step changed
+  tick(now: number): boolean {
+    let changed = false;
+    while (this.playing && this.current && now - this.stepStartedAt >= this.duration(this.current)) {
+      this.stepStartedAt += this.duration(this.current);
+      if (!this.atEnd) this.index++;
+      else if (this.loop) this.index = 0;
+      else this.playing = false;
+      changed = true;
+    }
+    return changed;
+  }
+}
@@ -0,0 +1,98 @@
+// Reference descriptions and confusion hints for practice prompts. Descriptions are for a right-handed
+// signer as seen by the (mirrored) webcam.
+
+export const HANDSHAPES: Record<string, string> = {
+  A: 'Fist with the thumb resting against the side of the index finger.',
+  B: 'Flat hand, fingers together and pointing up, thumb folded across the palm.',
+  C: 'Curve the fingers and thumb into a C shape, as if holding a cup.',
+  D: 'Index finger up; the other fingertips touch the thumb to make a circle.',
+  E: 'Fingertips curled down onto the thumb, which is tucked across the palm.',
+  F: 'Index finger and thumb touch in a circle; the other three fingers point up.',
+  G: 'Index finger and thumb point sideways, parallel, like a small pinch.',
+  H: 'Index and middle fingers together pointing sideways, thumb tucked.',
+  J: 'Pinky up (the I handshape), then trace a J downward and hook it toward you.',
+  K: 'Index and middle fingers up in a V, thumb touching the middle finger between them.',
+  L: 'Index finger up and thumb out to the side, making an L.',
+  M: 'Thumb tucked under the index, middle and ring fingers.',
+  N: 'Thumb tucked under the index and middle fingers.',
+  O: 'All fingertips meet the thumb to make a round O.',
+  P: 'K handshape pointed down: index forward, middle finger down, thumb between.',
+  Q: 'G handshape pointed down: index finger and thumb toward the floor.',
+  R: 'Index and middle fingers crossed, pointing up.',
+  S: 'Fist with the thumb wrapped across the front of the fingers.',
+  T: 'Fist with the thumb tucked between the index and middle fingers.',
+  U: 'Index and middle fingers up and together.',
+  V: 'Index and middle fingers up and spread in a V.',
+  W: 'Index, middle and ring fingers up and spread.',
+  X: 'Index finger raised and bent into a hook, other fingers in a fist.',
+  Y: 'Thumb and pinky out, middle three fingers folded.',
+  Z: 'Index finger out; trace a Z in the air.',
+  thankyou: 'Flat hand at the chin, then move it forward and down toward the person.',
+  can: 'Both fists (S hands) in front of you, move down together once.',
+  apple: 'Knuckle of a bent index finger twisted against the cheek.',
+  get: 'Open hands close into fists as they pull in toward you, one on top of the other.',
+  good: 'Flat hand from the chin down onto the other palm.',
+  have: 'Bent flat hands tap the chest with the fingertips.',
+  help: 'Fist with the thumb up resting on the other flat palm; lift both together.',
+  how: 'Bent hands back to back, knuckles together, then roll them forward and up.',
+  I: 'Pinky up (I handshape) against the chest.',
+  like: 'Thumb and middle finger pull away from the chest and close together.',
+  my: 'Flat palm on the chest.',
+  no: 'Index and middle fingers snap shut onto the thumb.',
+  sorry: 'Fist (A hand) circles on the chest.',
+  want: 'Clawed hands palms up, pull toward you.',
+  yes: 'Fist (S hand) nods up and down at the wrist.',
+  you: 'Point the index finger at the other person.',
+  your: 'Flat palm pushed toward the other person.',
+  love: 'Fists crossed over the chest.',
+  forget: 'Flat hand wipes across the forehead and closes into a fist (A hand).',
+  mother: 'Open hand, thumb tapping the chin.',
+  father: 'Open hand, thumb tapping the forehead.',
+  friend: 'Hooked index fingers link one way, then the other.',
+  eat: 'Flattened O hand taps the lips.',
+  drink: 'C hand tips toward the mouth like a cup.',
+};
+
+// Handshapes the model (and new signers) mix up, keyed by the sorted pair; the tip tells them apart
+const PAIR_TIPS: Record<string, string> = {
+  'M|N': 'M tucks the thumb under three fingers, N under two.',
+  'A|S': 'A keeps the thumb at the side of the fist; S wraps it across the front.',
+  'A|E': 'A is a fist with the thumb at the side; E curls the fingertips down onto the thumb.',
+  'E|S': 'E curls the fingertips onto the thumb; S closes a tight fist with the thumb across the front.',
+  'S|T': 'T pokes the thumb up between the index and middle fingers; S wraps it across the front.',
+  'A|T': 'T pokes the thumb up between the index and middle fingers; A keeps it at the side.',
+  'M|S': 'M tucks the thumb under three fingers; S wraps it over them.',
+  'N|T': 'N tucks the thumb under two fingers; T pokes it up between the first two.',
+  'U|V': 'U keeps the two fingers together; V spreads them apart.',
+  'R|U': 'R crosses the two fingers; U keeps them side by side.',
+  'K|V': 'K rests the thumb against the middle finger between the two raised fingers; V keeps it folded down.',
+  'V|W': 'V raises two fingers; W raises three.',
+  'G|H': 'G points only the index finger (with the thumb); H points the index and middle fingers together.',
+  'G|Q': 'G points sideways; Q points the same shape down.',
+  'K|P': 'K points up; P points the same shape down and forward.',
+  'C|O': 'C leaves a gap between the fingers and thumb; O closes it.',
+  'D|F': 'D raises the index finger from the circle; F raises the other three.',
+  'D|Z': 'Z is drawn in the air with the index finger; D holds still.',
+  'X|Z': 'X is a still hooked finger; Z traces a Z shape.',
+  'J|Y': 'J raises only the pinky; Y also spreads the thumb.',
+  'B|E': 'B holds the fingers straight up; E curls them down onto the thumb.',
+  'friend|help': 'Friend hooks the index fingers together; help rests a fist on the open palm.',
+  'father|mother': 'Father taps the forehead, mother taps the chin.',
+  'my|your': 'My is on your own chest; your pushes the palm toward the other person.',
+  'I|you': 'I is the pinky on your chest; you points the index finger outward.',
+  'drink|eat': 'Eat taps a flattened O on the lips; drink tips a C hand like a cup.',
+  'good|thankyou': 'Thank you moves out toward the other person; good lands on your other palm.',
+};
+
+const pairKey = (a: string, b: string) => [a, b].sort().join('|');
+
+export const isConfusedPair = (a: string, b: string) => pairKey(a, b) in PAIR_TIPS;
+
+// Shown when the learner holds the wrong sign: the pair's tip when it is a known confusion,
+// otherwise what the model saw and the target's handshape
+export function confusionHint(target: string, seen: string): string {
+  const tip = PAIR_TIPS[pairKey(target, seen)];
+  if (tip) return `That looks like “${seen}”. ${tip}`;
+  const shape = HANDSHAPES[target];
+  return shape ? `That looks like “${seen}”. ${target}: ${shape}` : `That looks like “${seen}”.`;
+}
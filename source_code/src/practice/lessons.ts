@@ -0,0 +1,59 @@
+import { isBlankLabel } from '../recognition/types';
+import type { ModelKind } from '../recognition/types';
+
+// sign: one label per prompt; spell: fingerspell whole words letter by letter; drill: sign prompts against the clock;
+// review: the spaced-repetition queue from the backend, in the order it was served
+export type ExerciseType = 'sign' | 'spell' | 'drill' | 'review';
+
+export type Lesson = {
+  id: string;
+  title: string;
+  description: string;
+  kind: ModelKind;     // model that checks the learner
+  exercise: ExerciseType;
+  items?: string[];    // labels to sign or words to spell; omitted = every label the model has
+  durationMs?: number; // drills only
+};
+
+export const LESSONS: Lesson[] = [
+  { id: 'letters-a-f', title: 'Letters A–F', description: 'The first six handshapes.', kind: 'letters', exercise: 'sign', items: ['A', 'B', 'C', 'D', 'E', 'F'] },
+  { id: 'letters-g-m', title: 'Letters G–M', description: 'Includes the G/H and M/N look-alikes.', kind: 'letters', exercise: 'sign', items: ['G', 'H', 'J', 'K', 'L', 'M'] },
+  { id: 'letters-n-s', title: 'Letters N–S', description: 'Closed fists: tell N, S and the rest apart.', kind: 'letters', exercise: 'sign', items: ['N', 'O', 'P', 'Q', 'R', 'S'] },
+  { id: 'letters-t-z', title: 'Letters T–Z', description: 'U/V/W and the traced Z.', kind: 'letters', exercise: 'sign', items: ['T', 'U', 'V', 'W', 'X', 'Y', 'Z'] },
+  { id: 'letters-review', title: 'Review letters', description: 'Due and weak letters first, from your practice history.', kind: 'letters', exercise: 'review' },
+  { id: 'letters-all', title: 'All letters', description: 'Every letter the model knows, in random order.', kind: 'letters', exercise: 'sign' },
+  { id: 'letters-drill', title: 'Letter drill', description: 'As many letters as you can in 60 seconds.', kind: 'letters', exercise: 'drill', durationMs: 60_000 },
+  {
+    id: 'spell-short', title: 'Spell short words', description: 'Fingerspell three- and four-letter words.', kind: 'letters', exercise: 'spell',
+    items: ['CAT', 'DOG', 'YES', 'BOOK', 'FOOD', 'HELP', 'LOVE', 'NAME', 'BLUE', 'WORK'],
+  },
+  {
+    id: 'spell-long', title: 'Spell longer words', description: 'Five letters and up, including double letters.', kind: 'letters', exercise: 'spell',
+    items: ['HELLO', 'WATER', 'HAPPY', 'FRIEND', 'SCHOOL', 'COFFEE', 'MOTHER', 'FAMILY'],
+  },
+  { id: 'words-review', title: 'Review words', description: 'Due and weak words first, from your practice history.', kind: 'words', exercise: 'review' },
+  { id: 'words-all', title: 'Everyday words', description: 'Whole-word signs from the words model.', kind: 'words', exercise: 'sign' },
+  { id: 'words-drill', title: 'Word drill', description: 'As many words as you can in 90 seconds.', kind: 'words', exercise: 'drill', durationMs: 90_000 },
+];
+
+export const REVIEW_SIZE = 12; // prompts per review run
+
+// The letters model has no I: its still handshape is J's (J adds motion), so spelled Is are signed as J
+export const SPELLING_SUBSTITUTES: Record<string, string> = { I: 'J' };
+
+// Letter label expected for one letter of a spelled word, or null if the model cannot check it
+export function spellingLabel(letter: string, labels: string[]): string | null {
+  const l = letter.toUpperCase();
+  if (labels.includes(l)) return l;
+  const sub = SPELLING_SUBSTITUTES[l];
+  return sub && labels.includes(sub) ? sub : null;
+}
+
+// Prompts the loaded model can actually check: labels it has (blank class excluded), words it can spell
+export function lessonItems(lesson: Lesson, labels: string[]): string[] {
+  const signable = labels.filter((l) => !isBlankLabel(l));
+  if (lesson.exercise === 'spell') {
+    return (lesson.items ?? []).filter((w) => [...w].every((ch) => spellingLabel(ch, signable) !== null));
+  }
+  return lesson.items ? lesson.items.filter((l) => signable.includes(l)) : signable;
+}
@@ -0,0 +1,27 @@
+import type { PracticeStats } from './session';
+
+// Personal bests per lesson, kept on this device (localStorage `asl_practice_best`)
+export type LessonBest = { bestStreak: number; bestCorrect: number; runs: number };
+
+const KEY = 'asl_practice_best';
+
+export function loadBests(): Record<string, LessonBest> {
+  try {
+    const saved = JSON.parse((typeof window !== 'undefined' && localStorage.getItem(KEY)) || '{}');
+    return saved && typeof saved === 'object' ? saved : {};
+  } catch {
+    return {};
+  }
+}
+
+export function recordRun(lessonId: string, stats: PracticeStats): Record<string, LessonBest> {
+  const bests = loadBests();
+  const prev = bests[lessonId] ?? { bestStreak: 0, bestCorrect: 0, runs: 0 };
+  bests[lessonId] = {
+    bestStreak: Math.max(prev.bestStreak, stats.bestStreak),
+    bestCorrect: Math.max(prev.bestCorrect, stats.correct),
+    runs: prev.runs + 1,
+  };
+  try { localStorage.setItem(KEY, JSON.stringify(bests)); } catch {}
+  return bests;
+}
@@ -0,0 +1,154 @@
+import type { ModelKind } from '../recognition/types';
+import { Lesson, spellingLabel } from './lessons';
+
+// What the learner should sign now. For spelling, `label` is the current letter of `word`.
+export type Prompt = {
+  kind: ModelKind;
+  label: string;
+  word?: string;
+  index?: number; // position of `label` in `word`
+};
+
+export type Attempt = {
+  lessonId: string;
+  prompt: Prompt;
+  signed: string;      // committed label, or '' for a skip
+  correct: boolean;
+  confidence: number | null; // of the committed token; null for a skip
+  timestamp: number;
+  responseMs: number;  // since the prompt appeared
+};
+
+export type PracticeStats = {
+  attempts: number;
+  correct: number;
+  streak: number;
+  bestStreak: number;
+  wordsSpelled: number;
+};
+
+// One run through a lesson. Feed it the labels the recognition engine commits; it checks them
+// against the prompt, keeps the streak and moves on. No DOM, no timers: time comes in as arguments.
+// Review lessons walk `items` once in the given order (the server's queue) and end after the last.
+export class PracticeSession {
+  readonly lesson: Lesson;
+  readonly startedAt: number;
+  readonly attempts: Attempt[] = [];
+  private items: string[];
+  private labels: string[];
+  private random: () => number;
+  private bag: string[] = [];
+  private current: Prompt | null = null;
+  private promptAt: number;
+  private last = '';
+  private reviewed = 0; // review lessons: position in `items`
+  private stats: PracticeStats = { attempts: 0, correct: 0, streak: 0, bestStreak: 0, wordsSpelled: 0 };
+
+  // `items` from lessonItems(); `labels` are the model's, used to map spelled letters onto them
+  constructor(lesson: Lesson, items: string[], labels: string[], now: number, random: () => number = Math.random) {
+    this.lesson = lesson;
+    this.items = items;
+    this.labels = labels;
+    this.random = random;
+    this.startedAt = now;
+    this.promptAt = now;
+    this.current = this.nextPrompt();
+  }
+
+  get prompt(): Prompt | null {
+    return this.current;
+  }
+
+  get summary(): PracticeStats {
+    return { ...this.stats };
+  }
+
+  get accuracy() {
+    return this.stats.attempts === 0 ? 0 : this.stats.correct / this.stats.attempts;
+  }
+
+  // Drills only; Infinity for untimed lessons
+  timeLeft(now: number) {
+    return this.lesson.durationMs ? Math.max(0, this.startedAt + this.lesson.durationMs - now) : Infinity;
+  }
+
+  isOver(now: number) {
+    return this.current === null || this.timeLeft(now) === 0;
+  }
+
+  // A committed label from the engine. Wrong signs count as attempts and break the streak; the prompt stays.
+  submit(label: string, now: number, confidence: number | null = null): Attempt | null {
+    const prompt = this.current;
+    if (!prompt || this.isOver(now)) return null;
+    const correct = label.trim().toLowerCase() === prompt.label.toLowerCase();
+    const attempt = this.record(prompt, label.trim(), correct, confidence, now);
+    if (correct) this.advance(now);
+    return attempt;
+  }
+
+  skip(now: number): Attempt | null {
+    const prompt = this.current;
+    if (!prompt || this.isOver(now)) return null;
+    const attempt = this.record(prompt, '', false, null, now);
+    // Skipping a letter skips its whole word
+    if (prompt.word) this.current = this.nextPrompt();
+    else this.advance(now);
+    this.promptAt = now;
+    return attempt;
+  }
+
+  private record(prompt: Prompt, signed: string, correct: boolean, confidence: number | null, now: number): Attempt {
+    const s = this.stats;
+    s.attempts++;
+    if (correct) {
+      s.correct++;
+      s.streak++;
+      s.bestStreak = Math.max(s.bestStreak, s.streak);
+    } else {
+      s.streak = 0;
+    }
+    const attempt: Attempt = { lessonId: this.lesson.id, prompt, signed, correct, confidence, timestamp: now, responseMs: now - this.promptAt };
+    this.attempts.push(attempt);
+    return attempt;
+  }
+
+  private advance(now: number) {
+    const prompt = this.current!;
+    this.promptAt = now;
+    if (prompt.word) {
+      const next = prompt.index! + 1;
+      if (next < prompt.word.length) {
+        this.current = this.letterPrompt(prompt.word, next);
+        return;
+      }
+      this.stats.wordsSpelled++;
+    }
+    this.current = this.nextPrompt();
+  }
+
+  private letterPrompt(word: string, index: number): Prompt {
+    return { kind: this.lesson.kind, label: spellingLabel(word[index], this.labels) ?? word[index], word, index };
+  }
+
+  // Shuffled bag: every item once per round, never the same item twice in a row
+  private nextPrompt(): Prompt | null {
+    if (this.lesson.exercise === 'review') {
+      const item = this.items[this.reviewed++];
+      return item === undefined ? null : { kind: this.lesson.kind, label: item };
+    }
+    if (this.items.length === 0) return null;
+    if (this.bag.length === 0) {
+      this.bag = [...this.items];
+      for (let i = this.bag.length - 1; i > 0; i--) {
+        const j = Math.floor(this.random() * (i + 1));
+        [this.bag[i], this.bag[j]] = [this.bag[j], this.bag[i]];
+      }
+      if (this.bag.length > 1 && this.bag[this.bag.length - 1] === this.last) {
+        [this.bag[0], this.bag[this.bag.length - 1]] = [this.bag[this.bag.length - 1], this.bag[0]];
+      }
+    }
+    const item = this.bag.pop()!;
+    this.last = item;
+    return this.lesson.exercise === 'spell' ? this.letterPrompt(item, 0) : { kind: this.lesson.kind, label: item };
+  }
+}
@@ -0,0 +1,105 @@
+import { ApiError } from '../api/client';
+import { LabelMastery, PracticeAttemptInput, recordAttempts } from '../api/practice';
+import type { Attempt } from './session';
+
+// Attempts waiting for the backend, kept in localStorage (`asl_practice_pending`) so a lesson done
+// offline or a closed tab still reaches the spaced-repetition scheduler on the next flush.
+const KEY = 'asl_practice_pending';
+const MAX_PENDING = 500;  // oldest are dropped beyond this
+const BATCH = 200;        // backend limit per request
+
+export const FLUSH_EVERY = 5; // attempts buffered before PracticePage uploads mid-lesson
+
+// `queue_id` identifies a queued attempt, so a flush removes exactly what it sent even when the queue
+// was trimmed to MAX_PENDING meanwhile
+type PendingAttempt = PracticeAttemptInput & { queue_id: string };
+
+let seq = 0;
+const queueId = () => `${Date.now().toString(36)}-${(seq++).toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export function toPayload(a: Attempt): PracticeAttemptInput {
+  return {
+    kind: a.prompt.kind,
+    label: a.prompt.label,
+    correct: a.correct,
+    confidence: a.confidence,
+    latency_ms: a.responseMs,
+    lesson_id: a.lessonId,
+    signed: a.signed || null,
+    created_at: a.timestamp,
+  };
+}
+
+function loadPending(): PendingAttempt[] {
+  let saved: unknown;
+  try {
+    saved = JSON.parse(localStorage.getItem(KEY) || '[]');
+  } catch {
+    return [];
+  }
+  return Array.isArray(saved) ? saved : [];
+}
+
+function savePending(pending: PendingAttempt[]) {
+  try { localStorage.setItem(KEY, JSON.stringify(pending.slice(-MAX_PENDING))); } catch {}
+}
+
+export function queueAttempts(attempts: Attempt[]) {
+  if (attempts.length) savePending([...loadPending(), ...attempts.map((a) => ({ ...toPayload(a), queue_id: queueId() }))]);
+}
+
+export const pendingCount = () => loadPending().length;
+
+let flushing: Promise<LabelMastery[] | null> | null = null;
+
+// The backend refused these attempts (4xx other than timeout / rate limit): retrying will not help
+const isRejected = (err: unknown) => err instanceof ApiError && err.status >= 400 && err.status < 500 && err.status !== 408 && err.status !== 429;
+
+const send = (batch: PendingAttempt[]) => recordAttempts(batch.map(({ queue_id, ...attempt }) => attempt));
+
+// Drops sent (or rejected) attempts from the queue; attempts may have been queued, and old ones
+// trimmed, while a request was in flight
+function removePending(ids: Set<string>) {
+  const pending = loadPending().filter((a) => !ids.has(a.queue_id));
+  savePending(pending);
+  return pending;
+}
+
+// Uploads everything pending. Resolves with the updated mastery rows, or null when nothing was sent
+// (empty queue or backend unreachable; the attempts stay queued for the next try). Attempts the
+// backend rejects are dropped so they cannot hold up the rest of the queue.
+export function flushAttempts(): Promise<LabelMastery[] | null> {
+  if (flushing) return flushing;
+  flushing = (async () => {
+    const updated: LabelMastery[] = [];
+    try {
+      let pending = loadPending();
+      while (pending.length) {
+        const batch = pending.slice(0, BATCH);
+        const done = new Set<string>();
+        try {
+          updated.push(...(await send(batch)).mastery);
+          batch.forEach((a) => done.add(a.queue_id));
+        } catch (err) {
+          if (!isRejected(err)) throw err;
+          // One invalid attempt rejects the whole request: send them one by one and drop only those
+          for (const attempt of batch) {
+            try {
+              updated.push(...(await send([attempt])).mastery);
+            } catch (e) {
+              if (!isRejected(e)) throw e;
+              console.warn('practice attempt rejected, dropped', attempt, e);
+            }
+            done.add(attempt.queue_id);
+          }
+        } finally {
+          pending = removePending(done);
+        }
+      }
+    } catch (err) {
+      console.warn('practice attempts upload failed', err);
+    }
+    return updated.length ? updated : null;
+  })().finally(() => { flushing = null; });
+  return flushing;
+}
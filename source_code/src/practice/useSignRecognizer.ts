@@ -0,0 +1,171 @@
+import { useEffect, useRef, useState } from 'react';
+import type * as tmImage from '@teachablemachine/image';
+import { useAslStore } from '../store/aslStore';
+import type { ModelKind } from '../recognition/types';
+import { CommitEngine, EngineStep } from '../recognition/engine';
+import { InferenceRunner, loadModelWithFallback, startInference } from '../inference/client';
+import { FramePacer } from '../inference/pacer';
+import { engineConfig } from '../settings/recognition';
+import { HandCropper } from '../preprocess/cropper';
+import { createWebcam, mountCanvasToHost, releaseWebcam, retryIfStalled } from '../camera/webcam';
+
+const UI_INTERVAL_MS = 150;
+
+// Camera + one model + commit engine for the practice page: the translator's pipeline (worker
+// inference, frame pacing, optional hand crop, recognition settings from the store) without the transcript.
+// `onStep` receives every engine step of a classified frame.
+export function useSignRecognizer(kind: ModelKind, onStep: (step: EngineStep) => void) {
+  const [labels, setLabels] = useState<string[]>([]);
+  const [status, setStatus] = useState('Loading model…');
+  const [cameraOn, setCameraOn] = useState(false);
+  const [seen, setSeen] = useState<{ label: string; confidence: number } | null>(null);
+
+  const hostRef = useRef<HTMLDivElement | null>(null);
+  const webcamRef = useRef<tmImage.Webcam | null>(null);
+  const runnerRef = useRef<Promise<InferenceRunner> | null>(null);
+  const activeRunnerRef = useRef<InferenceRunner | null>(null);
+  const mountedRef = useRef(false);
+  const readyKindRef = useRef<ModelKind | null>(null);
+  const engineRef = useRef(new CommitEngine());
+  const pacerRef = useRef(new FramePacer());
+  const cropperRef = useRef(new HandCropper());
+  const rafRef = useRef<number | null>(null);
+  const uiRef = useRef({ at: 0, label: '' });
+  const onStepRef = useRef(onStep);
+  onStepRef.current = onStep;
+
+  const getRunner = () => {
+    if (!runnerRef.current) runnerRef.current = startInference();
+    return runnerRef.current;
+  };
+
+  // One runner per mount; the camera starts once it is up
+  useEffect(() => {
+    mountedRef.current = true;
+    getRunner()
+      .then(async (runner) => {
+        if (!mountedRef.current) return;
+        activeRunnerRef.current = runner;
+        await startCamera();
+      })
+      .catch((err) => {
+        console.error('Practice init error:', err);
+        if (mountedRef.current) setStatus('Camera or model error');
+      });
+    return () => {
+      mountedRef.current = false;
+      stopLoop();
+      releaseWebcam(webcamRef.current, hostRef.current);
+      webcamRef.current = null;
+      runnerRef.current?.then((runner) => runner.dispose()).catch(() => {});
+      runnerRef.current = null;
+      activeRunnerRef.current = null;
+      readyKindRef.current = null;
+    };
+  }, []);
+
+  // (Re)load the model whenever the lesson's kind changes
+  useEffect(() => {
+    let cancelled = false;
+    readyKindRef.current = null;
+    setLabels([]);
+    const load = async () => {
+      setStatus(`Loading ${kind} model…`);
+      const runner = await getRunner();
+      const { labels: loaded } = await loadModelWithFallback(runner, kind, useAslStore.getState().modelChoice[kind]);
+      if (cancelled) return;
+      engineRef.current.reset();
+      readyKindRef.current = kind;
+      setLabels(loaded);
+      setStatus(webcamRef.current ? 'Ready' : 'Camera off');
+    };
+    load().catch((err) => {
+      console.error('Model load error:', err);
+      if (!cancelled) setStatus('Camera or model error');
+    });
+    return () => { cancelled = true; };
+  }, [kind]);
+
+  const startCamera = async () => {
+    const webcam = await createWebcam();
+    if (!mountedRef.current) return releaseWebcam(webcam, null); // left the page while the camera started
+    webcamRef.current = webcam;
+    mountCanvasToHost(webcam, hostRef.current);
+    setCameraOn(true);
+    if (readyKindRef.current) setStatus('Ready');
+    if (rafRef.current) cancelAnimationFrame(rafRef.current);
+    rafRef.current = requestAnimationFrame(loop);
+    retryIfStalled(webcam, () => hostRef.current);
+  };
+
+  const stopLoop = () => {
+    if (rafRef.current) cancelAnimationFrame(rafRef.current);
+    rafRef.current = null;
+  };
+
+  const toggleCamera = async () => {
+    if (webcamRef.current) {
+      stopLoop();
+      releaseWebcam(webcamRef.current, hostRef.current);
+      webcamRef.current = null;
+      setCameraOn(false);
+      setStatus('Camera off');
+      return;
+    }
+    try {
+      await startCamera();
+    } catch (err) {
+      console.error('Camera start error:', err);
+      setStatus('Camera or model error');
+    }
+  };
+
+  const loop = () => {
+    rafRef.current = requestAnimationFrame(loop);
+    const runner = activeRunnerRef.current;
+    const webcam = webcamRef.current;
+    const ready = readyKindRef.current;
+    if (!runner || !webcam || !ready) return;
+
+    const engine = engineRef.current;
+    const state = useAslStore.getState();
+    const { targetFps, handCrop } = state;
+    engine.configure(engineConfig(state));
+    webcam.update();
+
+    const pacer = pacerRef.current;
+    pacer.setTarget(targetFps);
+    const t = performance.now();
+    if (!pacer.shouldRun(t)) return;
+
+    const canvas = handCrop ? cropperRef.current.process(webcam.canvas).canvas : webcam.canvas;
+    pacer.begin(t);
+    runner.predict(canvas, [ready])
+      .then((frame) => {
+        pacer.end(performance.now());
+        if (readyKindRef.current !== ready) return; // lesson switched models meanwhile
+        const step = engine.step(engine.now(), frame.predictions[ready]!, ready);
+        publish(step);
+        onStepRef.current(step);
+      })
+      .catch((err) => {
+        pacer.fail();
+        console.warn('Inference failed:', err?.message || err);
+      });
+  };
+
+  const publish = (step: EngineStep) => {
+    const ui = uiRef.current;
+    const t = performance.now();
+    const label = step.accepted ? step.prediction.className.trim() : '';
+    if (label === ui.label && t - ui.at < UI_INTERVAL_MS) return;
+    ui.at = t;
+    ui.label = label;
+    setSeen(label ? { label, confidence: step.prediction.probability } : null);
+  };
+
+  // New prompt: forget the current hold so it cannot carry over
+  const resetEngine = () => engineRef.current.reset();
+
+  return { hostRef, labels, status, cameraOn, seen, toggleCamera, resetEngine };
+}
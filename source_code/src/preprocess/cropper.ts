@@ -0,0 +1,72 @@
+import { BoxTracker, findHandBox, normalizeLighting } from './hand';
+import type { Box, HandOptions } from './hand';
+
+const ANALYSIS_WIDTH = 96; // hand search runs on a downscaled frame
+const OUTPUT_SIZE = 224;   // Teachable Machine input size
+
+export type CropResult = {
+  canvas: HTMLCanvasElement; // OUTPUT_SIZE square, ready for predict()
+  box: Box | null;           // crop in source pixels; null = centre square fallback
+};
+
+function makeCanvas(width: number, height: number) {
+  const c = document.createElement('canvas');
+  c.width = width;
+  c.height = height;
+  return c;
+}
+
+// Finds the hand in each webcam frame, crops a square around it, evens out the lighting and scales
+// it to the model input. Without a hand it falls back to the centre square TM would use anyway.
+export class HandCropper {
+  private small: HTMLCanvasElement | null = null;
+  private output = makeCanvas(OUTPUT_SIZE, OUTPUT_SIZE);
+  private previous: ImageData | null = null;
+  private tracker = new BoxTracker();
+  private options: Partial<HandOptions>;
+
+  constructor(options: Partial<HandOptions> = {}) {
+    this.options = options;
+  }
+
+  get canvas() {
+    return this.output;
+  }
+
+  get box() {
+    return this.tracker.current;
+  }
+
+  process(source: HTMLCanvasElement): CropResult {
+    const scale = ANALYSIS_WIDTH / source.width;
+    const w = ANALYSIS_WIDTH;
+    const h = Math.max(1, Math.round(source.height * scale));
+    if (!this.small || this.small.height !== h) {
+      this.small = makeCanvas(w, h);
+      this.previous = null;
+    }
+    const sctx = this.small.getContext('2d', { willReadFrequently: true })!;
+    sctx.drawImage(source, 0, 0, w, h);
+    const frame = sctx.getImageData(0, 0, w, h);
+    const last = this.tracker.current;
+    const prior = last && { x: last.x * scale, y: last.y * scale, size: last.size * scale };
+    const found = findHandBox(frame, this.previous, prior, this.options);
+    this.previous = frame;
+
+    const tracked = this.tracker.update(found && { x: found.x / scale, y: found.y / scale, size: found.size / scale });
+    const side = Math.min(source.width, source.height);
+    const box = tracked || { x: (source.width - side) / 2, y: (source.height - side) / 2, size: side };
+
+    const octx = this.output.getContext('2d', { willReadFrequently: true })!;
+    octx.drawImage(source, box.x, box.y, box.size, box.size, 0, 0, OUTPUT_SIZE, OUTPUT_SIZE);
+    const img = octx.getImageData(0, 0, OUTPUT_SIZE, OUTPUT_SIZE);
+    normalizeLighting(img);
+    octx.putImageData(img, 0, 0);
+    return { canvas: this.output, box: tracked };
+  }
+
+  reset() {
+    this.previous = null;
+    this.tracker.reset();
+  }
+}
@@ -0,0 +1,194 @@
+// CPU hand localisation on a small RGBA frame: skin colour (YCrCb) blobs, preferring the one that moves
+// (the face is skin too, but stays still while signing) and otherwise the one where the hand was last
+// seen, squared and padded. With neither there is no hand box: size alone would pick the face. No DOM,
+// so it runs on any RGBA buffer.
+export type Rgba = { width: number; height: number; data: Uint8ClampedArray | Uint8Array };
+
+// Square region in the coordinates of the frame it was found in
+export type Box = { x: number; y: number; size: number };
+
+export type HandOptions = {
+  motionThreshold: number; // mean RGB change that counts a cell as moving
+  minMotionFraction: number; // moving skin, as a fraction of the frame, that marks a blob as the hand
+  minBlobFraction: number; // smallest blob, as a fraction of the frame, that counts as a hand
+  padding: number;         // margin around the blob, as a fraction of its larger side
+  minSize: number;         // smallest crop, as a fraction of the frame's shorter side
+};
+
+export const DEFAULT_HAND_OPTIONS: HandOptions = {
+  motionThreshold: 18,
+  minMotionFraction: 0.002,
+  minBlobFraction: 0.004,
+  padding: 0.25,
+  minSize: 0.3,
+};
+
+export function isSkin(r: number, g: number, b: number) {
+  const y = 0.299 * r + 0.587 * g + 0.114 * b;
+  const cr = (r - y) * 0.713 + 128;
+  const cb = (b - y) * 0.564 + 128;
+  return y > 40 && cr >= 133 && cr <= 173 && cb >= 77 && cb <= 127;
+}
+
+// Per-pixel class: 0 background, 1 still skin, 2 moving skin
+export function skinMotionMask(frame: Rgba, previous: Rgba | null, options: Partial<HandOptions> = {}): Uint8Array {
+  const o = { ...DEFAULT_HAND_OPTIONS, ...options };
+  const { width, height, data } = frame;
+  const canDiff = previous && previous.width === width && previous.height === height;
+  const mask = new Uint8Array(width * height);
+  for (let i = 0, p = 0; i < mask.length; i++, p += 4) {
+    if (!isSkin(data[p], data[p + 1], data[p + 2])) continue;
+    mask[i] = 1;
+    if (canDiff) {
+      const prev = previous!.data;
+      const diff = (Math.abs(data[p] - prev[p]) + Math.abs(data[p + 1] - prev[p + 1]) + Math.abs(data[p + 2] - prev[p + 2])) / 3;
+      if (diff >= o.motionThreshold) mask[i] = 2;
+    }
+  }
+  return mask;
+}
+
+export type Blob = { cells: number; moving: number; minX: number; minY: number; maxX: number; maxY: number };
+
+// 8-connected components of the non-zero mask
+export function findBlobs(mask: Uint8Array, width: number, height: number): Blob[] {
+  const seen = new Uint8Array(mask.length);
+  const stack: number[] = [];
+  const blobs: Blob[] = [];
+  for (let start = 0; start < mask.length; start++) {
+    if (seen[start] || mask[start] === 0) continue;
+    const blob: Blob = { cells: 0, moving: 0, minX: width, minY: height, maxX: 0, maxY: 0 };
+    seen[start] = 1;
+    stack.push(start);
+    while (stack.length) {
+      const i = stack.pop()!;
+      const x = i % width;
+      const y = (i - x) / width;
+      blob.cells++;
+      if (mask[i] === 2) blob.moving++;
+      if (x < blob.minX) blob.minX = x;
+      if (x > blob.maxX) blob.maxX = x;
+      if (y < blob.minY) blob.minY = y;
+      if (y > blob.maxY) blob.maxY = y;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx;
+          const ny = y + dy;
+          if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+          const j = ny * width + nx;
+          if (!seen[j] && mask[j] !== 0) { seen[j] = 1; stack.push(j); }
+        }
+      }
+    }
+    blobs.push(blob);
+  }
+  return blobs;
+}
+
+const overlap = (b: Blob, box: Box) =>
+  Math.max(0, Math.min(b.maxX + 1, box.x + box.size) - Math.max(b.minX, box.x)) *
+  Math.max(0, Math.min(b.maxY + 1, box.y + box.size) - Math.max(b.minY, box.y));
+
+// The most-moving blob when something moves; else the blob under the last hand box; else null (a still
+// signer's largest skin blob is the face, and locking onto it would keep the crop there)
+export function pickHandBlob(blobs: Blob[], frameArea: number, prior: Box | null, options: Partial<HandOptions> = {}): Blob | null {
+  const o = { ...DEFAULT_HAND_OPTIONS, ...options };
+  const candidates = blobs.filter((b) => b.cells >= o.minBlobFraction * frameArea);
+  if (candidates.length === 0) return null;
+  const byMotion = candidates.reduce((a, b) => (b.moving > a.moving ? b : a));
+  if (byMotion.moving >= o.minMotionFraction * frameArea) return byMotion;
+  if (prior) {
+    const byOverlap = candidates.reduce((a, b) => (overlap(b, prior) > overlap(a, prior) ? b : a));
+    if (overlap(byOverlap, prior) > 0) return byOverlap;
+  }
+  return null;
+}
+
+// Squares a rectangle around its centre, pads it and keeps it inside the frame
+export function squareBox(minX: number, minY: number, maxX: number, maxY: number, width: number, height: number, options: Partial<HandOptions> = {}): Box {
+  const o = { ...DEFAULT_HAND_OPTIONS, ...options };
+  const side = Math.max(maxX - minX + 1, maxY - minY + 1);
+  const limit = Math.min(width, height);
+  const size = Math.min(limit, Math.max(side * (1 + 2 * o.padding), limit * o.minSize));
+  const cx = (minX + maxX + 1) / 2;
+  const cy = (minY + maxY + 1) / 2;
+  const x = Math.min(width - size, Math.max(0, cx - size / 2));
+  const y = Math.min(height - size, Math.max(0, cy - size / 2));
+  return { x, y, size };
+}
+
+// `prior` is the last hand box in this frame's coordinates; it keeps a still hand (a held letter)
+// from losing out to the face. Null until the hand first moves; the caller then uses the full frame.
+export function findHandBox(frame: Rgba, previous: Rgba | null, prior: Box | null = null, options: Partial<HandOptions> = {}): Box | null {
+  const o = { ...DEFAULT_HAND_OPTIONS, ...options };
+  const mask = skinMotionMask(frame, previous, o);
+  const blob = pickHandBlob(findBlobs(mask, frame.width, frame.height), frame.width * frame.height, prior, o);
+  return blob && squareBox(blob.minX, blob.minY, blob.maxX, blob.maxY, frame.width, frame.height, o);
+}
+
+// Smooths the box over frames and rides out short detection gaps before giving up
+export class BoxTracker {
+  private box: Box | null = null;
+  private missed = 0;
+  private alpha: number;
+  private holdFrames: number;
+
+  constructor(alpha = 0.35, holdFrames = 30) {
+    this.alpha = alpha;
+    this.holdFrames = holdFrames;
+  }
+
+  get current() {
+    return this.box;
+  }
+
+  update(detected: Box | null): Box | null {
+    if (!detected) {
+      if (++this.missed > this.holdFrames) this.box = null;
+      return this.box;
+    }
+    this.missed = 0;
+    const a = this.alpha;
+    this.box = this.box
+      ? { x: this.box.x + a * (detected.x - this.box.x), y: this.box.y + a * (detected.y - this.box.y), size: this.box.size + a * (detected.size - this.box.size) }
+      : detected;
+    return this.box;
+  }
+
+  reset() {
+    this.box = null;
+    this.missed = 0;
+  }
+}
+
+// Gray-world white balance plus a 2–98% luminance stretch, in place
+export function normalizeLighting(image: Rgba) {
+  const { data } = image;
+  const n = data.length / 4;
+  if (n === 0) return;
+  let sr = 0, sg = 0, sb = 0;
+  const hist = new Uint32Array(256);
+  for (let p = 0; p < data.length; p += 4) {
+    sr += data[p]; sg += data[p + 1]; sb += data[p + 2];
+    hist[Math.round(0.299 * data[p] + 0.587 * data[p + 1] + 0.114 * data[p + 2])]++;
+  }
+  const gray = (sr + sg + sb) / 3;
+  const gain = (s: number) => Math.min(1.4, Math.max(0.7, s > 0 ? gray / s : 1));
+  const gr = gain(sr), gg = gain(sg), gb = gain(sb);
+
+  const percentile = (q: number) => {
+    let acc = 0;
+    for (let v = 0; v < 256; v++) { acc += hist[v]; if (acc >= q * n) return v; }
+    return 255;
+  };
+  const lo = percentile(0.02);
+  const hi = percentile(0.98);
+  const scale = hi - lo > 16 ? 255 / (hi - lo) : 1;
+  const offset = hi - lo > 16 ? lo : 0;
+  const clamp = (v: number) => (v < 0 ? 0 : v > 255 ? 255 : v);
+  for (let p = 0; p < data.length; p += 4) {
+    data[p] = clamp((data[p] * gr - offset) * scale);
+    data[p + 1] = clamp((data[p + 1] * gg - offset) * scale);
+    data[p + 2] = clamp((data[p + 2] * gb - offset) * scale);
+  }
+}
@@ -0,0 +1,8 @@
+// Registers the build-generated service worker (see scripts/pwa). Dev builds never register it so
+// Vite's module graph and HMR are not served from cache.
+export function registerServiceWorker() {
+  if (!import.meta.env.PROD || typeof navigator === 'undefined' || !('serviceWorker' in navigator)) return;
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch((err) => console.warn('Service worker registration failed:', err));
+  });
+}
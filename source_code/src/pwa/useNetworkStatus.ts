@@ -0,0 +1,30 @@
+import { useEffect, useState } from 'react';
+
+export type NetworkStatus = {
+  online: boolean;
+  offlineReady: boolean; // a service worker is active, so the app shell and bundled models are cached
+};
+
+const isOnline = () => typeof navigator === 'undefined' || navigator.onLine !== false;
+
+export function useNetworkStatus(): NetworkStatus {
+  const [online, setOnline] = useState(isOnline);
+  const [offlineReady, setOfflineReady] = useState(false);
+
+  useEffect(() => {
+    const update = () => setOnline(isOnline());
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    let cancelled = false;
+    if ('serviceWorker' in navigator) {
+      navigator.serviceWorker.ready.then((reg) => { if (!cancelled) setOfflineReady(!!reg.active); });
+    }
+    return () => {
+      cancelled = true;
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+    };
+  }, []);
+
+  return { online, offlineReady };
+}
@@ -0,0 +1,21 @@
+// Time source for the commit engine. Live recognition uses the wall clock;
+// replays and tests drive a manual clock from recorded timestamps.
+export interface Clock {
+  now(): number;
+}
+
+export const systemClock: Clock = { now: () => Date.now() };
+
+export type ManualClock = Clock & {
+  set(ms: number): void;
+  advance(ms: number): void;
+};
+
+export function createManualClock(start = 0): ManualClock {
+  let t = start;
+  return {
+    now: () => t,
+    set: (ms) => { t = ms; },
+    advance: (ms) => { t += ms; },
+  };
+}
@@ -0,0 +1,69 @@
+// Confusion matrix over a fixed label set; rows are the true label, columns the prediction
+export type ConfusionMatrix = {
+  labels: string[];
+  counts: number[][];
+};
+
+export type ClassMetrics = {
+  label: string;
+  support: number;   // true samples of this class
+  predicted: number; // samples predicted as this class
+  precision: number;
+  recall: number;
+  f1: number;
+};
+
+export type ConfusedPair = {
+  a: string;
+  b: string;
+  aAsB: number; // true a predicted as b
+  bAsA: number; // true b predicted as a
+  total: number;
+};
+
+export function createConfusionMatrix(labels: string[]): ConfusionMatrix {
+  return { labels: [...labels], counts: labels.map(() => labels.map(() => 0)) };
+}
+
+export function addObservation(m: ConfusionMatrix, actual: string, predicted: string) {
+  const i = m.labels.indexOf(actual);
+  const j = m.labels.indexOf(predicted);
+  if (i < 0 || j < 0) throw new Error(`Unknown label: ${i < 0 ? actual : predicted}`);
+  m.counts[i][j]++;
+}
+
+export function accuracy(m: ConfusionMatrix): number {
+  let correct = 0;
+  let total = 0;
+  m.counts.forEach((row, i) => row.forEach((n, j) => {
+    total += n;
+    if (i === j) correct += n;
+  }));
+  return total === 0 ? 0 : correct / total;
+}
+
+export function classMetrics(m: ConfusionMatrix): ClassMetrics[] {
+  return m.labels.map((label, i) => {
+    const tp = m.counts[i][i];
+    const support = m.counts[i].reduce((a, b) => a + b, 0);
+    const predicted = m.counts.reduce((sum, row) => sum + row[i], 0);
+    const precision = predicted === 0 ? 0 : tp / predicted;
+    const recall = support === 0 ? 0 : tp / support;
+    const f1 = precision + recall === 0 ? 0 : (2 * precision * recall) / (precision + recall);
+    return { label, support, predicted, precision, recall, f1 };
+  });
+}
+
+// Unordered label pairs ranked by how often either is mistaken for the other (e.g. M/N, U/V)
+export function mostConfusedPairs(m: ConfusionMatrix, limit = 10): ConfusedPair[] {
+  const pairs: ConfusedPair[] = [];
+  for (let i = 0; i < m.labels.length; i++) {
+    for (let j = i + 1; j < m.labels.length; j++) {
+      const aAsB = m.counts[i][j];
+      const bAsA = m.counts[j][i];
+      if (aAsB + bAsA === 0) continue;
+      pairs.push({ a: m.labels[i], b: m.labels[j], aAsB, bAsA, total: aAsB + bAsA });
+    }
+  }
+  return pairs.sort((x, y) => y.total - x.total).slice(0, limit);
+}
@@ -0,0 +1,76 @@
+import { labelKey } from './types';
+import type { CommittedToken } from './engine';
+
+// Control signs: committed signs that edit the transcript instead of being written to it, an optional
+// sign that accepts the top word completion, and an optional "hold the blank class" backspace. Settings persist as `asl_controls`.
+export type ControlAction = 'backspace' | 'deleteWord' | 'space' | 'undo' | 'redo' | 'clear';
+
+export const CONTROL_ACTIONS: ControlAction[] = ['backspace', 'deleteWord', 'space', 'undo', 'redo', 'clear'];
+
+export const CONTROL_ACTION_LABELS: Record<ControlAction, string> = {
+  backspace: 'Delete letter',
+  deleteWord: 'Delete word',
+  space: 'Space',
+  undo: 'Undo',
+  redo: 'Redo',
+  clear: 'Clear',
+};
+
+export type ControlSettings = {
+  enabled: boolean;
+  signs: Partial<Record<ControlAction, string>>; // controlKey(kind, label) of the bound sign
+  blankBackspaceMs: number;                      // hold the blank class this long to delete a letter; 0 = off
+  acceptSign: string;                            // controlKey of the sign that accepts the top completion; '' = none
+};
+
+export const DEFAULT_CONTROL_SETTINGS: ControlSettings = {
+  enabled: false,
+  signs: {},
+  blankBackspaceMs: 0,
+  acceptSign: '',
+};
+
+export const controlKey = labelKey;
+
+// The action bound to a committed token, or null for a sign that should be transcribed
+export function controlFor(settings: ControlSettings, token: CommittedToken): ControlAction | null {
+  if (!settings.enabled || token.kind === 'space') return null;
+  const key = controlKey(token.kind, token.label);
+  return CONTROL_ACTIONS.find((a) => settings.signs[a] === key) ?? null;
+}
+
+// Whether a committed token is the bound accept-completion sign
+export function isAcceptSign(settings: ControlSettings, token: CommittedToken): boolean {
+  if (!settings.enabled || !settings.acceptSign || token.kind === 'space') return false;
+  return controlKey(token.kind, token.label) === settings.acceptSign;
+}
+
+// Blank-hold backspace. Armed by each committed sign, it fires at most once per arming, so resting
+// the hand deletes one letter rather than the whole transcript.
+export class BlankHold {
+  private armed = false;
+  private since: number | null = null;
+
+  arm() {
+    this.armed = true;
+    this.since = null;
+  }
+
+  reset() {
+    this.armed = false;
+    this.since = null;
+  }
+
+  // One frame; returns true when the hold completes
+  step(timestamp: number, blank: boolean, holdMs: number): boolean {
+    if (!this.armed || holdMs <= 0) return false;
+    if (!blank) {
+      this.since = null;
+      return false;
+    }
+    this.since ??= timestamp;
+    if (timestamp - this.since < holdMs) return false;
+    this.reset();
+    return true;
+  }
+}
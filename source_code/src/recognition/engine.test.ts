@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import { CommitEngine } from './engine';
+import type { CommittedToken, EngineConfig } from './engine';
+import type { StrategyName } from './strategies';
+import type { ModelKind, Prediction } from './types';
+
+const FRAME_MS = 100;
+
+// One frame of a two-class model: `label` at `p`, the blank class takes the rest
+const frame = (label: string, p = 0.99): Prediction[] => [
+  { className: label, probability: p },
+  { className: ' ', probability: 1 - p },
+];
+const blank = () => frame(' ', 0.99);
+
+type Segment = { frames: Prediction[]; ms: number; kind?: ModelKind };
+const hold = (label: string, ms: number, p = 0.99, kind: ModelKind = 'letters'): Segment => ({ frames: frame(label, p), ms, kind });
+const rest = (ms: number, kind: ModelKind = 'letters'): Segment => ({ frames: blank(), ms, kind });
+
+// Replays segments at FRAME_MS per frame and returns the transcript the engine produced
+function replay(strategy: StrategyName, segments: Segment[], config: Partial<EngineConfig> = {}) {
+  const engine = new CommitEngine({ strategy, ...config });
+  const tokens: CommittedToken[] = [];
+  let t = 0;
+  for (const { frames, ms, kind } of segments) {
+    for (const end = t + ms; t < end; t += FRAME_MS) tokens.push(...engine.step(t, frames, kind).tokens);
+  }
+  tokens.push(...engine.tick(t).tokens);
+  return { text: tokens.map((tk) => tk.text).join(''), tokens };
+}
+
+const STRATEGIES: StrategyName[] = ['hold', 'majority', 'ema'];
+
+describe.each(STRATEGIES)('CommitEngine with %s smoothing', (strategy) => {
+  it('commits a letter held past holdMs once', () => {
+    expect(replay(strategy, [hold('A', 2000), rest(500)]).text).toBe('A');
+  });
+
+  it('does not commit a letter released before holdMs', () => {
+    expect(replay(strategy, [rest(1000), hold('A', 300), rest(1000)]).text).toBe('');
+  });
+
+  it('needs a release before repeating the same letter', () => {
+    expect(replay(strategy, [hold('L', 1500), rest(400), hold('L', 1500), rest(500)]).text).toBe('LL');
+  });
+
+  it('ignores predictions below the threshold', () => {
+    expect(replay(strategy, [hold('A', 2000, 0.9)], { threshold: 0.95 }).text).toBe('');
+    expect(replay(strategy, [hold('A', 2000, 0.9)], { threshold: 0.85 }).text).toBe('A');
+  });
+
+  it('applies per-label thresholds by kind', () => {
+    const labelThresholds = { 'letters:A': 0.85 };
+    expect(replay(strategy, [hold('A', 2000, 0.9)], { threshold: 0.95, labelThresholds }).text).toBe('A');
+    expect(replay(strategy, [hold('A', 2000, 0.9, 'words')], { threshold: 0.95, labelThresholds }).text).toBe('');
+  });
+
+  it('closes a fingerspelled word after letterGapMs of inactivity', () => {
+    const spelled = [hold('H', 1500), rest(400), hold('I', 1500)];
+    expect(replay(strategy, [...spelled, rest(4000)], { letterGapMs: 3000 }).text).toBe('HI ');
+    expect(replay(strategy, [...spelled, rest(2000)], { letterGapMs: 3000 }).text).toBe('HI');
+  });
+
+  it('lands the letter-gap boundary through tick() with no frames', () => {
+    const engine = new CommitEngine({ strategy, letterGapMs: 3000 });
+    let t = 0;
+    for (; t < 1500; t += FRAME_MS) engine.step(t, frame('A'));
+    expect(engine.tick(t + 2000).tokens).toEqual([]);
+    expect(engine.tick(t + 4000).tokens.map((tk) => tk.text)).toEqual([' ']);
+  });
+
+  it('waits wordGapMs before repeating the same word', () => {
+    const word = (ms: number) => hold('hello', ms, 0.99, 'words');
+    const config = { wordGapMs: 6000 };
+    expect(replay(strategy, [word(1500), rest(1000, 'words'), word(1500)], config).text).toBe('hello');
+    expect(replay(strategy, [word(1500), rest(6000, 'words'), word(1500)], config).text).toBe('hello hello');
+  });
+
+  it('separates words from fingerspelled letters', () => {
+    const segments = [hold('my', 1500, 0.99, 'words'), rest(800, 'words'), hold('A', 1500), rest(400), hold('B', 1500), rest(500)];
+    expect(replay(strategy, segments).text).toBe('my AB');
+  });
+});
+
+describe('smoothing strategies', () => {
+  // Every third frame of a held A dips below the threshold
+  const dips: Segment[] = Array.from({ length: 30 }, (_, i) => hold('A', FRAME_MS, i % 3 === 2 ? 0.9 : 0.99));
+  // Every third frame flickers to another letter above the threshold
+  const flicker: Segment[] = Array.from({ length: 30 }, (_, i) => hold(i % 3 === 2 ? 'B' : 'A', FRAME_MS));
+
+  it('hold-only restarts the hold on every dip or flicker', () => {
+    expect(replay('hold', dips, { holdMs: 300 }).text).toBe('');
+    expect(replay('hold', flicker, { holdMs: 300 }).text).toBe('');
+  });
+
+  it('majority and ema ride through one-frame confidence dips', () => {
+    expect(replay('majority', dips, { holdMs: 300 }).text).toBe('A');
+    expect(replay('ema', dips, { holdMs: 300 }).text).toBe('A');
+  });
+
+  it('majority rides through one-frame flicker to another label', () => {
+    expect(replay('majority', flicker, { holdMs: 300 }).text).toBe('A');
+  });
+
+  it('majority reports no label until enough of the window agrees', () => {
+    // A 0.6 agreement over 8 frames needs 5 frames: a 400ms burst never gets there
+    expect(replay('majority', [rest(1000), hold('A', 400), rest(1000)], { holdMs: 0 }).text).toBe('');
+    expect(replay('majority', [rest(1000), hold('A', 600), rest(1000)], { holdMs: 0 }).text).toBe('A');
+  });
+
+  it('ema needs several confident frames to cross the threshold', () => {
+    // From a blank start the smoothed probability passes 0.95 on the eighth frame of A (alpha 0.35)
+    expect(replay('ema', [rest(1000), hold('A', 700), rest(1000)], { holdMs: 0 }).text).toBe('');
+    expect(replay('ema', [rest(1000), hold('A', 800), rest(1000)], { holdMs: 0 }).text).toBe('A');
+  });
+});
@@ -0,0 +1,267 @@
+import { systemClock } from './clock';
+import type { Clock } from './clock';
+import { HybridFuser } from './hybrid';
+import type { HybridOptions } from './hybrid';
+import { createStrategy } from './strategies';
+import type { SmoothingStrategy, StrategyName } from './strategies';
+import { isBlankLabel, labelKey } from './types';
+import type { ModelKind, Prediction } from './types';
+
+export type EngineConfig = {
+  threshold: number;   // minimum confidence for a label to count as detected (0..1)
+  holdMs: number;      // how long a label must stay detected before it commits
+  releaseMs: number;   // low-confidence time that re-arms the same label for a repeat
+  letterGapMs: number; // inactivity after a letter that closes the word with a space
+  wordGapMs: number;   // minimum gap before the same word can be emitted again
+  labelThresholds: Record<string, number>; // per-label overrides of `threshold`, keyed by labelKey(kind, label)
+};
+
+export const DEFAULT_ENGINE_CONFIG: EngineConfig = {
+  threshold: 0.95,
+  holdMs: 600,
+  releaseMs: 300,
+  letterGapMs: 3000,
+  wordGapMs: 6000,
+  labelThresholds: {},
+};
+
+export type TokenKind = ModelKind | 'space';
+
+export type CommittedToken = {
+  text: string;
+  label: string;
+  kind: TokenKind;
+  timestamp: number;
+  confidence: number;
+};
+
+export type EngineEvent =
+  | { type: 'detect'; timestamp: number; kind: ModelKind; label: string; confidence: number } // hold started
+  | { type: 'release'; timestamp: number }                                                    // dropped below threshold
+  | { type: 'commit'; timestamp: number; token: CommittedToken }
+  | { type: 'boundary'; timestamp: number; token: CommittedToken };                           // letter gap closed a word
+
+export type EngineStep = {
+  timestamp: number;
+  kind: ModelKind;
+  prediction: Prediction; // smoothed prediction the gate evaluated
+  accepted: boolean;      // above threshold and not the blank class
+  tokens: CommittedToken[];
+  events: EngineEvent[];
+};
+
+export type CommitEngineOptions = Partial<EngineConfig> & {
+  clock?: Clock;
+  strategy?: StrategyName | SmoothingStrategy;
+  hybrid?: Partial<HybridOptions>;
+};
+
+// "thank_you" -> "thank you"; the pronoun "I" keeps its capital
+export const normalizeWord = (w: string) => (w === 'I' ? w : w.replace(/_/g, ' ').toLowerCase());
+
+const needsSeparator = (tail: string) => tail !== '' && tail !== ' ';
+
+// Turns per-frame predictions into committed transcript tokens.
+// Gating rules:
+// - a non-blank label at or above `threshold` (or its `labelThresholds` entry) starts a hold; it commits after `holdMs`
+// - the same label only commits again after `releaseMs` below threshold (words also need `wordGapMs`)
+// - letters are uppercased and concatenated; `letterGapMs` of inactivity closes the word with a space
+// - words are normalized and space-separated; switching between letters and words inserts a space
+// - `commitMotion` commits a sign recognized from movement; the pose it ends in waits for a release
+// The engine holds no timers and never reads the wall clock inside `step`, so recorded sequences
+// replay deterministically.
+export class CommitEngine {
+  private cfg: EngineConfig;
+  private clock: Clock;
+  private strategy: SmoothingStrategy;
+  private fuser: HybridFuser;
+
+  private detectedLabel = '';
+  private stableSince = 0;
+  private lastEmittedLabel = '';
+  private lastEmittedKind: ModelKind | null = null;
+  private releaseStart = 0;
+  private lastWordAt = 0;
+  private lastLetterAt: number | null = null; // pending letter-gap boundary
+  private lastKind: ModelKind | null = null;
+  private motionHeld = ''; // pose a motion sign ended in; blocked until released
+  private tail = '';
+
+  constructor(options: CommitEngineOptions = {}) {
+    const { clock, strategy, hybrid, ...cfg } = options;
+    this.cfg = { ...DEFAULT_ENGINE_CONFIG, ...cfg };
+    this.clock = clock || systemClock;
+    this.strategy = typeof strategy === 'object' ? strategy : createStrategy(strategy || 'hold');
+    this.fuser = new HybridFuser(hybrid);
+  }
+
+  get config(): EngineConfig {
+    return this.cfg;
+  }
+
+  get strategyName(): StrategyName {
+    return this.strategy.name;
+  }
+
+  now() {
+    return this.clock.now();
+  }
+
+  configure(partial: Partial<EngineConfig>) {
+    this.cfg = { ...this.cfg, ...partial };
+  }
+
+  setStrategy(strategy: StrategyName | SmoothingStrategy) {
+    this.strategy = typeof strategy === 'object' ? strategy : createStrategy(strategy);
+  }
+
+  // Tell the engine what precedes the insertion point (the transcript up to the cursor) so separators
+  // stay correct after external edits
+  syncTranscript(text: string) {
+    this.tail = text.slice(-1);
+  }
+
+  reset(transcript = '') {
+    this.detectedLabel = '';
+    this.stableSince = 0;
+    this.lastEmittedLabel = '';
+    this.lastEmittedKind = null;
+    this.releaseStart = 0;
+    this.lastWordAt = 0;
+    this.lastLetterAt = null;
+    this.lastKind = null;
+    this.motionHeld = '';
+    this.tail = transcript.slice(-1);
+    this.strategy.reset();
+    this.fuser.reset();
+  }
+
+  // Advance timers without a frame (e.g. camera off) so a pending word boundary still lands
+  tick(timestamp: number): EngineStep {
+    const result = this.emptyStep(timestamp, this.lastKind || 'letters');
+    this.checkBoundary(result);
+    return result;
+  }
+
+  step(timestamp: number, predictions: Prediction[], kind: ModelKind = 'letters'): EngineStep {
+    if (this.lastKind !== kind) this.strategy.reset();
+    this.lastKind = kind;
+
+    const result = this.emptyStep(timestamp, kind);
+    this.checkBoundary(result);
+
+    const prediction = this.strategy.next(predictions);
+    const label = prediction.className.trim();
+    const conf = prediction.probability;
+    result.prediction = prediction;
+
+    if (conf >= (this.cfg.labelThresholds[labelKey(kind, label)] ?? this.cfg.threshold) && !isBlankLabel(label)) {
+      result.accepted = true;
+      // Track when the current label started so we can enforce simple hold timing
+      if (this.detectedLabel !== label) {
+        this.detectedLabel = label;
+        this.stableSince = timestamp;
+        this.motionHeld = '';
+        result.events.push({ type: 'detect', timestamp, kind, label, confidence: conf });
+      }
+
+      // Commit when held long enough at high confidence; allow repeating the same sign after a release
+      const heldLongEnough = (timestamp - this.stableSince) >= this.cfg.holdMs;
+      const released = this.releaseStart > 0 && (timestamp - this.releaseStart) >= this.cfg.releaseMs;
+      const isNew = label !== this.lastEmittedLabel || kind !== this.lastEmittedKind;
+      if (heldLongEnough && (isNew || released) && label !== this.motionHeld) {
+        if (kind === 'words') {
+          this.commitWord(result, label, conf, isNew);
+        } else {
+          this.commitLetter(result, label, conf);
+        }
+      }
+    } else {
+      // Below threshold or blank class: start release timer and reset stability so next commit requires fresh hold
+      if (this.releaseStart === 0) {
+        this.releaseStart = timestamp;
+        result.events.push({ type: 'release', timestamp });
+      }
+      this.detectedLabel = '';
+      this.stableSince = 0;
+      this.motionHeld = '';
+    }
+
+    return result;
+  }
+
+  // A motion sign recognized over several frames (see motion.ts) commits with the rules of its kind.
+  // The pose the movement ends in is still on screen: it does not commit on its own until released.
+  commitMotion(timestamp: number, kind: ModelKind, label: string, confidence: number): EngineStep {
+    const result = this.emptyStep(timestamp, kind);
+    result.prediction = { className: label, probability: confidence };
+    result.accepted = true;
+    if (kind === 'words') this.commitWord(result, label, confidence, true);
+    else this.commitLetter(result, label, confidence);
+    this.motionHeld = this.detectedLabel;
+    return result;
+  }
+
+  // Auto mode: both models' predictions for one frame; the hybrid fuser picks the model per segment
+  stepHybrid(timestamp: number, frame: Record<ModelKind, Prediction[]>): EngineStep {
+    const fused = this.fuser.step(frame);
+    return this.step(timestamp, frame[fused.kind], fused.kind);
+  }
+
+  // Convenience for live use: step at the engine clock's current time
+  push(predictions: Prediction[], kind: ModelKind = 'letters'): EngineStep {
+    return this.step(this.clock.now(), predictions, kind);
+  }
+
+  private emptyStep(timestamp: number, kind: ModelKind): EngineStep {
+    return { timestamp, kind, prediction: { className: '', probability: 0 }, accepted: false, tokens: [], events: [] };
+  }
+
+  private emit(result: EngineStep, token: CommittedToken) {
+    result.tokens.push(token);
+    this.tail = token.text.slice(-1) || this.tail;
+  }
+
+  private separator(result: EngineStep, timestamp: number) {
+    if (!needsSeparator(this.tail)) return;
+    const token: CommittedToken = { text: ' ', label: ' ', kind: 'space', timestamp, confidence: 1 };
+    this.emit(result, token);
+    result.events.push({ type: 'commit', timestamp, token });
+  }
+
+  // Word boundary: if no new letter arrived within letterGapMs, close the word with a space
+  private checkBoundary(result: EngineStep) {
+    if (this.lastLetterAt === null || result.timestamp - this.lastLetterAt < this.cfg.letterGapMs) return;
+    this.lastLetterAt = null;
+    if (!needsSeparator(this.tail)) return;
+    const token: CommittedToken = { text: ' ', label: ' ', kind: 'space', timestamp: result.timestamp, confidence: 1 };
+    this.emit(result, token);
+    result.events.push({ type: 'boundary', timestamp: result.timestamp, token });
+  }
+
+  private commitLetter(result: EngineStep, label: string, confidence: number) {
+    const { timestamp } = result;
+    if (this.lastEmittedKind === 'words') this.separator(result, timestamp);
+    const token: CommittedToken = { text: label.toUpperCase(), label, kind: 'letters', timestamp, confidence };
+    this.emit(result, token);
+    result.events.push({ type: 'commit', timestamp, token });
+    this.lastEmittedLabel = label;
+    this.lastEmittedKind = 'letters';
+    this.releaseStart = 0;
+    this.lastLetterAt = timestamp;
+  }
+
+  private commitWord(result: EngineStep, label: string, confidence: number, isNew: boolean) {
+    const { timestamp } = result;
+    if (!isNew && timestamp - this.lastWordAt < this.cfg.wordGapMs) return;
+    this.lastLetterAt = null;
+    this.separator(result, timestamp);
+    const token: CommittedToken = { text: normalizeWord(label), label, kind: 'words', timestamp, confidence };
+    this.emit(result, token);
+    result.events.push({ type: 'commit', timestamp, token });
+    this.lastEmittedLabel = label;
+    this.lastEmittedKind = 'words';
+    this.lastWordAt = timestamp;
+    this.releaseStart = 0;
+  }
+}
@@ -0,0 +1,111 @@
+import { isBlankLabel } from './types';
+import type { ModelKind, Prediction } from './types';
+
+// Per-model view of one frame: best non-blank class, its lead over the runner-up, and the blank class score
+export type FrameSummary = {
+  best: Prediction;
+  margin: number;
+  blankProbability: number;
+  blankDominant: boolean;
+};
+
+export type FusedPrediction = {
+  kind: ModelKind;
+  prediction: Prediction;
+  margin: number;
+  idle: boolean; // both models see the blank class: the signer is resting between segments
+};
+
+export type HybridOptions = {
+  decay: number;        // per-frame decay of accumulated margin evidence
+  switchMargin: number; // evidence lead the other model needs to take over a decided segment
+  decideFrames: number; // frames at the start of a segment where the leader may change freely
+  idleFrames: number;   // consecutive blank frames that end a segment
+};
+
+export const DEFAULT_HYBRID_OPTIONS: HybridOptions = {
+  decay: 0.85,
+  switchMargin: 1.5,
+  decideFrames: 4,
+  idleFrames: 6,
+};
+
+const NO_PREDICTION: Prediction = { className: '', probability: 0 };
+
+export function summarize(preds: Prediction[]): FrameSummary {
+  let best = NO_PREDICTION;
+  let second = NO_PREDICTION;
+  let blankProbability = 0;
+  for (const p of preds) {
+    if (isBlankLabel(p.className)) {
+      blankProbability = Math.max(blankProbability, p.probability);
+    } else if (p.probability > best.probability) {
+      second = best;
+      best = p;
+    } else if (p.probability > second.probability) {
+      second = p;
+    }
+  }
+  return {
+    best,
+    margin: best.probability - second.probability,
+    blankProbability,
+    blankDominant: blankProbability >= best.probability,
+  };
+}
+
+// Decides per segment whether the signer is fingerspelling or signing a word.
+// Each model accumulates decaying evidence from its confidence margin on non-blank frames;
+// once a segment is decided, the other model only takes over with a clear evidence lead.
+// A run of frames where both models report their blank class ends the segment.
+export class HybridFuser {
+  private options: HybridOptions;
+  private kind: ModelKind | null = null;
+  private evidence: Record<ModelKind, number> = { letters: 0, words: 0 };
+  private segmentFrames = 0;
+  private idleCount = 0;
+
+  constructor(options: Partial<HybridOptions> = {}) {
+    this.options = { ...DEFAULT_HYBRID_OPTIONS, ...options };
+  }
+
+  get segmentKind(): ModelKind | null {
+    return this.kind;
+  }
+
+  reset() {
+    this.kind = null;
+    this.evidence = { letters: 0, words: 0 };
+    this.segmentFrames = 0;
+    this.idleCount = 0;
+  }
+
+  step(frame: Record<ModelKind, Prediction[]>): FusedPrediction {
+    const { decay, switchMargin, decideFrames, idleFrames } = this.options;
+    const letters = summarize(frame.letters);
+    const words = summarize(frame.words);
+
+    if (letters.blankDominant && words.blankDominant) {
+      this.idleCount++;
+      if (this.idleCount >= idleFrames) this.reset();
+      const kind = this.kind ?? 'letters';
+      const s = kind === 'letters' ? letters : words;
+      return { kind, prediction: { className: ' ', probability: s.blankProbability }, margin: 0, idle: true };
+    }
+
+    this.idleCount = 0;
+    this.segmentFrames++;
+    this.evidence.letters = this.evidence.letters * decay + (letters.blankDominant ? 0 : letters.margin);
+    this.evidence.words = this.evidence.words * decay + (words.blankDominant ? 0 : words.margin);
+
+    const leader: ModelKind = this.evidence.words > this.evidence.letters ? 'words' : 'letters';
+    if (this.kind === null || this.segmentFrames <= decideFrames) {
+      this.kind = leader;
+    } else if (leader !== this.kind && this.evidence[leader] - this.evidence[this.kind] >= switchMargin) {
+      this.kind = leader;
+    }
+
+    const s = this.kind === 'letters' ? letters : words;
+    return { kind: this.kind, prediction: s.best, margin: s.margin, idle: false };
+  }
+}
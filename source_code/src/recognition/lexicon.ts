@@ -0,0 +1,205 @@
+import { isBlankLabel } from './types';
+import type { Prediction } from './types';
+
+// Letter label -> probability for one committed letter (mean over the frames of its hold)
+export type LetterDistribution = Record<string, number>;
+
+export type Completion = { word: string; score: number; user: boolean };
+
+export type DecoderOptions = {
+  beamWidth: number;
+  topWords: number;     // completions kept per trie node
+  floor: number;        // minimum emission so a confusion never zeroes a path
+  skipProb: number;     // a committed letter that belongs to no word (flicker, doubled commit)
+  priorWeight: number;  // weight of the word-frequency prior against the letter evidence
+};
+
+export const DEFAULT_DECODER_OPTIONS: DecoderOptions = {
+  beamWidth: 12,
+  topWords: 6,
+  floor: 1e-3,
+  skipProb: 0.02,
+  priorWeight: 0.5,
+};
+
+// Letters the still-image model cannot tell apart, with the weight a sighting of one lends the other.
+// The letters model has no I (J is I plus motion, so its still pose is I); Z is a traced index finger.
+export const LETTER_ALIASES: Record<string, Array<[string, number]>> = {
+  I: [['J', 1]],
+  J: [['I', 1]],
+  Z: [['D', 0.4], ['X', 0.3]],
+  M: [['N', 0.5]], N: [['M', 0.5]],
+  A: [['S', 0.4], ['E', 0.3]], S: [['A', 0.4], ['T', 0.3]], E: [['A', 0.3], ['S', 0.3]], T: [['S', 0.3]],
+  U: [['V', 0.4], ['R', 0.4]], V: [['U', 0.4], ['K', 0.3]], R: [['U', 0.4]], K: [['V', 0.3]],
+  G: [['H', 0.5]], H: [['G', 0.5]],
+};
+
+type TrieNode = {
+  children: Map<string, TrieNode>;
+  word?: string;
+  top: Array<{ word: string; prior: number; user: boolean }>; // best words in this subtree by prior
+};
+
+const newNode = (): TrieNode => ({ children: new Map(), top: [] });
+const USER_PRIOR = Math.log(0.2); // user words rank with the most frequent bundled words
+
+// Uppercase trie over the bundled list (rank-based prior) and the user's own words
+export class Lexicon {
+  readonly root = newNode();
+  readonly size: number;
+  private topWords: number;
+
+  constructor(words: string[], userWords: string[] = [], topWords = DEFAULT_DECODER_OPTIONS.topWords) {
+    this.topWords = topWords;
+    const priors = new Map<string, { prior: number; user: boolean }>();
+    words.forEach((w, rank) => {
+      const key = w.toUpperCase();
+      if (/^[A-Z]+$/.test(key) && !priors.has(key)) priors.set(key, { prior: Math.log(1 / (rank + 20)), user: false });
+    });
+    for (const w of userWords) {
+      const key = w.toUpperCase();
+      if (/^[A-Z]+$/.test(key)) priors.set(key, { prior: USER_PRIOR, user: true });
+    }
+    for (const [word, p] of priors) this.insert(word, p.prior, p.user);
+    this.size = priors.size;
+    this.collectTop(this.root);
+  }
+
+  has(word: string) {
+    return this.find(word.toUpperCase())?.word !== undefined;
+  }
+
+  find(prefix: string): TrieNode | undefined {
+    let node: TrieNode | undefined = this.root;
+    for (const ch of prefix) {
+      node = node.children.get(ch);
+      if (!node) return undefined;
+    }
+    return node;
+  }
+
+  private insert(word: string, prior: number, user: boolean) {
+    let node = this.root;
+    for (const ch of word) {
+      let next = node.children.get(ch);
+      if (!next) { next = newNode(); node.children.set(ch, next); }
+      node = next;
+    }
+    node.word = word;
+    node.top = [{ word, prior, user }];
+  }
+
+  private collectTop(node: TrieNode): TrieNode['top'] {
+    const all = [...node.top];
+    for (const child of node.children.values()) all.push(...this.collectTop(child));
+    node.top = all.sort((a, b) => b.prior - a.prior).slice(0, this.topWords);
+    return node.top;
+  }
+}
+
+function emission(slot: LetterDistribution, ch: string, floor: number) {
+  let p = slot[ch] ?? 0;
+  for (const [alias, w] of LETTER_ALIASES[ch] || []) p = Math.max(p, (slot[alias] ?? 0) * w);
+  return Math.max(p, floor);
+}
+
+// Beam search over the trie: each committed letter either advances a path by one letter (scored by
+// its full distribution, not just the argmax) or is skipped as spurious. Surviving prefixes are then
+// completed with their subtree's most frequent words.
+export function decodeWord(lexicon: Lexicon, slots: LetterDistribution[], k = 3, options: Partial<DecoderOptions> = {}): Completion[] {
+  const o = { ...DEFAULT_DECODER_OPTIONS, ...options };
+  if (slots.length === 0) return [];
+  let beams: Array<{ node: TrieNode; score: number }> = [{ node: lexicon.root, score: 0 }];
+  for (const slot of slots) {
+    const best = new Map<TrieNode, number>();
+    const push = (node: TrieNode, score: number) => {
+      if ((best.get(node) ?? -Infinity) < score) best.set(node, score);
+    };
+    for (const b of beams) {
+      for (const [ch, child] of b.node.children) push(child, b.score + Math.log(emission(slot, ch, o.floor)));
+      push(b.node, b.score + Math.log(o.skipProb));
+    }
+    beams = [...best].map(([node, score]) => ({ node, score })).sort((a, b) => b.score - a.score).slice(0, o.beamWidth);
+  }
+
+  const words = new Map<string, Completion>();
+  for (const b of beams) {
+    if (b.node === lexicon.root) continue;
+    for (const t of b.node.top) {
+      const score = b.score + o.priorWeight * t.prior;
+      if ((words.get(t.word)?.score ?? -Infinity) < score) words.set(t.word, { word: t.word, score, user: t.user });
+    }
+  }
+  return [...words.values()].sort((a, b) => b.score - a.score).slice(0, k);
+}
+
+const toDistribution = (preds: Prediction[]): LetterDistribution => {
+  const d: LetterDistribution = {};
+  for (const p of preds) if (!isBlankLabel(p.className)) d[p.className.trim()] = p.probability;
+  return d;
+};
+
+// Collects per-frame letter distributions around the engine's letter commits. Feed every letters
+// frame to `observe`, then the engine's events: `beginLetter` on a letters detect, `commitLetter`
+// on a letters commit, `closeWord` on the letter-gap boundary and `endWord` when the word is over.
+export class FingerspellDecoder {
+  private frames: LetterDistribution[] = [];
+  private slots: LetterDistribution[] = [];
+  private spelled = '';
+  private closed = false;
+  private lexicon: Lexicon;
+  private options: DecoderOptions;
+
+  constructor(lexicon: Lexicon, options: Partial<DecoderOptions> = {}) {
+    this.lexicon = lexicon;
+    this.options = { ...DEFAULT_DECODER_OPTIONS, ...options };
+  }
+
+  // Letters committed for the current word, as the engine emitted them
+  get word() {
+    return this.spelled;
+  }
+
+  // True once the letter gap closed the word (completions stay on offer until the next letter)
+  get isClosed() {
+    return this.closed;
+  }
+
+  setLexicon(lexicon: Lexicon) {
+    this.lexicon = lexicon;
+  }
+
+  observe(preds: Prediction[]) {
+    this.frames.push(toDistribution(preds));
+    if (this.frames.length > 90) this.frames.shift();
+  }
+
+  // A new hold started: only its frames describe the next letter
+  beginLetter() {
+    this.frames = this.frames.slice(-1);
+  }
+
+  commitLetter(label: string) {
+    if (this.closed) this.endWord();
+    const mean: LetterDistribution = {};
+    for (const f of this.frames) for (const k in f) mean[k] = (mean[k] ?? 0) + f[k] / this.frames.length;
+    this.slots.push(this.frames.length ? mean : { [label]: 1 });
+    this.spelled += label;
+    this.frames = [];
+  }
+
+  closeWord() {
+    if (this.slots.length) this.closed = true;
+  }
+
+  endWord() {
+    this.slots = [];
+    this.frames = [];
+    this.spelled = '';
+    this.closed = false;
+  }
+
+  completions(k = 3): Completion[] {
+    return decodeWord(this.lexicon, this.slots, k, this.options);
+  }
+}
@@ -0,0 +1,28 @@
+// Levenshtein distance over characters (two-row dynamic programming)
+export function editDistance(a: string, b: string): number {
+  if (a === b) return 0;
+  if (a.length === 0) return b.length;
+  if (b.length === 0) return a.length;
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  let curr = new Array<number>(b.length + 1);
+  for (let i = 1; i <= a.length; i++) {
+    curr[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      curr[j] = Math.min(prev[j] + 1, curr[j - 1] + 1, prev[j - 1] + cost);
+    }
+    [prev, curr] = [curr, prev];
+  }
+  return prev[b.length];
+}
+
+// Case and whitespace are not what the sliders tune, so both sides are compared normalized
+export const normalizeTranscript = (s: string) => s.toUpperCase().replace(/\s+/g, ' ').trim();
+
+// Character error rate: edits needed to turn the hypothesis into the reference, per reference character
+export function characterErrorRate(hypothesis: string, reference: string): number {
+  const hyp = normalizeTranscript(hypothesis);
+  const ref = normalizeTranscript(reference);
+  if (ref.length === 0) return hyp.length === 0 ? 0 : 1;
+  return editDistance(hyp, ref) / ref.length;
+}
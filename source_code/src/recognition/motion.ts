@@ -0,0 +1,304 @@
+import { labelKey } from './types';
+import type { ModelKind, Prediction } from './types';
+
+// Motion signs (J, Z, "thank you", "help") are movements, which the single-frame classifiers can only see
+// as a sequence of poses. Each classified frame becomes a feature vector (the models' probabilities in
+// label order, plus the hand centre when hand crop tracks it); a sliding window of those vectors is
+// compared against templates the signer recorded, with dynamic time warping so a faster or slower
+// repetition still lines up. No DOM, no timers: the caller feeds frames with their timestamps.
+
+// Which features a vector holds; templates only match vectors of the same layout
+export type MotionLayout = {
+  kinds: ModelKind[];
+  labels: Partial<Record<ModelKind, string[]>>;
+  hand: boolean;
+};
+
+export const layoutKey = (layout: MotionLayout) =>
+  [...layout.kinds.map((k) => `${k}:${(layout.labels[k] ?? []).map((l) => l.trim()).join('|')}`), layout.hand ? 'hand' : 'no-hand'].join(';');
+
+export type HandPoint = { x: number; y: number }; // hand centre, 0..1 of the frame
+
+// Hand movement counts more than a probability shift of the same size: the pose sequence of J is close
+// to holding I, the trajectory is what tells them apart
+const HAND_WEIGHT = 2;
+
+export class FeatureExtractor {
+  readonly layout: MotionLayout;
+  private lastHand: HandPoint = { x: 0.5, y: 0.5 };
+
+  constructor(layout: MotionLayout) {
+    this.layout = layout;
+  }
+
+  // A frame without a detected hand keeps the last position rather than jumping to the centre
+  extract(frame: Partial<Record<ModelKind, Prediction[]>>, hand: HandPoint | null): number[] {
+    const out: number[] = [];
+    for (const kind of this.layout.kinds) {
+      const probs = new Map((frame[kind] ?? []).map((p) => [p.className.trim(), p.probability]));
+      for (const label of this.layout.labels[kind] ?? []) out.push(probs.get(label.trim()) ?? 0);
+    }
+    if (this.layout.hand) {
+      if (hand) this.lastHand = hand;
+      out.push(this.lastHand.x * HAND_WEIGHT, this.lastHand.y * HAND_WEIGHT);
+    }
+    return out;
+  }
+}
+
+export type MotionTemplate = {
+  id: string;
+  kind: ModelKind;    // commit rules: a letter or a word
+  label: string;      // what it commits ("J", "thankyou")
+  layout: string;     // layoutKey of the features it was recorded with
+  frames: number[][]; // TEMPLATE_FRAMES feature vectors
+  durationMs: number; // length of the recorded movement
+  energy: number;     // feature-space path length: how much it moves
+  createdAt: number;
+};
+
+export const TEMPLATE_FRAMES = 20;
+
+type Sample = { t: number; features: number[] };
+
+const distance = (a: number[], b: number[]) => {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += (a[i] - b[i]) ** 2;
+  return Math.sqrt(sum);
+};
+
+// Linear interpolation to n evenly spaced vectors
+export function resample(seq: number[][], n: number): number[][] {
+  if (seq.length === 0) return [];
+  if (seq.length === 1) return Array.from({ length: n }, () => [...seq[0]]);
+  return Array.from({ length: n }, (_, i) => {
+    const pos = (i * (seq.length - 1)) / (n - 1);
+    const lo = Math.floor(pos);
+    const hi = Math.min(seq.length - 1, lo + 1);
+    const w = pos - lo;
+    return seq[lo].map((v, d) => v + (seq[hi][d] - v) * w);
+  });
+}
+
+export function motionEnergy(seq: number[][]): number {
+  let sum = 0;
+  for (let i = 1; i < seq.length; i++) sum += distance(seq[i - 1], seq[i]);
+  return sum;
+}
+
+// DTW cost per step along the best alignment, with a Sakoe-Chiba band
+export function dtwDistance(a: number[][], b: number[][], band = Math.ceil(Math.max(a.length, b.length) / 4)): number {
+  const n = a.length;
+  const m = b.length;
+  if (!n || !m) return Infinity;
+  const w = Math.max(band, Math.abs(n - m));
+  let prev = new Array<number>(m + 1).fill(Infinity);
+  let prevLen = new Array<number>(m + 1).fill(0);
+  prev[0] = 0;
+  for (let i = 1; i <= n; i++) {
+    const cur = new Array<number>(m + 1).fill(Infinity);
+    const curLen = new Array<number>(m + 1).fill(0);
+    for (let j = Math.max(1, i - w); j <= Math.min(m, i + w); j++) {
+      // Cheapest predecessor: diagonal, up or left
+      let best = prev[j - 1];
+      let len = prevLen[j - 1];
+      if (prev[j] < best) { best = prev[j]; len = prevLen[j]; }
+      if (cur[j - 1] < best) { best = cur[j - 1]; len = curLen[j - 1]; }
+      cur[j] = best + distance(a[i - 1], b[j - 1]);
+      curLen[j] = len + 1;
+    }
+    prev = cur;
+    prevLen = curLen;
+  }
+  return prev[m] / prevLen[m];
+}
+
+const STILL_DELTA = 0.03; // frame-to-frame change below which the hand is considered still
+
+// Drops the still frames before the movement starts and after it ends (one frame of margin kept)
+export function trimStill(samples: Sample[]): Sample[] {
+  let start = 0;
+  let end = samples.length - 1;
+  while (start < end && distance(samples[start].features, samples[start + 1].features) < STILL_DELTA) start++;
+  while (end > start && distance(samples[end - 1].features, samples[end].features) < STILL_DELTA) end--;
+  return samples.slice(Math.max(0, start - 1), Math.min(samples.length, end + 2));
+}
+
+const MIN_TEMPLATE_MS = 200;
+const MIN_TEMPLATE_ENERGY = 0.2;
+
+// A recorded take -> template; null when the take is too short or barely moves
+export function buildTemplate(samples: Sample[], target: { kind: ModelKind; label: string }, layout: string, id: string, now: number): MotionTemplate | null {
+  const moving = trimStill(samples);
+  if (moving.length < 3) return null;
+  const durationMs = moving[moving.length - 1].t - moving[0].t;
+  const frames = resample(moving.map((s) => s.features), TEMPLATE_FRAMES);
+  const energy = motionEnergy(frames);
+  if (durationMs < MIN_TEMPLATE_MS || energy < MIN_TEMPLATE_ENERGY) return null;
+  const round = (v: number) => Math.round(v * 1000) / 1000; // keeps the persisted JSON small
+  return { id, ...target, layout, frames: frames.map((f) => f.map(round)), durationMs, energy, createdAt: now };
+}
+
+// Records one take for a new template: a short countdown, then a fixed window the movement must fit in
+export const TAKE_READY_MS = 1500;
+export const TAKE_RECORD_MS = 2500;
+
+export class MotionTake {
+  readonly samples: Sample[] = [];
+  private readonly startedAt: number;
+
+  constructor(now: number) {
+    this.startedAt = now;
+  }
+
+  state(now: number): { phase: 'ready' | 'recording' | 'done'; remainingMs: number } {
+    const elapsed = now - this.startedAt;
+    if (elapsed < TAKE_READY_MS) return { phase: 'ready', remainingMs: TAKE_READY_MS - elapsed };
+    if (elapsed < TAKE_READY_MS + TAKE_RECORD_MS) return { phase: 'recording', remainingMs: TAKE_READY_MS + TAKE_RECORD_MS - elapsed };
+    return { phase: 'done', remainingMs: 0 };
+  }
+
+  push(t: number, features: number[]) {
+    if (this.state(t).phase === 'recording') this.samples.push({ t, features });
+  }
+}
+
+export type MotionOptions = {
+  maxDistance: number;    // DTW distance that still matches a label with a single template
+  strideMs: number;       // how often the window is compared
+  minEnergyRatio: number; // the window must move at least this share of the template's movement
+};
+
+export const DEFAULT_MOTION_OPTIONS: MotionOptions = {
+  maxDistance: 0.35,
+  strideMs: 150,
+  minEnergyRatio: 0.5,
+};
+
+// Per-device switch and strictness, persisted as `asl_motion`; templates persist as `asl_motion_templates`
+export type MotionSettings = {
+  enabled: boolean;
+  maxDistance: number;
+};
+
+export const DEFAULT_MOTION_SETTINGS: MotionSettings = {
+  enabled: true,
+  maxDistance: DEFAULT_MOTION_OPTIONS.maxDistance,
+};
+
+export const MIN_MOTION_DISTANCE = 0.1;
+export const MAX_MOTION_DISTANCE = 0.8;
+
+export type MotionMatch = {
+  kind: ModelKind;
+  label: string;
+  distance: number;
+  confidence: number; // 1 at a perfect match, 0.5 at the label's acceptance radius
+  startedAt: number;  // timestamp of the first frame of the matched movement
+  timestamp: number;
+};
+
+// Window lengths tried against each template, relative to its recorded duration
+const SCALES = [0.75, 1, 1.3];
+
+export class MotionRecognizer {
+  private opts: MotionOptions;
+  private templates: MotionTemplate[] = [];
+  private radius = new Map<string, number>();
+  private buffer: Sample[] = [];
+  private lastCheck = 0;
+  private maxDuration = 0;
+  private pending: { match: MotionMatch; ratio: number } | null = null;
+
+  constructor(opts: Partial<MotionOptions> = {}) {
+    this.opts = { ...DEFAULT_MOTION_OPTIONS, ...opts };
+  }
+
+  get active() {
+    return this.templates.length > 0;
+  }
+
+  configure(partial: Partial<MotionOptions>) {
+    this.opts = { ...this.opts, ...partial };
+    this.computeRadius();
+  }
+
+  // Keeps only the templates recorded with `layout`; the buffer restarts since its vectors may not fit
+  setTemplates(templates: MotionTemplate[], layout: string) {
+    this.templates = templates.filter((t) => t.layout === layout);
+    this.maxDuration = Math.max(0, ...this.templates.map((t) => t.durationMs));
+    this.reset();
+    this.computeRadius();
+  }
+
+  reset() {
+    this.buffer = [];
+    this.pending = null;
+  }
+
+  push(t: number, features: number[]): MotionMatch | null {
+    if (!this.active) return null;
+    this.buffer.push({ t, features });
+    const horizon = t - this.maxDuration * SCALES[SCALES.length - 1] - this.opts.strideMs;
+    while (this.buffer.length && this.buffer[0].t < horizon) this.buffer.shift();
+    if (t - this.lastCheck < this.opts.strideMs) return null;
+    this.lastCheck = t;
+
+    // Nearest template over the trailing windows, per label
+    const best = new Map<string, { template: MotionTemplate; distance: number; startedAt: number }>();
+    for (const template of this.templates) {
+      for (const scale of SCALES) {
+        const from = t - template.durationMs * scale;
+        if (this.buffer[0].t > from) continue; // not enough history yet
+        const window = this.buffer.filter((s) => s.t >= from);
+        if (window.length < 3) continue;
+        const frames = resample(window.map((s) => s.features), TEMPLATE_FRAMES);
+        if (motionEnergy(frames) < template.energy * this.opts.minEnergyRatio) continue;
+        const d = dtwDistance(frames, template.frames);
+        const key = labelKey(template.kind, template.label);
+        const current = best.get(key);
+        if (!current || d < current.distance) best.set(key, { template, distance: d, startedAt: window[0].t });
+      }
+    }
+
+    // Closest label relative to its own radius; nothing inside a radius means no motion sign
+    let match: MotionMatch | null = null;
+    let bestRatio = 1;
+    for (const [key, { template, distance: d, startedAt }] of best) {
+      const ratio = d / (this.radius.get(key) ?? this.opts.maxDistance);
+      if (ratio > bestRatio) continue;
+      bestRatio = ratio;
+      match = { kind: template.kind, label: template.label, distance: d, confidence: 1 - ratio / 2, startedAt, timestamp: t };
+    }
+
+    // A partial movement can already fall inside the radius: wait until the distance stops improving
+    if (match && (!this.pending || bestRatio < this.pending.ratio)) {
+      this.pending = { match, ratio: bestRatio };
+      return null;
+    }
+    const found = this.pending?.match ?? null;
+    // A match starts over: the next one needs a whole new movement in the window
+    if (found) this.reset();
+    return found;
+  }
+
+  // Labels with several takes accept up to 1.5× their takes' own spread (within 0.5–2× maxDistance)
+  private computeRadius() {
+    this.radius.clear();
+    const byLabel = new Map<string, MotionTemplate[]>();
+    for (const t of this.templates) {
+      const key = labelKey(t.kind, t.label);
+      byLabel.set(key, [...(byLabel.get(key) ?? []), t]);
+    }
+    for (const [key, takes] of byLabel) {
+      if (takes.length < 2) continue;
+      const spreads: number[] = [];
+      for (let i = 0; i < takes.length; i++) {
+        for (let j = i + 1; j < takes.length; j++) spreads.push(dtwDistance(takes[i].frames, takes[j].frames));
+      }
+      const mean = spreads.reduce((a, b) => a + b, 0) / spreads.length;
+      const max = this.opts.maxDistance;
+      this.radius.set(key, Math.min(2 * max, Math.max(0.5 * max, mean * 1.5)));
+    }
+  }
+}
@@ -0,0 +1,79 @@
+import { createManualClock } from './clock';
+import { CommitEngine } from './engine';
+import type { CommittedToken, EngineConfig } from './engine';
+import { characterErrorRate } from './metrics';
+import type { StrategyName } from './strategies';
+import type { Trace } from './trace';
+
+export type ReplayOptions = {
+  config?: Partial<EngineConfig>;
+  strategy?: StrategyName;
+};
+
+export type ReplayResult = {
+  transcript: string;
+  tokens: CommittedToken[];
+  frames: number;
+  durationMs: number;
+};
+
+// Feeds a recorded trace through a fresh CommitEngine on the trace's own timeline.
+// Settings default to the ones the trace was recorded with; overrides are applied on top.
+export function replayTrace(trace: Trace, options: ReplayOptions = {}): ReplayResult {
+  const clock = createManualClock(0);
+  const engine = new CommitEngine({
+    ...trace.header.config,
+    ...options.config,
+    strategy: options.strategy || trace.header.strategy,
+    clock,
+  });
+
+  const tokens: CommittedToken[] = [];
+  for (const frame of trace.frames) {
+    clock.set(frame.t);
+    const { letters, words } = frame.predictions;
+    const result = letters && words
+      ? engine.stepHybrid(frame.t, { letters, words })
+      : words
+        ? engine.step(frame.t, words, 'words')
+        : engine.step(frame.t, letters || [], 'letters');
+    tokens.push(...result.tokens);
+  }
+
+  // Let a trailing word boundary land, as it would have live after the last frame
+  const end = trace.frames.length > 0 ? trace.frames[trace.frames.length - 1].t : 0;
+  tokens.push(...engine.tick(end + engine.config.letterGapMs).tokens);
+
+  return {
+    transcript: tokens.map((t) => t.text).join(''),
+    tokens,
+    frames: trace.frames.length,
+    durationMs: end,
+  };
+}
+
+export type SweepResult = {
+  threshold: number;
+  holdMs: number;
+  strategy: StrategyName;
+  transcript: string;
+  cer: number;
+};
+
+// Grid search over threshold × holdMs × strategy, sorted best (lowest CER) first
+export function sweepTrace(
+  trace: Trace,
+  reference: string,
+  grid: { thresholds: number[]; holdMs: number[]; strategies: StrategyName[] },
+): SweepResult[] {
+  const results: SweepResult[] = [];
+  for (const strategy of grid.strategies) {
+    for (const threshold of grid.thresholds) {
+      for (const holdMs of grid.holdMs) {
+        const { transcript } = replayTrace(trace, { config: { threshold, holdMs }, strategy });
+        results.push({ threshold, holdMs, strategy, transcript, cer: characterErrorRate(transcript, reference) });
+      }
+    }
+  }
+  return results.sort((a, b) => a.cer - b.cer);
+}
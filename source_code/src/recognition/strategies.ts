@@ -0,0 +1,93 @@
+import type { Prediction } from './types';
+
+// Turns the raw per-frame distribution into the single prediction the commit gate sees
+export interface SmoothingStrategy {
+  readonly name: StrategyName;
+  next(preds: Prediction[]): Prediction;
+  reset(): void;
+}
+
+export type StrategyName = 'hold' | 'majority' | 'ema';
+
+export type StrategyOptions = {
+  majorityFrames: number;    // window size for N-frame majority
+  majorityAgreement: number; // fraction of the window that must agree (0..1)
+  emaAlpha: number;          // weight of the newest frame in EMA smoothing (0..1)
+};
+
+export const DEFAULT_STRATEGY_OPTIONS: StrategyOptions = {
+  majorityFrames: 8,
+  majorityAgreement: 0.6,
+  emaAlpha: 0.35,
+};
+
+const argmax = (preds: Prediction[]): Prediction =>
+  preds.reduce((a, b) => (a.probability > b.probability ? a : b), { className: '', probability: 0 });
+
+// Hold-only: the frame's own argmax; all debouncing is left to the hold/release timers
+export function holdOnly(): SmoothingStrategy {
+  return { name: 'hold', next: argmax, reset: () => {} };
+}
+
+// N-frame majority: the most frequent argmax over the last N frames, scored by its mean probability.
+// Below the agreement fraction the label is reported with probability 0 so the gate treats it as a release.
+export function majority(frames = DEFAULT_STRATEGY_OPTIONS.majorityFrames, agreement = DEFAULT_STRATEGY_OPTIONS.majorityAgreement): SmoothingStrategy {
+  let window: Prediction[] = [];
+  return {
+    name: 'majority',
+    next(preds) {
+      window.push(argmax(preds));
+      if (window.length > frames) window.shift();
+      const counts = new Map<string, { n: number; sum: number }>();
+      for (const p of window) {
+        const c = counts.get(p.className) || { n: 0, sum: 0 };
+        c.n++;
+        c.sum += p.probability;
+        counts.set(p.className, c);
+      }
+      let label = '';
+      let top = { n: 0, sum: 0 };
+      for (const [l, c] of counts) {
+        if (c.n > top.n || (c.n === top.n && c.sum > top.sum)) { label = l; top = c; }
+      }
+      const agreed = top.n >= Math.ceil(frames * agreement);
+      return { className: label, probability: agreed ? top.sum / top.n : 0 };
+    },
+    reset() { window = []; },
+  };
+}
+
+// EMA smoothing: exponentially averaged probability per class, argmax of the smoothed distribution
+export function ema(alpha = DEFAULT_STRATEGY_OPTIONS.emaAlpha): SmoothingStrategy {
+  let smoothed = new Map<string, number>();
+  return {
+    name: 'ema',
+    next(preds) {
+      if (smoothed.size === 0) {
+        for (const p of preds) smoothed.set(p.className, p.probability);
+      } else {
+        // Classes missing from this frame decay toward zero
+        const current = new Map(preds.map((p) => [p.className, p.probability] as const));
+        for (const className of new Set([...smoothed.keys(), ...current.keys()])) {
+          const prev = smoothed.get(className) ?? 0;
+          smoothed.set(className, prev + alpha * ((current.get(className) ?? 0) - prev));
+        }
+      }
+      let best: Prediction = { className: '', probability: 0 };
+      for (const [className, probability] of smoothed) {
+        if (probability > best.probability) best = { className, probability };
+      }
+      return best;
+    },
+    reset() { smoothed = new Map(); },
+  };
+}
+
+export function createStrategy(name: StrategyName, options: Partial<StrategyOptions> = {}): SmoothingStrategy {
+  const o = { ...DEFAULT_STRATEGY_OPTIONS, ...options };
+  switch (name) {
+    case 'majority': return majority(o.majorityFrames, o.majorityAgreement);
+    case 'ema': return ema(o.emaAlpha);
+    default: return holdOnly();
+  }
+}
@@ -0,0 +1,134 @@
+import type { CommittedToken, EngineConfig } from './engine';
+import type { StrategyName } from './strategies';
+import type { ModelKind, Prediction, RecognitionMode } from './types';
+
+// Recorded sessions are NDJSON: one header line, then frame and commit lines in time order,
+// then an end line with the final transcript. The same records can be wrapped in one JSON object.
+export const TRACE_VERSION = 1;
+
+export type TraceHeader = {
+  type: 'header';
+  version: number;
+  startedAt: number;              // wall-clock ms of the first frame
+  mode: RecognitionMode;
+  config: EngineConfig;
+  strategy: StrategyName;
+  labels?: Partial<Record<ModelKind, string[]>>;
+  reference?: string;             // optional ground-truth transcript for evaluation
+};
+
+// Full distributions from every model that ran on the frame; `t` is ms since `startedAt`
+export type TraceFrame = {
+  type: 'frame';
+  t: number;
+  predictions: Partial<Record<ModelKind, Prediction[]>>;
+};
+
+export type TraceCommit = {
+  type: 'commit';
+  t: number;
+  token: CommittedToken;
+};
+
+export type TraceEnd = {
+  type: 'end';
+  t: number;
+  transcript: string;
+};
+
+export type TraceRecord = TraceHeader | TraceFrame | TraceCommit | TraceEnd;
+
+export type Trace = {
+  header: TraceHeader;
+  frames: TraceFrame[];
+  commits: TraceCommit[];
+  transcript: string;
+};
+
+export class TraceRecorder {
+  private header: TraceHeader;
+  private frames: TraceFrame[] = [];
+  private commits: TraceCommit[] = [];
+  private transcript = '';
+
+  constructor(header: Omit<TraceHeader, 'type' | 'version'>) {
+    this.header = { type: 'header', version: TRACE_VERSION, ...header };
+  }
+
+  get frameCount() {
+    return this.frames.length;
+  }
+
+  frame(timestamp: number, predictions: Partial<Record<ModelKind, Prediction[]>>) {
+    this.frames.push({ type: 'frame', t: timestamp - this.header.startedAt, predictions });
+  }
+
+  commit(token: CommittedToken) {
+    this.commits.push({ type: 'commit', t: token.timestamp - this.header.startedAt, token });
+    this.transcript += token.text;
+  }
+
+  finish(): Trace {
+    return { header: this.header, frames: this.frames, commits: this.commits, transcript: this.transcript };
+  }
+}
+
+export function traceToNDJSON(trace: Trace): string {
+  const last = trace.frames.length > 0 ? trace.frames[trace.frames.length - 1].t : 0;
+  const records: TraceRecord[] = [
+    trace.header,
+    ...mergeByTime(trace.frames, trace.commits),
+    { type: 'end', t: last, transcript: trace.transcript },
+  ];
+  return records.map((r) => JSON.stringify(r)).join('\n') + '\n';
+}
+
+export function traceToJSON(trace: Trace): string {
+  return JSON.stringify(trace);
+}
+
+// Accepts either format; throws on anything without a header
+export function parseTrace(input: string): Trace {
+  const text = input.trim();
+  let whole: any = null;
+  try { whole = JSON.parse(text); } catch { /* multi-line NDJSON */ }
+  if (whole && whole.header) {
+    return normalize(whole.header, whole.frames || [], whole.commits || [], whole.transcript);
+  }
+
+  let header: TraceHeader | null = null;
+  const frames: TraceFrame[] = [];
+  const commits: TraceCommit[] = [];
+  let transcript: string | undefined;
+  for (const line of text.split(/\r?\n/)) {
+    if (!line.trim()) continue;
+    const rec = JSON.parse(line) as TraceRecord;
+    if (rec.type === 'header') header = rec;
+    else if (rec.type === 'frame') frames.push(rec);
+    else if (rec.type === 'commit') commits.push(rec);
+    else if (rec.type === 'end') transcript = rec.transcript;
+  }
+  return normalize(header, frames, commits, transcript);
+}
+
+function normalize(header: TraceHeader | null, frames: TraceFrame[], commits: TraceCommit[], transcript?: string): Trace {
+  if (!header || header.type !== 'header') throw new Error('Trace is missing its header record');
+  if (header.version > TRACE_VERSION) throw new Error(`Unsupported trace version ${header.version}`);
+  return {
+    header,
+    frames,
+    commits,
+    transcript: transcript ?? commits.map((c) => c.token.text).join(''),
+  };
+}
+
+function mergeByTime(frames: TraceFrame[], commits: TraceCommit[]): TraceRecord[] {
+  const out: TraceRecord[] = [];
+  let c = 0;
+  for (const f of frames) {
+    while (c < commits.length && commits[c].t < f.t) out.push(commits[c++]);
+    out.push(f);
+  }
+  while (c < commits.length) out.push(commits[c++]);
+  return out;
+}
@@ -0,0 +1,14 @@
+// Same shape as '@teachablemachine/image' predictions, declared here so this folder runs under Node too
+export type Prediction = { className: string; probability: number };
+
+// The two bundled Teachable Machine models
+export type ModelKind = 'letters' | 'words';
+
+// letters: fingerspelling model only; words: whole-word model only; auto: both, fused per segment
+export type RecognitionMode = 'letters' | 'words' | 'auto';
+
+// Both models ship a whitespace-only "nothing signed" class (letters: "   ", words: " ")
+export const isBlankLabel = (label: string) => label.trim() === '';
+
+// Per-kind key for settings that name a label ("letters:A", "words:I"): both models can share a label
+export const labelKey = (kind: ModelKind, label: string) => `${kind}:${label}`;
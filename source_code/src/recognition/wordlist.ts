@@ -0,0 +1,32 @@
+// Bundled lexicon for fingerspelling completion, most frequent first (rank is the decoder's prior).
+// Everyday conversational English plus names of common places and things people fingerspell.
+export const WORD_LIST: string[] = `
+the be to of and a in that have it for not on with he as you do at this but his by from they we say
+her she or an will my one all would there their what so up out if about who get which go me when make
+can like time no just him know take people into year your good some could them see other than then now
+look only come its over think also back after use two how our work first well way even new want because
+any these give day most us is are was were been has had did does am yes hello hi please thank thanks
+sorry help name nice meet friend family mother father mom dad sister brother baby child children boy
+girl man woman teacher student school class learn study read write book paper pen word sign language
+deaf hearing interpreter understand again slow fast more less finish start stop wait ready happy sad
+tired sick hungry thirsty eat drink water food milk coffee tea apple bread lunch dinner breakfast home
+house room bed bathroom door car bus train walk drive money buy pay store work job office today
+tomorrow yesterday morning afternoon evening night week month hour minute late early always never
+sometimes often where why who which what when how much many old young big small hot cold good bad
+right wrong true false same different easy hard love hate feel fine okay ok great wonderful beautiful
+funny play game ball music dance movie phone call text email computer name city country town street
+love forget remember need must should may might let put keep tell ask answer question problem idea
+live life world place thing part number point fact hand head face eye ear mouth body heart mind
+friend party birthday holiday vacation christmas summer winter spring fall weather rain snow sun
+dog cat bird fish horse cow pig chicken animal tree flower grass garden park beach river lake
+red blue green yellow black white orange purple pink brown color
+one two three four five six seven eight nine ten hundred thousand first second third last next
+monday tuesday wednesday thursday friday saturday sunday weekend january february march april june
+july august september october november december
+doctor nurse hospital medicine pain hurt emergency police fire safe danger careful
+church library restaurant hotel airport station bank post office market shop
+shirt pants shoes hat coat dress clothes wash clean dirty cook kitchen table chair window
+open close turn fix break build make change move carry bring send show find lose win
+together alone with without before after during under over between near far here there
+very really too also only just still already soon maybe probably sure welcome goodbye bye
+`.trim().split(/\s+/).filter((w, i, all) => all.indexOf(w) === i);
@@ -0,0 +1,152 @@
+import { isBlankLabel, labelKey } from '../recognition/types';
+import type { ModelKind, Prediction } from '../recognition/types';
+import { clampLabelThreshold, clampSetting, RecognitionSettings } from './recognition';
+
+// Calibration: the user holds each chosen sign for a few seconds while the live predictions are
+// recorded, then the recording is turned into a suggested threshold, hold time and per-label
+// thresholds for the signs this user's camera and hands make weak. No DOM, no timers: the caller
+// feeds classified frames with push(t, predictions) and re-renders from state(t).
+export const READY_MS = 2000;  // countdown before each sign so the hand can get into place
+export const RECORD_MS = 4000; // recording per sign
+
+export type CalibrationTarget = { kind: ModelKind; label: string }; // label trimmed, like the engine's
+
+// One classified frame while a sign was being held
+type Sample = { t: number; top: string; topProb: number; targetProb: number };
+
+export type CalibrationPhase = 'ready' | 'recording' | 'done';
+
+export class CalibrationRun {
+  readonly targets: CalibrationTarget[];
+  readonly samples: Sample[][];
+  index = 0;
+  private phaseStart: number;
+  private recording = false;
+
+  constructor(targets: CalibrationTarget[], now: number) {
+    this.targets = targets.filter((t) => !isBlankLabel(t.label));
+    this.samples = this.targets.map(() => []);
+    this.phaseStart = now;
+  }
+
+  get current(): CalibrationTarget | null {
+    return this.targets[this.index] ?? null;
+  }
+
+  get done() {
+    return this.index >= this.targets.length;
+  }
+
+  // Advances through ready -> recording -> next sign as time passes
+  state(now: number): { phase: CalibrationPhase; remainingMs: number } {
+    if (this.done) return { phase: 'done', remainingMs: 0 };
+    if (!this.recording && now - this.phaseStart >= READY_MS) {
+      this.recording = true;
+      this.phaseStart += READY_MS;
+    }
+    if (this.recording && now - this.phaseStart >= RECORD_MS) {
+      this.index++;
+      this.recording = false;
+      this.phaseStart += RECORD_MS;
+      return this.state(now);
+    }
+    const phase: CalibrationPhase = this.recording ? 'recording' : 'ready';
+    return { phase, remainingMs: this.phaseStart + (this.recording ? RECORD_MS : READY_MS) - now };
+  }
+
+  // Predictions of the current target's model; ignored outside recording
+  push(t: number, predictions: Prediction[]) {
+    if (this.state(t).phase !== 'recording' || !predictions.length) return;
+    const target = this.current!;
+    const top = predictions.reduce((a, b) => (b.probability > a.probability ? b : a));
+    const hit = predictions.find((p) => p.className.trim() === target.label);
+    this.samples[this.index].push({ t, top: top.className.trim(), topProb: top.probability, targetProb: hit ? hit.probability : 0 });
+  }
+
+  // Stops early: signs not reached are left out of the analysis
+  results(): LabelCalibration[] {
+    return this.targets
+      .map((target, i) => analyzeLabel(target, this.samples[i]))
+      .filter((r) => r.frames > 0);
+  }
+}
+
+export type LabelCalibration = CalibrationTarget & {
+  frames: number;
+  hitRate: number;       // share of frames where the target was the top prediction
+  median: number;        // median confidence in the target after onset
+  p20: number;           // 20th percentile after onset: the threshold has to stay under it to accept most frames
+  longestRunMs: number;  // longest stretch with the target on top
+  onsetMs: number | null; // time until the target first came out on top
+  wrongRunMs: number;    // longest stretch with another non-blank sign on top at ≥ 70%
+};
+
+const quantile = (sorted: number[], q: number) => {
+  if (!sorted.length) return 0;
+  const pos = (sorted.length - 1) * q;
+  const lo = Math.floor(pos);
+  const hi = Math.ceil(pos);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (pos - lo);
+};
+
+// Longest span (first to last timestamp) of consecutive samples matching `pred`
+const longestRun = (samples: Sample[], pred: (s: Sample) => boolean) => {
+  let best = 0;
+  let start: number | null = null;
+  for (const s of samples) {
+    if (!pred(s)) {
+      start = null;
+      continue;
+    }
+    if (start === null) start = s.t;
+    best = Math.max(best, s.t - start);
+  }
+  return best;
+};
+
+export function analyzeLabel(target: CalibrationTarget, samples: Sample[]): LabelCalibration {
+  const onTop = (s: Sample) => s.top === target.label;
+  const first = samples.find(onTop);
+  // Confidence once the handshape first registered: frames spent moving into it say nothing about the threshold
+  const settled = first ? samples.slice(samples.indexOf(first)) : samples;
+  const confidences = settled.map((s) => s.targetProb).sort((a, b) => a - b);
+  return {
+    ...target,
+    frames: samples.length,
+    hitRate: samples.length ? samples.filter(onTop).length / samples.length : 0,
+    median: quantile(confidences, 0.5),
+    p20: quantile(confidences, 0.2),
+    longestRunMs: longestRun(samples, onTop),
+    onsetMs: first && samples.length ? first.t - samples[0].t : null,
+    wrongRunMs: longestRun(samples, (s) => !onTop(s) && !isBlankLabel(s.top) && s.topProb >= 0.7),
+  };
+}
+
+export type CalibrationSuggestion = Pick<RecognitionSettings, 'threshold' | 'holdMs' | 'labelThresholds'> & {
+  weak: LabelCalibration[]; // signs that got their own threshold
+  missed: LabelCalibration[]; // signs the model almost never recognized: retrain or capture more samples
+};
+
+const MISSED_HIT_RATE = 0.3; // below this a lower threshold would only invite wrong commits
+const WEAK_MARGIN = 0.03;    // how far under the global threshold a sign's p20 has to be to get its own
+
+// Global threshold just under the typical sign's 20th-percentile confidence; signs well under it get
+// their own lower threshold. The hold has to outlast spurious runs of other signs (seen while moving
+// into a handshape) yet stay well inside how long this user actually holds a sign.
+export function suggestSettings(results: LabelCalibration[]): CalibrationSuggestion | null {
+  const usable = results.filter((r) => r.hitRate >= MISSED_HIT_RATE);
+  const missed = results.filter((r) => r.hitRate < MISSED_HIT_RATE);
+  if (!usable.length) return null;
+
+  const p20s = usable.map((r) => r.p20).sort((a, b) => a - b);
+  const threshold = Math.min(0.99, clampSetting('threshold', quantile(p20s, 0.5) - 0.02));
+
+  const labelThresholds: Record<string, number> = {};
+  const weak = usable.filter((r) => r.p20 < threshold - WEAK_MARGIN);
+  for (const r of weak) labelThresholds[labelKey(r.kind, r.label)] = clampLabelThreshold(r.p20 - 0.02);
+
+  const runs = usable.map((r) => r.longestRunMs).sort((a, b) => a - b);
+  const spurious = Math.max(...results.map((r) => r.wrongRunMs));
+  const hold = Math.min(Math.max(spurious + 100, 300), quantile(runs, 0.5) * 0.6);
+  return { threshold, holdMs: clampSetting('holdMs', hold), labelThresholds, weak, missed };
+}
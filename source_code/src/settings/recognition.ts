@@ -0,0 +1,118 @@
+import { DEFAULT_ENGINE_CONFIG } from '../recognition/engine';
+import type { EngineConfig } from '../recognition/engine';
+import { MAX_TARGET_FPS, MIN_TARGET_FPS } from '../inference/pacer';
+
+// Every per-device recognition parameter in one object: the engine's gating and timing, per-label
+// thresholds, inference rate and hand crop. Persisted as `asl_recognition` and exchanged as JSON profiles.
+export type RecognitionSettings = Pick<EngineConfig, 'threshold' | 'holdMs' | 'releaseMs' | 'letterGapMs' | 'wordGapMs' | 'labelThresholds'> & {
+  targetFps: number;
+  handCrop: boolean;
+};
+
+type NumericSetting = Exclude<keyof RecognitionSettings, 'labelThresholds' | 'handCrop'>;
+
+export const SETTING_LIMITS: Record<NumericSetting, { min: number; max: number }> = {
+  threshold: { min: 0.7, max: 1 },
+  holdMs: { min: 200, max: 1200 },
+  releaseMs: { min: 100, max: 1000 },
+  letterGapMs: { min: 1000, max: 8000 },
+  wordGapMs: { min: 1000, max: 15000 },
+  targetFps: { min: MIN_TARGET_FPS, max: MAX_TARGET_FPS },
+};
+
+// Per-label thresholds may go below the global minimum: weak classes rarely reach 0.7
+export const LABEL_THRESHOLD_LIMITS = { min: 0.5, max: 1 };
+
+export const DEFAULT_RECOGNITION_SETTINGS: RecognitionSettings = {
+  threshold: DEFAULT_ENGINE_CONFIG.threshold,
+  holdMs: DEFAULT_ENGINE_CONFIG.holdMs,
+  releaseMs: DEFAULT_ENGINE_CONFIG.releaseMs,
+  letterGapMs: DEFAULT_ENGINE_CONFIG.letterGapMs,
+  wordGapMs: DEFAULT_ENGINE_CONFIG.wordGapMs,
+  labelThresholds: {},
+  targetFps: 15,
+  handCrop: false,
+};
+
+const clamp = (v: number, { min, max }: { min: number; max: number }) => Math.min(max, Math.max(min, v));
+
+// Integers for the millisecond and fps settings, two decimals for thresholds
+const round = (key: NumericSetting, v: number) => (key === 'threshold' ? Math.round(v * 100) / 100 : Math.round(v));
+
+export function clampSetting(key: NumericSetting, value: number): number {
+  const v = Number(value);
+  return Number.isFinite(v) ? round(key, clamp(v, SETTING_LIMITS[key])) : DEFAULT_RECOGNITION_SETTINGS[key];
+}
+
+export const clampLabelThreshold = (value: number) => Math.round(clamp(Number(value), LABEL_THRESHOLD_LIMITS) * 100) / 100;
+
+// Accepts anything (localStorage, an imported file): unknown keys are dropped, values clamped,
+// missing or invalid ones take the defaults
+export function sanitizeSettings(raw: unknown, base: RecognitionSettings = DEFAULT_RECOGNITION_SETTINGS): RecognitionSettings {
+  const src = raw && typeof raw === 'object' ? (raw as Record<string, unknown>) : {};
+  const out: RecognitionSettings = { ...base, labelThresholds: { ...base.labelThresholds } };
+  for (const key of Object.keys(SETTING_LIMITS) as NumericSetting[]) {
+    if (src[key] !== undefined && Number.isFinite(Number(src[key]))) out[key] = clampSetting(key, Number(src[key]));
+  }
+  if (typeof src.handCrop === 'boolean') out.handCrop = src.handCrop;
+  if (src.labelThresholds && typeof src.labelThresholds === 'object') {
+    out.labelThresholds = {};
+    for (const [key, value] of Object.entries(src.labelThresholds as Record<string, unknown>)) {
+      if (/^(letters|words):/.test(key) && Number.isFinite(Number(value))) out.labelThresholds[key] = clampLabelThreshold(Number(value));
+    }
+  }
+  return out;
+}
+
+export const engineConfig = (s: RecognitionSettings): Partial<EngineConfig> => ({
+  threshold: s.threshold,
+  holdMs: s.holdMs,
+  releaseMs: s.releaseMs,
+  letterGapMs: s.letterGapMs,
+  wordGapMs: s.wordGapMs,
+  labelThresholds: s.labelThresholds,
+});
+
+// Exported profile file
+export const PROFILE_FORMAT = 'asl-recognition-profile';
+export const PROFILE_VERSION = 1;
+
+export type RecognitionProfile = {
+  format: typeof PROFILE_FORMAT;
+  version: number;
+  name: string;
+  exportedAt: string;
+  settings: RecognitionSettings;
+};
+
+export const profileToJSON = (name: string, settings: RecognitionSettings) =>
+  JSON.stringify({ format: PROFILE_FORMAT, version: PROFILE_VERSION, name, exportedAt: new Date().toISOString(), settings }, null, 2);
+
+// Parses an exported profile (or a bare settings object); throws with a readable message otherwise
+export function parseProfile(json: string, fallbackName = 'Imported'): { name: string; settings: RecognitionSettings } {
+  let data: any;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('Not a JSON file');
+  }
+  if (!data || typeof data !== 'object') throw new Error('Not a recognition profile');
+  if (data.format !== undefined && data.format !== PROFILE_FORMAT) throw new Error(`Unknown format "${data.format}"`);
+  if (typeof data.version === 'number' && data.version > PROFILE_VERSION) throw new Error(`Profile version ${data.version} is newer than this app supports`);
+  const settings = data.settings ?? data;
+  if (!Object.keys(SETTING_LIMITS).some((k) => k in settings) && !('labelThresholds' in settings)) throw new Error('No recognition settings in this file');
+  const name = typeof data.name === 'string' && data.name.trim() ? data.name.trim() : fallbackName;
+  return { name, settings: sanitizeSettings(settings) };
+}
+
+// The settings part of any object carrying them (the store state)
+export const pickSettings = (s: RecognitionSettings): RecognitionSettings => ({
+  threshold: s.threshold,
+  holdMs: s.holdMs,
+  releaseMs: s.releaseMs,
+  letterGapMs: s.letterGapMs,
+  wordGapMs: s.wordGapMs,
+  labelThresholds: s.labelThresholds,
+  targetFps: s.targetFps,
+  handCrop: s.handCrop,
+});
@@ -0,0 +1,32 @@
+// Decides which part of the transcript is new speech. A word is finished when whitespace follows it
+// (the letter-gap boundary, an accepted completion) or when a whole-word sign was just committed.
+// Rewrites of text already spoken (corrections, edits, Reset) are not spoken again.
+export class TranscriptSpeaker {
+  private text = '';
+  private spoken = 0; // transcript offset up to which words were spoken (or skipped)
+
+  // Feed the new transcript; returns the words to speak now ('' for none)
+  update(text: string, wholeWord: boolean): string {
+    const end = wholeWord ? text.length : finishedUpTo(text);
+    const rewritten = commonPrefix(this.text, text) < this.spoken;
+    const start = rewritten ? end : this.spoken;
+    this.text = text;
+    this.spoken = Math.max(start, end);
+    return rewritten ? '' : text.slice(start, end).trim();
+  }
+
+  // Everything so far counts as spoken, e.g. when speech is switched on mid-session
+  skipTo(text: string) {
+    this.text = text;
+    this.spoken = text.length;
+  }
+}
+
+// Offset just past the last whitespace: everything before it is complete words
+const finishedUpTo = (text: string) => text.search(/\s\S*$/) + 1;
+
+function commonPrefix(a: string, b: string) {
+  let i = 0;
+  while (i < a.length && i < b.length && a[i] === b[i]) i++;
+  return i;
+}
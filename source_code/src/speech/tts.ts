@@ -0,0 +1,63 @@
+// Web Speech API output for the transcript. Settings are plain data (persisted by the store as
+// `asl_speech`); voices are referenced by `voiceURI` because voice objects are per page load.
+export type SpeechTrigger = 'word' | 'manual'; // each completed word, or only the Speak button
+
+export type SpeechSettings = {
+  enabled: boolean;
+  trigger: SpeechTrigger;
+  voiceURI: string | null; // null = browser default for the page language
+  rate: number;            // 0.5..2
+  pitch: number;           // 0..2
+};
+
+export const DEFAULT_SPEECH_SETTINGS: SpeechSettings = {
+  enabled: false,
+  trigger: 'word',
+  voiceURI: null,
+  rate: 1,
+  pitch: 1,
+};
+
+export const TRIGGER_LABELS: Record<SpeechTrigger, string> = {
+  word: 'Each word',
+  manual: 'On demand',
+};
+
+export const speechSupported = () => typeof window !== 'undefined' && 'speechSynthesis' in window;
+
+// Voices load asynchronously in Chrome; resolves once the list is non-empty (or after a short wait)
+export function listVoices(): Promise<SpeechSynthesisVoice[]> {
+  if (!speechSupported()) return Promise.resolve([]);
+  const now = speechSynthesis.getVoices();
+  if (now.length) return Promise.resolve(now);
+  return new Promise((resolve) => {
+    const done = () => {
+      speechSynthesis.removeEventListener('voiceschanged', done);
+      clearTimeout(timer);
+      resolve(speechSynthesis.getVoices());
+    };
+    const timer = setTimeout(done, 1500);
+    speechSynthesis.addEventListener('voiceschanged', done);
+  });
+}
+
+// Queues `text` behind anything already being spoken
+export function speak(text: string, settings: SpeechSettings) {
+  if (!speechSupported() || !text.trim()) return;
+  const utterance = new SpeechSynthesisUtterance(text);
+  const voice = settings.voiceURI ? speechSynthesis.getVoices().find((v) => v.voiceURI === settings.voiceURI) : undefined;
+  if (voice) {
+    utterance.voice = voice;
+    utterance.lang = voice.lang;
+  }
+  utterance.rate = settings.rate;
+  utterance.pitch = settings.pitch;
+  speechSynthesis.speak(utterance);
+}
+
+export function cancelSpeech() {
+  if (speechSupported()) speechSynthesis.cancel();
+}
+
+// Fingerspelled words arrive in capitals, which some voices read letter by letter
+export const toSpeech = (text: string) => text.replace(/\S+/g, (w) => (w === 'I' ? w : w.toLowerCase()));
@@ -0,0 +1,26 @@
+import { useEffect, useRef } from 'react';
+import { useAslStore } from '../store/aslStore';
+import { TranscriptSpeaker } from './transcript';
+import { cancelSpeech, speak, toSpeech } from './tts';
+
+// Speaks transcript words as they are finished, when speech is on with the "Each word" trigger.
+// Subscribes to the store directly so it sees every commit, not just rendered states.
+export function useTranscriptSpeech() {
+  const speakerRef = useRef(new TranscriptSpeaker());
+
+  useEffect(() => {
+    const speaker = speakerRef.current;
+    speaker.skipTo(useAslStore.getState().text);
+    const unsubscribe = useAslStore.subscribe((state, prev) => {
+      if (state.text === prev.text) return;
+      const newToken = state.tokens.length > prev.tokens.length ? state.tokens[state.tokens.length - 1] : null;
+      const words = speaker.update(state.text, newToken?.kind === 'words');
+      const { speech } = state;
+      if (words && speech.enabled && speech.trigger === 'word') speak(toSpeech(words), speech);
+    });
+    return () => {
+      unsubscribe();
+      cancelSpeech();
+    };
+  }, []);
+}
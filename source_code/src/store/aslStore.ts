@@ -1,44 +1,357 @@
 import { create } from 'zustand';
+import { ModelKind, RecognitionMode } from '../recognition/types';
+import type { ModelChoice } from '../api/models';
+import type { CommittedToken } from '../recognition/engine';
+import { newSessionId } from '../history/sessions';
+import { CorrectionSettings, DEFAULT_CORRECTION_SETTINGS } from '../correction/providers';
+import { DEFAULT_SPEECH_SETTINGS, SpeechSettings } from '../speech/tts';
+import { clampCaptionScale, DEFAULT_CAPTION_SCALE } from '../captions/channel';
+import { ControlSettings, DEFAULT_CONTROL_SETTINGS } from '../recognition/controls';
+import { DEFAULT_MOTION_SETTINGS, MotionSettings, MotionTemplate } from '../recognition/motion';
+import { clampLabelThreshold, DEFAULT_RECOGNITION_SETTINGS, pickSettings, RecognitionSettings, sanitizeSettings } from '../settings/recognition';
+import type { TokenProvenance } from '../feedback/frames';
+import type { FeedbackSample } from '../feedback/queue';
+import { deleteCharBefore, deleteWordBefore, EditHistory, insertSpace, insertText, TextDoc } from '../transcript/edit';
+
+export type { RecognitionMode };
+
+export type SavedProfile = { name: string; savedAt: number; settings: RecognitionSettings };
 
 type State = {
   text: string;
+  cursor: number | null;          // insertion point in `text` for recognized signs; null = end
+  canUndo: boolean;
+  canRedo: boolean;
   status: string;
   recognizedLabel?: string;
   confidence?: number;
   threshold: number; // 0..1
   cameraOn: boolean;
   holdMs: number; // letter commit hold time
+  releaseMs: number;              // low-confidence time before the same sign can commit again
+  letterGapMs: number;            // pause after a letter that closes the word with a space
+  wordGapMs: number;              // minimum gap before the same word sign repeats
+  labelThresholds: Record<string, number>; // per-label overrides of `threshold`, keyed by labelKey
+  profiles: SavedProfile[];       // named recognition settings (see src/settings/recognition.ts)
+  mode: RecognitionMode;
+  modelChoice: Record<ModelKind, ModelChoice>; // per-device model version selection
+  sessionId: string;              // IndexedDB id the live transcript autosaves to
+  sessionStartedAt: number | null; // first commit of the live session
+  tokens: CommittedToken[];       // committed tokens of the live session, with timestamps and confidences
+  correction: CorrectionSettings; // sentence correction; disabled = strict letter-by-letter
+  userWords: string[];            // user dictionary for fingerspelling completion (uppercase)
+  handCrop: boolean;              // crop to the detected hand before classification
+  cropDebug: boolean;             // draw the crop box and show the model input
+  targetFps: number;              // inference frames per second to aim for (see src/inference/pacer.ts)
+  showPerf: boolean;              // perf HUD over the webcam
+  speech: SpeechSettings;         // spoken output of the transcript
+  captionScale: number;           // caption font size multiplier, shared with the presenter window
+  controls: ControlSettings;      // control signs (backspace, space, undo, …)
+  motion: MotionSettings;         // motion-sign recognition (see src/recognition/motion.ts)
+  motionTemplates: MotionTemplate[]; // the signer's recorded motion signs
+  provenance: TokenProvenance[];  // frames and confidences behind the latest committed signs (not persisted)
+  feedbackDatasetId: number | null; // dataset corrected frames are uploaded to
+  feedbackQueue: FeedbackSample[]; // corrected frames waiting for upload (see src/feedback/queue.ts)
 };
 
 type Actions = {
   setStatus: (status: string) => void;
   setRecognition: (label: string, confidence: number) => void;
   appendText: (t: string) => void;
+  commitToken: (token: CommittedToken) => void;
+  setText: (text: string) => void;
   resetText: () => void;
+  editText: (text: string, cursor: number | null) => void; // typing in the transcript box
+  setCursor: (cursor: number | null) => void;
+  deleteLastChar: () => void;
+  deleteLastWord: () => void;
+  insertSpace: () => void;
+  clearText: () => void;
+  undo: () => void;
+  redo: () => void;
   setThreshold: (v: number) => void;
   setCameraOn: (on: boolean) => void;
   setHoldMs: (ms: number) => void;
+  setRecognitionSettings: (patch: Partial<RecognitionSettings>) => void;
+  setLabelThreshold: (key: string, value: number | null) => void; // null removes the override
+  saveProfile: (name: string, settings?: RecognitionSettings) => void; // current settings unless given
+  applyProfile: (name: string) => void;
+  deleteProfile: (name: string) => void;
+  setMode: (mode: RecognitionMode) => void;
+  setModelChoice: (kind: ModelKind, choice: ModelChoice) => void;
+  setCorrection: (patch: Partial<CorrectionSettings>) => void;
+  setHandCrop: (on: boolean) => void;
+  setCropDebug: (on: boolean) => void;
+  setTargetFps: (fps: number) => void;
+  setShowPerf: (on: boolean) => void;
+  setSpeech: (patch: Partial<SpeechSettings>) => void;
+  setCaptionScale: (scale: number) => void;
+  setControls: (patch: Partial<ControlSettings>) => void;
+  setMotion: (patch: Partial<MotionSettings>) => void;
+  addMotionTemplate: (template: MotionTemplate) => void;
+  deleteMotionTemplates: (ids: string[]) => void;
+  addProvenance: (p: TokenProvenance) => void;
+  setFeedbackDatasetId: (id: number | null) => void;
+  queueFeedback: (samples: FeedbackSample[]) => void;
+  patchFeedback: (id: string, patch: Partial<FeedbackSample>) => void;
+  removeFeedback: (id: string) => void;
+  addUserWord: (word: string) => void;
+  removeUserWord: (word: string) => void;
 };
 
 const savedText = typeof window !== 'undefined' ? localStorage.getItem('asl_text') || '' : '';
+const savedMode = typeof window !== 'undefined' ? localStorage.getItem('asl_mode') : null;
+type SavedSession = { id: string; startedAt: number | null; tokens: CommittedToken[] };
+const savedSession: SavedSession = (() => {
+  try {
+    const s = JSON.parse((typeof window !== 'undefined' && localStorage.getItem('asl_session')) || 'null');
+    if (s && s.id && Array.isArray(s.tokens)) return s;
+  } catch {}
+  return { id: newSessionId(), startedAt: null, tokens: [] };
+})();
+const persistLiveSession = (session: SavedSession) => {
+  try { localStorage.setItem('asl_session', JSON.stringify(session)); } catch {}
+};
+const savedCorrection = (() => {
+  try { return JSON.parse((typeof window !== 'undefined' && localStorage.getItem('asl_correction')) || '{}'); } catch { return {}; }
+})();
+const savedUserWords: string[] = (() => {
+  try {
+    const words = JSON.parse((typeof window !== 'undefined' && localStorage.getItem('asl_user_words')) || '[]');
+    return Array.isArray(words) ? words : [];
+  } catch { return []; }
+})();
+const persistUserWords = (words: string[]) => {
+  try { localStorage.setItem('asl_user_words', JSON.stringify(words)); } catch {}
+};
+// Threshold, timings, per-label thresholds, fps and hand crop. Older versions kept fps and hand crop
+// under their own keys: those are read once as the fallback.
+const savedRecognition: RecognitionSettings = (() => {
+  if (typeof window === 'undefined') return DEFAULT_RECOGNITION_SETTINGS;
+  try { return sanitizeSettings(JSON.parse(localStorage.getItem('asl_recognition') || '{}')); } catch { return DEFAULT_RECOGNITION_SETTINGS; }
+})();
+const persistRecognition = (settings: RecognitionSettings) => {
+  try { localStorage.setItem('asl_recognition', JSON.stringify(settings)); } catch {}
+};
+// Sanitized update of the recognition settings, persisted as a whole
+const updateRecognition = (s: State, patch: Partial<RecognitionSettings>): Partial<State> => {
+  const settings = sanitizeSettings(patch, pickSettings(s));
+  persistRecognition(settings);
+  return settings;
+};
+const savedProfiles: SavedProfile[] = (() => {
+  try {
+    const profiles = JSON.parse((typeof window !== 'undefined' && localStorage.getItem('asl_profiles')) || '[]');
+    return Array.isArray(profiles)
+      ? profiles.filter((p) => p && typeof p.name === 'string').map((p) => ({ name: p.name, savedAt: Number(p.savedAt) || 0, settings: sanitizeSettings(p.settings) }))
+      : [];
+  } catch { return []; }
+})();
+const persistProfiles = (profiles: SavedProfile[]) => {
+  try { localStorage.setItem('asl_profiles', JSON.stringify(profiles)); } catch {}
+};
+const persistText = (text: string) => {
+  try { localStorage.setItem('asl_text', text); } catch {}
+};
+const savedControls = (() => {
+  try { return JSON.parse((typeof window !== 'undefined' && localStorage.getItem('asl_controls')) || '{}'); } catch { return {}; }
+})();
+const savedMotion = (() => {
+  try { return JSON.parse((typeof window !== 'undefined' && localStorage.getItem('asl_motion')) || '{}'); } catch { return {}; }
+})();
+const savedMotionTemplates: MotionTemplate[] = (() => {
+  try {
+    const templates = JSON.parse((typeof window !== 'undefined' && localStorage.getItem('asl_motion_templates')) || '[]');
+    return Array.isArray(templates) ? templates.filter((t) => t && t.id && Array.isArray(t.frames)) : [];
+  } catch { return []; }
+})();
+const persistMotionTemplates = (templates: MotionTemplate[]) => {
+  try { localStorage.setItem('asl_motion_templates', JSON.stringify(templates)); } catch {}
+};
+const savedFeedbackDatasetId: number | null = (() => {
+  try {
+    const id = JSON.parse((typeof window !== 'undefined' && localStorage.getItem('asl_feedback_dataset')) || 'null');
+    return typeof id === 'number' ? id : null;
+  } catch { return null; }
+})();
+const MAX_PROVENANCE = 30; // committed signs whose frames are kept for feedback
+const savedSpeech = (() => {
+  try { return JSON.parse((typeof window !== 'undefined' && localStorage.getItem('asl_speech')) || '{}'); } catch { return {}; }
+})();
+const savedCaptionScale = Number((typeof window !== 'undefined' && localStorage.getItem('asl_caption_scale')) || DEFAULT_CAPTION_SCALE);
+const savedModelChoice = (() => {
+  try { return JSON.parse((typeof window !== 'undefined' && localStorage.getItem('asl_model_choice')) || '{}'); } catch { return {}; }
+})();
+
+// Undo/redo of the live transcript; not persisted, cleared by Reset
+const editHistory = new EditHistory();
+
+// Applies a transcript edit and records the previous state for undo
+const edit = (s: State, next: TextDoc, group: string | null = null): Partial<State> => {
+  if (next.text === s.text && next.cursor === s.cursor) return {};
+  editHistory.push({ text: s.text, cursor: s.cursor }, Date.now(), group);
+  if (next.text !== s.text) persistText(next.text);
+  return { text: next.text, cursor: next.cursor, canUndo: editHistory.canUndo, canRedo: editHistory.canRedo };
+};
 
 export const useAslStore = create<State & Actions>((set) => ({
   text: savedText,
+  cursor: null,
+  canUndo: false,
+  canRedo: false,
   status: 'Listening to signs…',
   recognizedLabel: undefined,
   confidence: undefined,
-  threshold: 0.95, // strict default for high accuracy
+  ...savedRecognition,
+  profiles: savedProfiles,
   cameraOn: true,
-  holdMs: 600,
+  mode: savedMode === 'words' || savedMode === 'auto' ? savedMode : 'letters',
+  modelChoice: { letters: 'active', words: 'active', ...savedModelChoice },
+  sessionId: savedSession.id,
+  sessionStartedAt: savedSession.startedAt,
+  tokens: savedSession.tokens,
+  correction: { ...DEFAULT_CORRECTION_SETTINGS, ...savedCorrection },
+  userWords: savedUserWords,
+  cropDebug: false,
+  showPerf: false,
+  speech: { ...DEFAULT_SPEECH_SETTINGS, ...savedSpeech },
+  controls: { ...DEFAULT_CONTROL_SETTINGS, ...savedControls },
+  motion: { ...DEFAULT_MOTION_SETTINGS, ...savedMotion },
+  motionTemplates: savedMotionTemplates,
+  provenance: [],
+  feedbackDatasetId: savedFeedbackDatasetId,
+  feedbackQueue: [],
+  captionScale: clampCaptionScale(savedCaptionScale),
   setStatus: (status) => set({ status }),
   setRecognition: (label, confidence) => set({ recognizedLabel: label, confidence }),
-  appendText: (t) => set((s) => {
-    const next = (s.text + t);
-    try { localStorage.setItem('asl_text', next); } catch {}
-    return { text: next };
+  // Inserts at the cursor (the end unless the user moved it)
+  appendText: (t) => set((s) => edit(s, insertText(s, t))),
+  commitToken: (token) => set((s) => {
+    const tokens = [...s.tokens, token];
+    const sessionStartedAt = s.sessionStartedAt ?? token.timestamp;
+    persistLiveSession({ id: s.sessionId, startedAt: sessionStartedAt, tokens });
+    return { ...edit(s, insertText(s, token.text)), tokens, sessionStartedAt };
+  }),
+  // Replaces the transcript (accepted corrections and completions); tokens keep the raw recognition
+  setText: (text) => set((s) => edit(s, { text, cursor: null })),
+  // Starts a new live session; the previous one stays in history (see src/history)
+  resetText: () => set(() => {
+    const sessionId = newSessionId();
+    try { localStorage.removeItem('asl_text'); } catch {};
+    persistLiveSession({ id: sessionId, startedAt: null, tokens: [] });
+    editHistory.clear();
+    return { text: '', cursor: null, canUndo: false, canRedo: false, sessionId, sessionStartedAt: null, tokens: [], provenance: [] };
+  }),
+  editText: (text, cursor) => set((s) => edit(s, { text, cursor: cursor !== null && cursor < text.length ? cursor : null }, 'type')),
+  setCursor: (cursor) => set((s) => ({ cursor: cursor !== null && cursor < s.text.length ? Math.max(0, cursor) : null })),
+  deleteLastChar: () => set((s) => edit(s, deleteCharBefore(s))),
+  deleteLastWord: () => set((s) => edit(s, deleteWordBefore(s))),
+  insertSpace: () => set((s) => edit(s, insertSpace(s))),
+  // Empties the transcript but stays in the session (undoable, unlike Reset)
+  clearText: () => set((s) => edit(s, { text: '', cursor: null })),
+  undo: () => set((s) => {
+    const prev = editHistory.undo({ text: s.text, cursor: s.cursor });
+    if (!prev) return {};
+    persistText(prev.text);
+    return { ...prev, canUndo: editHistory.canUndo, canRedo: editHistory.canRedo };
+  }),
+  redo: () => set((s) => {
+    const next = editHistory.redo({ text: s.text, cursor: s.cursor });
+    if (!next) return {};
+    persistText(next.text);
+    return { ...next, canUndo: editHistory.canUndo, canRedo: editHistory.canRedo };
   }),
-  resetText: () => set(() => { try { localStorage.removeItem('asl_text'); } catch {}; return { text: '' }; }),
-  setThreshold: (v) => set({ threshold: Math.min(1.0, Math.max(0.7, v)) }), // allow 70%–100%
+  setThreshold: (v) => set((s) => updateRecognition(s, { threshold: v })), // allow 70%–100%
   setCameraOn: (on) => set({ cameraOn: on, status: on ? 'Listening to signs…' : 'Camera off' }),
-  setHoldMs: (ms) => set({ holdMs: Math.min(1200, Math.max(200, Math.round(ms))) })
+  setHoldMs: (ms) => set((s) => updateRecognition(s, { holdMs: ms })),
+  setRecognitionSettings: (patch) => set((s) => updateRecognition(s, patch)),
+  setLabelThreshold: (key, value) => set((s) => {
+    const labelThresholds = { ...s.labelThresholds };
+    if (value === null) delete labelThresholds[key];
+    else labelThresholds[key] = clampLabelThreshold(value);
+    return updateRecognition(s, { labelThresholds });
+  }),
+  // Same name replaces the saved profile
+  saveProfile: (name, settings) => set((s) => {
+    const profile = { name: name.trim(), savedAt: Date.now(), settings: sanitizeSettings(settings ?? pickSettings(s)) };
+    if (!profile.name) return {};
+    const profiles = [...s.profiles.filter((p) => p.name !== profile.name), profile].sort((a, b) => a.name.localeCompare(b.name));
+    persistProfiles(profiles);
+    return { profiles };
+  }),
+  applyProfile: (name) => set((s) => {
+    const profile = s.profiles.find((p) => p.name === name);
+    return profile ? updateRecognition(s, profile.settings) : {};
+  }),
+  deleteProfile: (name) => set((s) => {
+    const profiles = s.profiles.filter((p) => p.name !== name);
+    persistProfiles(profiles);
+    return { profiles };
+  }),
+  setMode: (mode) => set(() => { try { localStorage.setItem('asl_mode', mode); } catch {}; return { mode }; }),
+  setModelChoice: (kind, choice) => set((s) => {
+    const modelChoice = { ...s.modelChoice, [kind]: choice };
+    try { localStorage.setItem('asl_model_choice', JSON.stringify(modelChoice)); } catch {}
+    return { modelChoice };
+  }),
+  setCorrection: (patch) => set((s) => {
+    const correction = { ...s.correction, ...patch };
+    try { localStorage.setItem('asl_correction', JSON.stringify(correction)); } catch {}
+    return { correction };
+  }),
+  setHandCrop: (on) => set((s) => updateRecognition(s, { handCrop: on })),
+  setCropDebug: (on) => set({ cropDebug: on }),
+  setTargetFps: (fps) => set((s) => updateRecognition(s, { targetFps: fps })),
+  setShowPerf: (on) => set({ showPerf: on }),
+  setSpeech: (patch) => set((s) => {
+    const speech = { ...s.speech, ...patch };
+    try { localStorage.setItem('asl_speech', JSON.stringify(speech)); } catch {}
+    return { speech };
+  }),
+  setControls: (patch) => set((s) => {
+    const controls = { ...s.controls, ...patch };
+    try { localStorage.setItem('asl_controls', JSON.stringify(controls)); } catch {}
+    return { controls };
+  }),
+  setMotion: (patch) => set((s) => {
+    const motion = { ...s.motion, ...patch };
+    try { localStorage.setItem('asl_motion', JSON.stringify(motion)); } catch {}
+    return { motion };
+  }),
+  addMotionTemplate: (template) => set((s) => {
+    const motionTemplates = [...s.motionTemplates, template];
+    persistMotionTemplates(motionTemplates);
+    return { motionTemplates };
+  }),
+  deleteMotionTemplates: (ids) => set((s) => {
+    const motionTemplates = s.motionTemplates.filter((t) => !ids.includes(t.id));
+    persistMotionTemplates(motionTemplates);
+    return { motionTemplates };
+  }),
+  // Frames are encoded asynchronously, so a sign may arrive after the next one
+  addProvenance: (p) => set((s) => ({ provenance: [...s.provenance, p].sort((a, b) => a.timestamp - b.timestamp).slice(-MAX_PROVENANCE) })),
+  setFeedbackDatasetId: (id) => set(() => {
+    try { localStorage.setItem('asl_feedback_dataset', JSON.stringify(id)); } catch {}
+    return { feedbackDatasetId: id };
+  }),
+  queueFeedback: (samples) => set((s) => ({ feedbackQueue: [...s.feedbackQueue, ...samples] })),
+  patchFeedback: (id, patch) => set((s) => ({ feedbackQueue: s.feedbackQueue.map((x) => (x.id === id ? { ...x, ...patch } : x)) })),
+  removeFeedback: (id) => set((s) => ({ feedbackQueue: s.feedbackQueue.filter((x) => x.id !== id) })),
+  setCaptionScale: (scale) => set(() => {
+    const captionScale = clampCaptionScale(scale);
+    try { localStorage.setItem('asl_caption_scale', String(captionScale)); } catch {}
+    return { captionScale };
+  }),
+  addUserWord: (word) => set((s) => {
+    const w = word.trim().toUpperCase();
+    if (!/^[A-Z]+$/.test(w) || s.userWords.includes(w)) return {};
+    const userWords = [...s.userWords, w].sort();
+    persistUserWords(userWords);
+    return { userWords };
+  }),
+  removeUserWord: (word) => set((s) => {
+    const userWords = s.userWords.filter((w) => w !== word);
+    persistUserWords(userWords);
+    return { userWords };
+  })
 }));
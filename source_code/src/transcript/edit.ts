@@ -0,0 +1,96 @@
+// Transcript editing as pure functions over { text, cursor }. `cursor` is the insertion point for
+// recognized signs and the position editing commands act before; null means the end of the text.
+export type TextDoc = { text: string; cursor: number | null };
+
+const at = (doc: TextDoc) => (doc.cursor === null ? doc.text.length : Math.min(doc.cursor, doc.text.length));
+
+// A cursor that lands on the end is stored as null, so later text keeps appending
+const place = (text: string, pos: number): TextDoc => ({ text, cursor: pos >= text.length ? null : pos });
+
+export function insertText(doc: TextDoc, s: string): TextDoc {
+  const pos = at(doc);
+  return place(doc.text.slice(0, pos) + s + doc.text.slice(pos), pos + s.length);
+}
+
+export function deleteCharBefore(doc: TextDoc): TextDoc {
+  const pos = at(doc);
+  if (pos === 0) return doc;
+  return place(doc.text.slice(0, pos - 1) + doc.text.slice(pos), pos - 1);
+}
+
+// Removes the word before the cursor together with the spaces after it ("HELLO WOR|" -> "HELLO |").
+// When a space follows the cursor the one before the word goes too ("AB CD| EF" -> "AB| EF"), and at
+// the start of the text the following spaces, so no double or leading space is left.
+export function deleteWordBefore(doc: TextDoc): TextDoc {
+  const pos = at(doc);
+  const before = doc.text.slice(0, pos);
+  let start = before.replace(/\S+\s*$|\s+$/, '').length;
+  if (start === pos) return doc;
+  let end = pos;
+  const spaceAfter = doc.text.slice(pos).match(/^\s+/);
+  if (spaceAfter) {
+    start = doc.text.slice(0, start).trimEnd().length;
+    if (start === 0) end += spaceAfter[0].length;
+  }
+  return place(doc.text.slice(0, start) + doc.text.slice(end), start);
+}
+
+// No double spaces and no leading space
+export function insertSpace(doc: TextDoc): TextDoc {
+  const pos = at(doc);
+  if (pos === 0 || /\s/.test(doc.text[pos - 1])) return doc;
+  return insertText(doc, ' ');
+}
+
+const MAX_UNDO = 100;
+const COALESCE_MS = 1000; // typing in the text box within this gap is one undo step
+
+// Undo/redo stacks of whole snapshots (transcripts are short). Consecutive pushes with the same
+// `group` inside COALESCE_MS keep only the first snapshot, so a burst of typing undoes at once.
+export class EditHistory {
+  private undoStack: TextDoc[] = [];
+  private redoStack: TextDoc[] = [];
+  private lastGroup: string | null = null;
+  private lastAt = 0;
+
+  get canUndo() {
+    return this.undoStack.length > 0;
+  }
+
+  get canRedo() {
+    return this.redoStack.length > 0;
+  }
+
+  // Call with the state before an edit
+  push(before: TextDoc, now: number, group: string | null = null) {
+    const coalesce = group !== null && group === this.lastGroup && now - this.lastAt < COALESCE_MS;
+    this.lastGroup = group;
+    this.lastAt = now;
+    this.redoStack = [];
+    if (coalesce) return;
+    this.undoStack.push(before);
+    if (this.undoStack.length > MAX_UNDO) this.undoStack.shift();
+  }
+
+  undo(current: TextDoc): TextDoc | null {
+    const prev = this.undoStack.pop();
+    if (!prev) return null;
+    this.redoStack.push(current);
+    this.lastGroup = null;
+    return prev;
+  }
+
+  redo(current: TextDoc): TextDoc | null {
+    const next = this.redoStack.pop();
+    if (!next) return null;
+    this.undoStack.push(current);
+    this.lastGroup = null;
+    return next;
+  }
+
+  clear() {
+    this.undoStack = [];
+    this.redoStack = [];
+    this.lastGroup = null;
+  }
+}
@@ -11,6 +11,7 @@ declare module '@teachablemachine/image' {
   export type Prediction = { className: string; probability: number };
   export type CustomMobileNet = {
     predict: (input: HTMLCanvasElement | HTMLImageElement) => Promise<Prediction[]>;
+    getClassLabels: () => string[];
   };
   export function load(modelUrl: string, metadataUrl: string): Promise<CustomMobileNet>;
 }
\ No newline at end of file
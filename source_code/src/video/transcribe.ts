@@ -0,0 +1,128 @@
+import { CommitEngine } from '../recognition/engine';
+import type { CommittedToken, EngineConfig } from '../recognition/engine';
+import { createManualClock } from '../recognition/clock';
+import type { ModelKind, RecognitionMode } from '../recognition/types';
+import type { InferenceRunner } from '../inference/client';
+import { HandCropper } from '../preprocess/cropper';
+import type { Session } from '../history/sessions';
+
+// Transcription of a recorded video: seek frame by frame at a fixed sampling rate, classify each frame
+// with the same runner and CommitEngine as the live translator, and drive the engine's clock with the
+// video's own time so hold, release and gaps mean the same as live. Timestamps are ms into the video.
+
+export const SAMPLE_RATES = [5, 10, 15, 20]; // frames per second of video
+const MAX_FRAME_WIDTH = 640;                 // the models see 224px anyway
+
+// One sampled frame on the timeline
+export type TimelinePoint = {
+  t: number;
+  kind: ModelKind;
+  label: string;      // smoothed top prediction the engine gated
+  confidence: number;
+  accepted: boolean;  // above threshold and not blank
+};
+
+export type VideoTranscript = {
+  points: TimelinePoint[];
+  tokens: CommittedToken[];
+  text: string;
+  durationMs: number; // covered so far; less than the video when cancelled
+  complete: boolean;
+};
+
+export type TranscribeOptions = {
+  kinds: ModelKind[];
+  config: Partial<EngineConfig>;
+  fps: number;
+  mirror: boolean;    // flip like the webcam, which the models were trained on
+  handCrop: boolean;
+  signal?: AbortSignal;
+  onProgress?: (partial: VideoTranscript) => void;
+};
+
+const once = (target: HTMLVideoElement, event: string) =>
+  new Promise<void>((resolve, reject) => {
+    const done = () => { cleanup(); resolve(); };
+    const fail = () => { cleanup(); reject(target.error ?? new Error('Video could not be decoded')); };
+    const cleanup = () => {
+      target.removeEventListener(event, done);
+      target.removeEventListener('error', fail);
+    };
+    target.addEventListener(event, done);
+    target.addEventListener('error', fail);
+  });
+
+async function seek(video: HTMLVideoElement, seconds: number) {
+  const seeked = once(video, 'seeked');
+  video.currentTime = seconds;
+  await seeked;
+}
+
+// MediaRecorder WebM files often report an infinite duration until the end has been seeked once
+export async function videoDuration(video: HTMLVideoElement): Promise<number> {
+  if (video.readyState < 1) await once(video, 'loadedmetadata');
+  if (!Number.isFinite(video.duration)) {
+    await seek(video, 1e7);
+    await seek(video, 0);
+  }
+  return video.duration * 1000;
+}
+
+export async function transcribeVideo(video: HTMLVideoElement, runner: InferenceRunner, opts: TranscribeOptions): Promise<VideoTranscript> {
+  const duration = await videoDuration(video);
+  const clock = createManualClock(0);
+  const engine = new CommitEngine({ ...opts.config, clock });
+  const cropper = new HandCropper();
+  const scale = Math.min(1, MAX_FRAME_WIDTH / (video.videoWidth || MAX_FRAME_WIDTH));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round((video.videoWidth || MAX_FRAME_WIDTH) * scale));
+  canvas.height = Math.max(1, Math.round((video.videoHeight || MAX_FRAME_WIDTH * 0.75) * scale));
+  const ctx = canvas.getContext('2d')!;
+  if (opts.mirror) {
+    ctx.translate(canvas.width, 0);
+    ctx.scale(-1, 1);
+  }
+
+  const result: VideoTranscript = { points: [], tokens: [], text: '', durationMs: 0, complete: false };
+  const step = 1000 / opts.fps;
+  video.pause();
+  for (let t = 0; t < duration; t += step) {
+    if (opts.signal?.aborted) return result;
+    await seek(video, t / 1000);
+    ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+    const input = opts.handCrop ? cropper.process(canvas).canvas : canvas;
+    const frame = await runner.predict(input, opts.kinds);
+
+    clock.set(t);
+    const { letters, words } = frame.predictions;
+    const stepped = opts.kinds.length > 1
+      ? engine.stepHybrid(t, { letters: letters!, words: words! })
+      : engine.step(t, frame.predictions[opts.kinds[0]]!, opts.kinds[0]);
+    result.points.push({ t, kind: stepped.kind, label: stepped.prediction.className.trim(), confidence: stepped.prediction.probability, accepted: stepped.accepted });
+    for (const token of stepped.tokens) {
+      result.tokens.push(token);
+      result.text += token.text;
+    }
+    result.durationMs = t;
+    opts.onProgress?.(result);
+  }
+  result.durationMs = duration;
+  result.complete = true;
+  return result;
+}
+
+// A transcript as a session: exports (WebVTT, SRT, …) and History take it as is. `startedAt` shifts
+// the video-relative timestamps; 0 keeps them relative for export.
+export function transcriptSession(transcript: VideoTranscript, meta: { id: string; title: string; mode: RecognitionMode; startedAt?: number }): Session {
+  const startedAt = meta.startedAt ?? 0;
+  return {
+    id: meta.id,
+    title: meta.title,
+    startedAt,
+    updatedAt: Date.now(),
+    mode: meta.mode,
+    text: transcript.text.trim(),
+    tokens: transcript.tokens.map((t) => ({ ...t, timestamp: t.timestamp + startedAt })),
+    edited: false,
+  };
+}
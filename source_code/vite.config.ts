@@ -1,13 +1,19 @@
 import { defineConfig } from "vite";
 import react from "@vitejs/plugin-react";
 import { youwareVitePlugin } from "@youware/vite-plugin-react";
+import serviceWorker from "./scripts/pwa/vite-plugin-sw";
 
 // https://vite.dev/config/
 export default defineConfig({
-  plugins: [youwareVitePlugin(), react()],
+  // serviceWorker(): emits dist/sw.js precaching the app shell and both bundled models (build only)
+  plugins: [youwareVitePlugin(), react(), serviceWorker()],
   server: {
     host: "127.0.0.1",
     port: 5173,
+    // Forward backend calls to `wrangler dev` during local development
+    proxy: {
+      "/api": process.env.VITE_API_PROXY || "http://127.0.0.1:8787",
+    },
   },
   build: {
     sourcemap: true,